@@ -1,9 +1,28 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import * as THREE from "three";
-import { OrbitControls } from "three/examples/jsm/Addons.js";
+import type { OrbitControls } from "three/examples/jsm/Addons.js";
+import type * as OBC from "@thatopen/components";
+import { createComponents } from "./components/ComponentsManager";
+import { ToolManager } from "./components/ToolManager";
+import { startUpdateLoop } from "./three/updateLoop";
 import { Toolbar } from "./components/Toolbar";
-import { LayerManager } from "./components/LayerManager";
+import type { ToolbarHandle } from "./components/Toolbar";
+import { LayerManager, type ImportedLayer } from "./components/LayerManager";
 import { RectangleTool } from "./components/RectangleTool";
+import { IfcManager, type IfcModel } from "./ifc/IfcManager";
+import { IfcPropertiesPanel } from "./components/IfcPropertiesPanel";
+import { IfcClassificationPanel } from "./components/IfcClassificationPanel";
+import { isClassifiable } from "./ifc/classification";
+import { IssuesPanel } from "./components/IssuesPanel";
+import { IdsPanel } from "./components/IdsPanel";
+import { ModelComparisonPanel } from "./components/ModelComparisonPanel";
+import { TakeoffPanel } from "./components/TakeoffPanel";
+import { ClashPanel } from "./components/ClashPanel";
+import type { ClashResult } from "./clash/types";
+import { SpatialTree } from "./components/SpatialTree";
+import type { SelectionTool } from "./components/SelectionTool";
+import { IfcExporter, type ExtrusionExportMode } from "./ifc/IfcExporter";
+import { downloadFile } from "./utils/download";
 import SettingsButton from "./components/SettingsButton";
 import ProfileAccount from "./components/ProfileAccount";
 import { Terminal } from 'lucide-react';
@@ -11,16 +30,98 @@ import CommandLine from './components/CommandLine.tsx';
 import "./App.css";
 
 export default function App() {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewerRef = useRef<HTMLDivElement>(null);
+  const toolbarRef = useRef<ToolbarHandle>(null);
+  const [components, setComponents] = useState<OBC.Components | null>(null);
   const [scene, setScene] = useState<THREE.Scene | null>(null);
   const [camera, setCamera] = useState<THREE.PerspectiveCamera | null>(null);
   const [renderer, setRenderer] = useState<THREE.WebGLRenderer | null>(null);
   const controlsRef = useRef<OrbitControls | null>(null);
+  const [orbitControls, setOrbitControls] = useState<OrbitControls | null>(null);
   const [activeTool, setActiveTool] = useState<string>('select');
   const [rectangleTool, setRectangleTool] = useState<RectangleTool | null>(null);
   const [layers, setLayers] = useState<Array<{id: string, name: string, visible: boolean}>>([]);
   const [activeLayerId, setActiveLayerId] = useState<string | null>(null);
   const [showCommandLine, setShowCommandLine] = useState(false);
+  const [ifcManager, setIfcManager] = useState<IfcManager | null>(null);
+  const [ifcModels, setIfcModels] = useState<IfcModel[]>([]);
+  const importedLayers = useMemo<ImportedLayer[]>(
+    () => ifcModels.map(model => ({ id: model.id, name: model.name, objects: [model.group] })),
+    [ifcModels]
+  );
+  const [statusMessage, setStatusMessage] = useState('Ready');
+  const [selectedObjects, setSelectedObjects] = useState<THREE.Object3D[]>([]);
+  const selectedObject = selectedObjects.length > 0 ? selectedObjects[selectedObjects.length - 1] : null;
+  const [selectionTool, setSelectionTool] = useState<SelectionTool | null>(null);
+
+  // Load an IFC or Fragments file into the scene and give the model its own layer
+  const handleOpenIfc = async (file: File) => {
+    if (!ifcManager) return;
+
+    setStatusMessage(`Loading ${file.name}...`);
+    try {
+      const model = await ifcManager.loadFile(file);
+      setIfcModels(prev => [...prev, model]);
+      setStatusMessage('Ready');
+    } catch (error) {
+      console.error(`Failed to load IFC file ${file.name}:`, error);
+      setStatusMessage(`Failed to load ${file.name}`);
+    }
+  };
+
+  // Select elements picked in the spatial tree and bring them into view
+  const handleSelectIfcElements = (objects: THREE.Object3D[]) => {
+    if (!selectionTool) return;
+    selectionTool.setSelection(objects);
+    selectionTool.frameSelection();
+  };
+
+  // Highlight both objects of a clash and zoom in on where they meet
+  const handleShowClash = (clash: ClashResult) => {
+    if (!selectionTool) return;
+    selectionTool.setSelection([clash.a, clash.b]);
+    selectionTool.frameSelection(new THREE.Box3().setFromCenterAndSize(clash.point, new THREE.Vector3(2, 2, 2)));
+  };
+
+  // Save loaded models as .frag files: the selected element's model, or every model if nothing is selected
+  const handleSaveFragments = async () => {
+    if (!ifcManager) return;
+
+    const selectedModelId: string | undefined = selectedObject?.userData.ifcModelId;
+    const models = ifcModels.filter(model => !selectedModelId || model.id === selectedModelId);
+    if (models.length === 0) {
+      setStatusMessage('No IFC model to save');
+      return;
+    }
+
+    for (const model of models) {
+      setStatusMessage(`Converting ${model.name} to Fragments...`);
+      try {
+        const data = await ifcManager.exportFragments(model.id);
+        downloadFile(data, `${model.name.replace(/\.(ifc|frag)$/i, '')}.frag`);
+      } catch (error) {
+        console.error(`Failed to save ${model.name} as Fragments:`, error);
+        setStatusMessage(`Failed to save ${model.name}`);
+        return;
+      }
+    }
+    setStatusMessage('Ready');
+  };
+
+  // Write every extrusion in the scene to an IFC4 file and download it
+  const handleExportIfc = async (mode: ExtrusionExportMode = 'auto') => {
+    if (!scene || !ifcManager) return;
+
+    setStatusMessage('Exporting IFC...');
+    try {
+      const data = await new IfcExporter(ifcManager).exportExtrusions(scene, mode);
+      downloadFile(data, 'model.ifc');
+      setStatusMessage('Ready');
+    } catch (error) {
+      console.error('Failed to export IFC:', error);
+      setStatusMessage('IFC export failed');
+    }
+  };
 
   // Handle command execution
   const handleCommand = (command: string, args: string[]) => {
@@ -29,12 +130,19 @@ export default function App() {
     switch (command) {
       case 'line':
       case 'rectangle':
+      case 'circle':
+      case 'arc':
+      case 'polygon':
       case 'extrude':
       case 'select':
       case 'move':
       case 'rotate':
       case 'scale':
-        setActiveTool(command);
+      case 'measure':
+      case 'dimension':
+      case 'label':
+        // Through the toolbar, which switches the tools themselves
+        toolbarRef.current?.selectTool(command);
         break;
         
       case 'hide':
@@ -50,18 +158,35 @@ export default function App() {
           setShowCommandLine(true);
         }
         break;
+
+      case 'export':
+        if (args[0] === 'ifc') {
+          const modes: Record<string, ExtrusionExportMode> = { wall: 'IfcWallStandardCase', slab: 'IfcSlab' };
+          handleExportIfc(modes[args[1]] ?? 'auto');
+        } else if (args[0] === 'frag') {
+          handleSaveFragments();
+        }
+        break;
         
       case 'help':
         console.log('Available commands:');
         console.log('- line: Activate line tool');
         console.log('- rectangle: Activate rectangle tool');
+        console.log('- circle: Activate circle tool');
+        console.log('- arc: Activate three-point arc tool');
+        console.log('- polygon: Activate regular polygon tool');
         console.log('- extrude: Activate extrude tool');
         console.log('- select: Activate selection tool');
         console.log('- move: Activate move tool');
         console.log('- rotate: Activate rotate tool');
         console.log('- scale: Activate scale tool');
+        console.log('- measure: Activate measure tool');
+        console.log('- dimension: Activate dimension tool');
+        console.log('- label: Activate label tool');
         console.log('- show command: Show command line');
         console.log('- hide command: Hide command line');
+        console.log('- export ifc [wall|slab]: Export extrusions as IFC walls and slabs');
+        console.log('- export frag: Save loaded IFC models as Fragments (.frag)');
         console.log('- help: Show this help message');
         break;
         
@@ -97,10 +222,15 @@ export default function App() {
   };
 
   useEffect(() => {
-    if (!canvasRef.current) return;
+    if (!viewerRef.current) return;
+
+    // === Components & world ===
+    const viewer = createComponents(viewerRef.current);
+    const components = viewer.components;
+    setComponents(components);
 
     // === Scene setup ===
-    const scene = new THREE.Scene();
+    const scene = viewer.scene.three;
     scene.background = new THREE.Color(0x202025);
     setScene(scene);
 
@@ -110,48 +240,11 @@ export default function App() {
     scene.fog = new THREE.Fog(0x0202025, near, far);
     scene.background = new THREE.Color(scene.fog.color);
 
-    const camera = new THREE.PerspectiveCamera(
-      60,
-      window.innerWidth / window.innerHeight,
-      0.1,
-      1000
-    );
-    camera.position.set(5, 5, 5);
+    const camera = viewer.camera.three;
     setCamera(camera);
 
-    const renderer = new THREE.WebGLRenderer({ 
-      canvas: canvasRef.current,
-      antialias: true,
-      alpha: true
-    });
+    const renderer = viewer.renderer.three;
     setRenderer(renderer);
-    
-    // Set initial size
-    const updateSize = () => {
-      if (!canvasRef.current) return;
-      
-      const width = canvasRef.current.clientWidth;
-      const height = canvasRef.current.clientHeight;
-      
-      // Update camera
-      camera.aspect = width / height;
-      camera.updateProjectionMatrix();
-      
-      // Update renderer
-      renderer.setSize(width, height, false);
-      renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2)); // Limit pixel ratio for performance
-    };
-    
-    // Initial render
-    updateSize();
-    
-    // Handle window resize
-    const handleResize = () => {
-      updateSize();
-      renderer.render(scene, camera);
-    };
-    
-    window.addEventListener('resize', handleResize);
 
     // === Lighting ===
     const light = new THREE.DirectionalLight(0xffffff, 1);
@@ -176,49 +269,37 @@ export default function App() {
     scene.add(gridHelper);
 
     // === Controls ===
-    controlsRef.current = new OrbitControls(camera, renderer.domElement);
+    controlsRef.current = viewer.camera.orbitControls;
     controlsRef.current.enableDamping = false; // Disable damping for less smooth movement
     controlsRef.current.rotateSpeed = 0.8; // Reduce rotation speed
     controlsRef.current.zoomSpeed = 0.8;   // Reduce zoom speed
     controlsRef.current.panSpeed = 0.8;    // Reduce pan speed
+    setOrbitControls(controlsRef.current);
 
     // Settings button is now used as a component in the JSX
 
-    // === Render loop ===
-    const animate = () => {
-      requestAnimationFrame(animate);
-      if (controlsRef.current) {
-        controlsRef.current.update();
-      }
-      renderer.render(scene, camera);
-    };
-    animate();
-
     // Initialize tools
-    const newRectangleTool = new RectangleTool(
+    const newRectangleTool = components.get(ToolManager).add(new RectangleTool(
       scene, 
       camera, 
       renderer, 
       () => setActiveTool('select'),
       controlsRef.current
-    );
+    ));
     setRectangleTool(newRectangleTool);
 
+    const newIfcManager = new IfcManager(components, scene, camera);
+    setIfcManager(newIfcManager);
+
+    // === Update loop ===
+    // Renders the world and updates the controls every frame; the returned
+    // function disposes the world, the tools and the IFC models together
+    const stopUpdateLoop = startUpdateLoop(components);
+
     // === Cleanup ===
     return () => {
-      if (newRectangleTool) {
-        newRectangleTool.disable();
-      }
-      window.removeEventListener('resize', handleResize);
-      renderer.dispose();
-      
-      // Clear the canvas
-      if (canvasRef.current) {
-        const context = canvasRef.current.getContext('webgl');
-        if (context) {
-          context.clear(context.COLOR_BUFFER_BIT | context.DEPTH_BUFFER_BIT);
-        }
-      }
+      controlsRef.current = null;
+      stopUpdateLoop();
     };
   }, []);
 
@@ -289,7 +370,6 @@ export default function App() {
         overflow: 'hidden'
       }}>
         <canvas 
-          ref={canvasRef} 
           style={{
             width: '100%',
             height: '100%',
@@ -396,21 +476,30 @@ export default function App() {
         backgroundColor: '#1e1e1e',
         overflow: 'hidden'
       }}>
-        <canvas 
-          ref={canvasRef} 
+        <div
+          ref={viewerRef}
           style={{
-            width: '100%',
-            height: '100%',
-            display: 'block'
+            position: 'absolute',
+            inset: 0
           }}
         />
         {scene && camera && renderer && controlsRef.current && (
           <Toolbar 
+            ref={toolbarRef}
+            components={components}
             scene={scene} 
             camera={camera} 
             renderer={renderer}
             controls={controlsRef.current}
+            activeLayerId={activeLayerId}
+            layers={layers}
             onToolChange={(tool) => setActiveTool(tool)}
+            onStatusMessage={setStatusMessage}
+            onOpenIfc={handleOpenIfc}
+            onExportIfc={() => handleExportIfc()}
+            onSaveFragments={handleSaveFragments}
+            onSelectionChange={setSelectedObjects}
+            onSelectionToolReady={setSelectionTool}
           />
         )}
       </div>
@@ -461,6 +550,8 @@ export default function App() {
             <div style={{ maxHeight: '200px', overflowY: 'auto' }}>
               <LayerManager 
                 scene={scene}
+                importedLayers={importedLayers}
+                onActiveLayerChange={setActiveLayerId}
                 onLayerChange={(updatedLayers) => {
                   setLayers(updatedLayers);
                   if (updatedLayers.length > 0 && !activeLayerId) {
@@ -471,7 +562,118 @@ export default function App() {
             </div>
           )}
         </div>
+
+        {/* Spatial Tree Section */}
+        {ifcManager && ifcModels.length > 0 && (
+          <div style={{
+            borderBottom: '1px solid #3c3c3c',
+            padding: '15px'
+          }}>
+            <h3 style={{ margin: '0 0 10px 0', color: '#9e9e9e', fontSize: '14px', fontWeight: 'normal' }}>SPATIAL TREE</h3>
+            <div style={{ maxHeight: '250px', overflowY: 'auto' }}>
+              <SpatialTree
+                ifcManager={ifcManager}
+                models={ifcModels}
+                onSelectElements={handleSelectIfcElements}
+              />
+            </div>
+          </div>
+        )}
         
+        {/* Model Comparison Section */}
+        {ifcManager && ifcModels.length > 1 && (
+          <div style={{
+            borderBottom: '1px solid #3c3c3c',
+            padding: '15px'
+          }}>
+            <h3 style={{ margin: '0 0 10px 0', color: '#9e9e9e', fontSize: '14px', fontWeight: 'normal' }}>COMPARE REVISIONS</h3>
+            <div style={{ maxHeight: '300px', overflowY: 'auto' }}>
+              <ModelComparisonPanel
+                ifcManager={ifcManager}
+                models={ifcModels}
+                onSelectElements={handleSelectIfcElements}
+                onStatusMessage={setStatusMessage}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* IDS Validation Section */}
+        {ifcManager && ifcModels.length > 0 && (
+          <div style={{
+            borderBottom: '1px solid #3c3c3c',
+            padding: '15px'
+          }}>
+            <h3 style={{ margin: '0 0 10px 0', color: '#9e9e9e', fontSize: '14px', fontWeight: 'normal' }}>IDS VALIDATION</h3>
+            <div style={{ maxHeight: '300px', overflowY: 'auto' }}>
+              <IdsPanel
+                ifcManager={ifcManager}
+                onSelectElements={handleSelectIfcElements}
+                onStatusMessage={setStatusMessage}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Quantity Takeoff Section */}
+        {scene && (
+          <div style={{
+            borderBottom: '1px solid #3c3c3c',
+            padding: '15px'
+          }}>
+            <h3 style={{ margin: '0 0 10px 0', color: '#9e9e9e', fontSize: '14px', fontWeight: 'normal' }}>QUANTITY TAKEOFF</h3>
+            <div style={{ maxHeight: '300px', overflowY: 'auto' }}>
+              <TakeoffPanel
+                scene={scene}
+                ifcManager={ifcManager}
+                layers={layers}
+                onSelectObjects={handleSelectIfcElements}
+                onStatusMessage={setStatusMessage}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Clash Detection Section */}
+        {scene && (
+          <div style={{
+            borderBottom: '1px solid #3c3c3c',
+            padding: '15px'
+          }}>
+            <h3 style={{ margin: '0 0 10px 0', color: '#9e9e9e', fontSize: '14px', fontWeight: 'normal' }}>CLASH DETECTION</h3>
+            <div style={{ maxHeight: '300px', overflowY: 'auto' }}>
+              <ClashPanel
+                scene={scene}
+                ifcManager={ifcManager}
+                layers={layers}
+                selectedObjects={selectedObjects}
+                onShowClash={handleShowClash}
+                onStatusMessage={setStatusMessage}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Issues Section */}
+        {ifcManager && camera && orbitControls && (
+          <div style={{
+            borderBottom: '1px solid #3c3c3c',
+            padding: '15px'
+          }}>
+            <h3 style={{ margin: '0 0 10px 0', color: '#9e9e9e', fontSize: '14px', fontWeight: 'normal' }}>ISSUES</h3>
+            <div style={{ maxHeight: '300px', overflowY: 'auto' }}>
+              <IssuesPanel
+                ifcManager={ifcManager}
+                camera={camera}
+                controls={orbitControls}
+                selectedObjects={selectedObjects}
+                onSelectObjects={(objects) => selectionTool?.setSelection(objects)}
+                onStatusMessage={setStatusMessage}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Properties Section */}
         <div style={{
           flex: 1,
@@ -504,9 +706,20 @@ export default function App() {
               alignItems: 'center'
             }}>
               <span>Selected Object</span>
-              <span style={{ color: '#9e9e9e' }}>None</span>
+              <span style={{ color: '#9e9e9e' }}>
+                {selectedObjects.length > 1
+                  ? `${selectedObjects.length} objects`
+                  : selectedObject?.name || (selectedObject ? selectedObject.type : 'None')}
+              </span>
             </div>
             
+            {ifcManager && selectedObject?.userData.expressID !== undefined ? (
+              <IfcPropertiesPanel
+                ifcManager={ifcManager}
+                modelId={selectedObject.userData.ifcModelId}
+                expressID={selectedObject.userData.expressID}
+              />
+            ) : (
             <div style={{ padding: '10px 15px' }}>
               <div style={propertyItemStyle}>
                 <span>Visible</span>
@@ -528,7 +741,12 @@ export default function App() {
                 <span>Opacity</span>
                 <span style={{ color: '#9e9e9e' }}>100%</span>
               </div>
+
+              {selectedObject && isClassifiable(selectedObject) && (
+                <IfcClassificationPanel object={selectedObject} />
+              )}
             </div>
+            )}
           </div>
           
           {/* Display Settings */}
@@ -619,7 +837,7 @@ export default function App() {
         alignItems: 'center',
         color: 'white'
       }}>
-        <div>Ready</div>
+        <div>{statusMessage}</div>
         <div>FPS: 60</div>
       </div>
       
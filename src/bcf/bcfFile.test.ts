@@ -0,0 +1,66 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { readBcfFile, writeBcfFile } from './bcfFile';
+import type { BcfTopic } from './types';
+
+function createTopic(): BcfTopic {
+  return {
+    guid: 'b2f6c1a4-3d5e-4f70-8a91-0c2d3e4f5a6b',
+    title: 'Beam <B1> clashes with "duct" & pipe',
+    status: 'Open',
+    type: 'Clash',
+    description: 'Found in the clash run',
+    creationDate: '2026-10-19T08:00:00Z',
+    creationAuthor: 'reviewer@example.com',
+    comments: [{
+      guid: '5e1c9a0b-7f2d-4c3e-9b8a-1d2e3f4a5b6c',
+      date: '2026-10-19T09:00:00Z',
+      author: 'designer@example.com',
+      comment: 'Lowered the duct by 200 mm'
+    }],
+    viewpoint: {
+      guid: '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d',
+      camera: {
+        position: { x: 10, y: -5, z: 3 },
+        direction: { x: -0.6, y: 0.8, z: 0 },
+        up: { x: 0, y: 0, z: 1 },
+        fieldOfView: 50,
+        aspectRatio: 1.5
+      },
+      selection: ['2O2Fr$t4X7Zf8NOew3FLOH'],
+      defaultVisibility: true,
+      exceptions: ['1hqIFTRjfV6AWq_bMtnZwI', '3cUkl32yn9qRSPvBJVyWYp']
+    }
+  };
+}
+
+async function roundTrip(topics: BcfTopic[], version: '2.1' | '3.0'): Promise<BcfTopic[]> {
+  const blob = await writeBcfFile(topics, version);
+  return readBcfFile(await blob.arrayBuffer());
+}
+
+describe('BCF files', () => {
+  it('reads back the topics, comments and viewpoints written as BCF 3.0', async () => {
+    const topic = createTopic();
+    expect(await roundTrip([topic], '3.0')).toEqual([topic]);
+  });
+
+  it('reads back BCF 2.1, which has no aspect ratio', async () => {
+    const topic = createTopic();
+    const [read] = await roundTrip([topic], '2.1');
+    expect(read).toEqual({
+      ...topic,
+      viewpoint: { ...topic.viewpoint!, camera: { ...topic.viewpoint!.camera, aspectRatio: 1 } }
+    });
+  });
+
+  it('keeps topics without comments or a viewpoint', async () => {
+    const topics = [
+      { ...createTopic(), comments: [], viewpoint: null, description: '' },
+      { ...createTopic(), guid: 'c3a7d2b5-4e6f-4081-9ba2-1d3e4f5a6b7c', title: 'Second' }
+    ];
+    const read = await roundTrip(topics, '2.1');
+    expect(read.map(topic => topic.guid)).toEqual(topics.map(topic => topic.guid));
+    expect(read[0]).toEqual(topics[0]);
+  });
+});
@@ -0,0 +1,224 @@
+import JSZip from 'jszip';
+import type { BcfComment, BcfTopic, BcfVector, BcfVersion, BcfViewpoint } from './types';
+
+const VIEWPOINT_FILE = 'viewpoint.bcfv';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>';
+
+/**
+ * Reads the topics of a .bcfzip. Both BCF 2.1 and 3.0 are accepted: 3.0
+ * moved comments and viewpoints inside <Topic>, so they are looked up anywhere
+ * in the markup instead of at a fixed path.
+ */
+export async function readBcfFile(data: ArrayBuffer | Uint8Array): Promise<BcfTopic[]> {
+  const zip = await JSZip.loadAsync(data);
+
+  const markups = zip.file(/(^|\/)markup\.bcf$/i);
+  const topics = await Promise.all(markups.map(async (markupFile) => {
+    const folder = markupFile.name.slice(0, markupFile.name.length - 'markup.bcf'.length);
+    const markup = parseXml(await markupFile.async('string'));
+    const topic = markup.getElementsByTagName('Topic')[0];
+    if (!topic) return null;
+
+    const comments: BcfComment[] = Array.from(markup.getElementsByTagName('Comment'))
+      .filter(element => element.hasAttribute('Guid'))
+      .map(element => ({
+        guid: element.getAttribute('Guid') ?? crypto.randomUUID(),
+        date: childText(element, 'Date'),
+        author: childText(element, 'Author'),
+        comment: childText(element, 'Comment')
+      }));
+
+    // BCF 2.1 uses <Viewpoints Guid>, 3.0 uses <Viewpoints><ViewPoint Guid>
+    const viewpointReference = [
+      ...Array.from(markup.getElementsByTagName('ViewPoint')),
+      ...Array.from(markup.getElementsByTagName('Viewpoints'))
+    ].find(element => element.hasAttribute('Guid'));
+    const viewpointName = viewpointReference ? childText(viewpointReference, 'Viewpoint') || VIEWPOINT_FILE : VIEWPOINT_FILE;
+    const viewpointFile = zip.file(`${folder}${viewpointName}`);
+
+    return {
+      guid: topic.getAttribute('Guid') ?? folder.replace(/\/$/, ''),
+      title: childText(topic, 'Title'),
+      status: topic.getAttribute('TopicStatus') ?? '',
+      type: topic.getAttribute('TopicType') ?? '',
+      description: childText(topic, 'Description'),
+      creationDate: childText(topic, 'CreationDate'),
+      creationAuthor: childText(topic, 'CreationAuthor'),
+      comments,
+      viewpoint: viewpointFile ? readViewpoint(await viewpointFile.async('string')) : null
+    };
+  }));
+
+  return topics.filter((topic): topic is BcfTopic => topic !== null);
+}
+
+/**
+ * Writes the topics to a .bcfzip of the given version, one folder per topic
+ * holding its markup.bcf and viewpoint.bcfv.
+ */
+export async function writeBcfFile(topics: BcfTopic[], version: BcfVersion = '2.1'): Promise<Blob> {
+  const zip = new JSZip();
+
+  zip.file('bcf.version', version === '3.0'
+    ? `${XML_HEADER}\n<Version VersionId="3.0" />`
+    : `${XML_HEADER}\n<Version VersionId="2.1">\n  <DetailedVersion>2.1</DetailedVersion>\n</Version>`);
+
+  if (version === '3.0') {
+    // 3.0 requires the project's allowed values to be declared
+    const types = [...new Set(topics.map(topic => topic.type).filter(Boolean))];
+    const statuses = [...new Set(topics.map(topic => topic.status).filter(Boolean))];
+    zip.file('extensions.xml', [
+      XML_HEADER,
+      '<Extensions>',
+      `  <TopicTypes>${types.map(type => `<TopicType>${escapeXml(type)}</TopicType>`).join('')}</TopicTypes>`,
+      `  <TopicStatuses>${statuses.map(status => `<TopicStatus>${escapeXml(status)}</TopicStatus>`).join('')}</TopicStatuses>`,
+      '</Extensions>'
+    ].join('\n'));
+  }
+
+  topics.forEach((topic) => {
+    zip.file(`${topic.guid}/markup.bcf`, writeMarkup(topic, version));
+    if (topic.viewpoint) {
+      zip.file(`${topic.guid}/${VIEWPOINT_FILE}`, writeViewpoint(topic.viewpoint, version));
+    }
+  });
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/octet-stream' });
+}
+
+function readViewpoint(xml: string): BcfViewpoint {
+  const document = parseXml(xml);
+  const root = document.documentElement;
+  const camera = document.getElementsByTagName('PerspectiveCamera')[0]
+    ?? document.getElementsByTagName('OrthogonalCamera')[0];
+
+  const componentGuids = (parent: Element | undefined) =>
+    parent
+      ? Array.from(parent.getElementsByTagName('Component'))
+        .map(component => component.getAttribute('IfcGuid'))
+        .filter((guid): guid is string => !!guid)
+      : [];
+
+  const visibility = document.getElementsByTagName('Visibility')[0];
+
+  return {
+    guid: root.getAttribute('Guid') ?? crypto.randomUUID(),
+    camera: {
+      position: readVector(camera, 'CameraViewPoint'),
+      direction: readVector(camera, 'CameraDirection'),
+      up: readVector(camera, 'CameraUpVector', { x: 0, y: 0, z: 1 }),
+      fieldOfView: Number(childText(camera, 'FieldOfView')) || 60,
+      aspectRatio: Number(childText(camera, 'AspectRatio')) || 1
+    },
+    selection: componentGuids(document.getElementsByTagName('Selection')[0]),
+    defaultVisibility: visibility?.getAttribute('DefaultVisibility') === 'true',
+    exceptions: componentGuids(visibility?.getElementsByTagName('Exceptions')[0])
+  };
+}
+
+function writeMarkup(topic: BcfTopic, version: BcfVersion): string {
+  const comments = topic.comments.map(comment => [
+    `<Comment Guid="${escapeXml(comment.guid)}">`,
+    `  <Date>${escapeXml(comment.date)}</Date>`,
+    `  <Author>${escapeXml(comment.author)}</Author>`,
+    `  <Comment>${escapeXml(comment.comment)}</Comment>`,
+    '</Comment>'
+  ].join('\n'));
+
+  const topicFields = [
+    `<Title>${escapeXml(topic.title)}</Title>`,
+    `<CreationDate>${escapeXml(topic.creationDate)}</CreationDate>`,
+    `<CreationAuthor>${escapeXml(topic.creationAuthor)}</CreationAuthor>`,
+    ...(topic.description ? [`<Description>${escapeXml(topic.description)}</Description>`] : [])
+  ];
+  const topicAttributes = `Guid="${escapeXml(topic.guid)}" TopicType="${escapeXml(topic.type)}" TopicStatus="${escapeXml(topic.status)}"`;
+
+  if (version === '3.0') {
+    return [
+      XML_HEADER,
+      '<Markup>',
+      `<Topic ${topicAttributes}>`,
+      ...topicFields,
+      ...(comments.length > 0 ? ['<Comments>', ...comments, '</Comments>'] : []),
+      ...(topic.viewpoint
+        ? ['<Viewpoints>', `<ViewPoint Guid="${escapeXml(topic.viewpoint.guid)}">`, `<Viewpoint>${VIEWPOINT_FILE}</Viewpoint>`, '</ViewPoint>', '</Viewpoints>']
+        : []),
+      '</Topic>',
+      '</Markup>'
+    ].join('\n');
+  }
+
+  return [
+    XML_HEADER,
+    '<Markup>',
+    `<Topic ${topicAttributes}>`,
+    ...topicFields,
+    '</Topic>',
+    ...comments,
+    ...(topic.viewpoint
+      ? [`<Viewpoints Guid="${escapeXml(topic.viewpoint.guid)}">`, `<Viewpoint>${VIEWPOINT_FILE}</Viewpoint>`, '</Viewpoints>']
+      : []),
+    '</Markup>'
+  ].join('\n');
+}
+
+function writeViewpoint(viewpoint: BcfViewpoint, version: BcfVersion): string {
+  const components = (guids: string[]) => guids.map(guid => `<Component IfcGuid="${escapeXml(guid)}" />`).join('\n');
+  const viewSetupHints = '<ViewSetupHints SpacesVisible="false" SpaceBoundariesVisible="false" OpeningsVisible="false" />';
+  const { camera } = viewpoint;
+
+  return [
+    XML_HEADER,
+    `<VisualizationInfo Guid="${escapeXml(viewpoint.guid)}">`,
+    '<Components>',
+    ...(version === '2.1' ? [viewSetupHints] : []),
+    ...(viewpoint.selection.length > 0 ? ['<Selection>', components(viewpoint.selection), '</Selection>'] : []),
+    `<Visibility DefaultVisibility="${viewpoint.defaultVisibility}">`,
+    ...(version === '3.0' ? [viewSetupHints] : []),
+    ...(viewpoint.exceptions.length > 0 ? ['<Exceptions>', components(viewpoint.exceptions), '</Exceptions>'] : []),
+    '</Visibility>',
+    '</Components>',
+    '<PerspectiveCamera>',
+    writeVector('CameraViewPoint', camera.position),
+    writeVector('CameraDirection', camera.direction),
+    writeVector('CameraUpVector', camera.up),
+    `<FieldOfView>${camera.fieldOfView}</FieldOfView>`,
+    ...(version === '3.0' ? [`<AspectRatio>${camera.aspectRatio}</AspectRatio>`] : []),
+    '</PerspectiveCamera>',
+    '</VisualizationInfo>'
+  ].join('\n');
+}
+
+function parseXml(xml: string): Document {
+  return new DOMParser().parseFromString(xml, 'application/xml');
+}
+
+/** Text of the first direct child with the given tag, so <Comment><Comment> is not confused with its parent. */
+function childText(parent: Element | undefined, tag: string): string {
+  if (!parent) return '';
+  const child = Array.from(parent.children).find(element => element.localName === tag);
+  return child?.textContent?.trim() ?? '';
+}
+
+function readVector(parent: Element | undefined, tag: string, fallback: BcfVector = { x: 0, y: 0, z: 0 }): BcfVector {
+  const element = parent && Array.from(parent.children).find(child => child.localName === tag);
+  if (!element) return fallback;
+  return {
+    x: Number(childText(element, 'X')) || 0,
+    y: Number(childText(element, 'Y')) || 0,
+    z: Number(childText(element, 'Z')) || 0
+  };
+}
+
+function writeVector(tag: string, vector: BcfVector): string {
+  return `<${tag}><X>${vector.x}</X><Y>${vector.y}</Y><Z>${vector.z}</Z></${tag}>`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
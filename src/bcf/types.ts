@@ -0,0 +1,46 @@
+/** A point or direction in IFC world coordinates (Z-up), as BCF stores them. */
+export interface BcfVector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type BcfVersion = '2.1' | '3.0';
+
+/** Camera and component state saved with a topic (a .bcfv file). */
+export interface BcfViewpoint {
+  guid: string;
+  camera: {
+    position: BcfVector;
+    direction: BcfVector;
+    up: BcfVector;
+    /** Vertical field of view in degrees. */
+    fieldOfView: number;
+    aspectRatio: number;
+  };
+  /** IfcGuids of the selected components. */
+  selection: string[];
+  /** When true every component is visible except the exceptions, and the opposite when false. */
+  defaultVisibility: boolean;
+  exceptions: string[];
+}
+
+export interface BcfComment {
+  guid: string;
+  date: string;
+  author: string;
+  comment: string;
+}
+
+/** One issue of a BCF file: its markup.bcf and the first of its viewpoints. */
+export interface BcfTopic {
+  guid: string;
+  title: string;
+  status: string;
+  type: string;
+  description: string;
+  creationDate: string;
+  creationAuthor: string;
+  comments: BcfComment[];
+  viewpoint: BcfViewpoint | null;
+}
@@ -0,0 +1,98 @@
+import * as THREE from 'three';
+import type { IfcManager } from '../ifc/IfcManager';
+import type { BcfVector, BcfViewpoint } from './types';
+
+/** The part of OrbitControls a viewpoint reads and moves. */
+export interface ViewpointControls {
+  target: THREE.Vector3;
+  update(): void;
+}
+
+/**
+ * Captures the current view as a BCF viewpoint: the camera looking at the
+ * orbit target, the selected IFC elements and the hidden ones. Positions are
+ * converted back to the IFC coordinates of the loaded model.
+ */
+export async function captureViewpoint(
+  ifcManager: IfcManager,
+  camera: THREE.PerspectiveCamera,
+  controls: ViewpointControls,
+  selection: THREE.Object3D[]
+): Promise<BcfViewpoint> {
+  const toIfc = ifcManager.getCoordinationMatrix().invert();
+
+  const position = camera.position.clone().applyMatrix4(toIfc);
+  const direction = controls.target.clone().sub(camera.position).transformDirection(toIfc);
+  const up = new THREE.Vector3(0, 1, 0).applyQuaternion(camera.quaternion).transformDirection(toIfc);
+
+  const elements = ifcManager.getAllElements();
+  const hidden = elements.filter(element => !element.visible);
+  // List whichever is shorter: the hidden elements, or the visible ones
+  const defaultVisibility = hidden.length <= elements.length / 2;
+  const exceptions = defaultVisibility ? hidden : elements.filter(element => element.visible);
+
+  const [selectionGuids, exceptionGuids] = await Promise.all([
+    ifcManager.getElementGuids(selection),
+    ifcManager.getElementGuids(exceptions)
+  ]);
+
+  return {
+    guid: crypto.randomUUID(),
+    camera: {
+      position: toBcfVector(position),
+      direction: toBcfVector(direction),
+      up: toBcfVector(up),
+      fieldOfView: camera.fov,
+      aspectRatio: camera.aspect
+    },
+    selection: selectionGuids.filter((guid): guid is string => guid !== null),
+    defaultVisibility,
+    exceptions: exceptionGuids.filter((guid): guid is string => guid !== null)
+  };
+}
+
+/**
+ * Moves the camera to a viewpoint and shows or hides elements as it says.
+ * BCF has no orbit target, so the target is put where the view direction
+ * passes the centre of the model. Returns the elements to select.
+ */
+export async function applyViewpoint(
+  ifcManager: IfcManager,
+  camera: THREE.PerspectiveCamera,
+  controls: ViewpointControls,
+  viewpoint: BcfViewpoint
+): Promise<THREE.Object3D[]> {
+  const toScene = ifcManager.getCoordinationMatrix();
+
+  const position = fromBcfVector(viewpoint.camera.position).applyMatrix4(toScene);
+  const direction = fromBcfVector(viewpoint.camera.direction).transformDirection(toScene);
+
+  const elements = ifcManager.getAllElements();
+  const exceptions = new Set(await ifcManager.findElementsByGuid(viewpoint.exceptions));
+  elements.forEach((element) => {
+    element.visible = exceptions.has(element) ? !viewpoint.defaultVisibility : viewpoint.defaultVisibility;
+  });
+
+  const bounds = new THREE.Box3();
+  elements.forEach(element => bounds.expandByObject(element));
+  const distance = bounds.isEmpty()
+    ? camera.position.distanceTo(controls.target)
+    : bounds.getCenter(new THREE.Vector3()).sub(position).dot(direction);
+
+  camera.position.copy(position);
+  camera.fov = viewpoint.camera.fieldOfView;
+  camera.updateProjectionMatrix();
+  controls.target.copy(position).addScaledVector(direction, Math.max(distance, 1));
+  camera.lookAt(controls.target);
+  controls.update();
+
+  return ifcManager.findElementsByGuid(viewpoint.selection);
+}
+
+function toBcfVector(vector: THREE.Vector3): BcfVector {
+  return { x: vector.x, y: vector.y, z: vector.z };
+}
+
+function fromBcfVector(vector: BcfVector): THREE.Vector3 {
+  return new THREE.Vector3(vector.x, vector.y, vector.z);
+}
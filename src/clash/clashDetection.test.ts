@@ -0,0 +1,58 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { detectClashes } from './clashDetection';
+
+/** A 1 m cube centred on the given point. */
+function createBox(x: number, y = 0, z = 0): THREE.Mesh {
+  const box = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), new THREE.MeshStandardMaterial());
+  box.position.set(x, y, z);
+  return box;
+}
+
+describe('detectClashes', () => {
+  it('reports overlapping objects as a hard clash inside the overlap', async () => {
+    const a = createBox(0);
+    const b = createBox(0.6, 0.2);
+
+    const [clash, ...rest] = await detectClashes([a], [b], 0);
+    expect(rest).toHaveLength(0);
+    expect(clash).toMatchObject({ type: 'hard', a, b, distance: 0 });
+    expect(clash.point.x).toBeGreaterThanOrEqual(0.1 - 1e-9);
+    expect(clash.point.x).toBeLessThanOrEqual(0.5 + 1e-9);
+  });
+
+  it('reports objects closer than the tolerance as a clearance clash', async () => {
+    const a = createBox(0);
+    const b = createBox(1.05);
+
+    const [clash] = await detectClashes([a], [b], 0.1);
+    expect(clash).toMatchObject({ type: 'clearance', a, b });
+    expect(clash.distance).toBeCloseTo(0.05);
+    expect(clash.point.x).toBeCloseTo(0.525);
+
+    expect(await detectClashes([a], [b], 0.04)).toEqual([]);
+    expect(await detectClashes([a], [b], 0)).toEqual([]);
+  });
+
+  it('reports each pair once and skips an object against itself or its parts', async () => {
+    const a = createBox(0);
+    const b = createBox(0.9);
+    // Inside its parent, and clear of b
+    const part = createBox(-0.2);
+    a.add(part);
+
+    const clashes = await detectClashes([a, b], [a, b, part], 0);
+    expect(clashes.map(clash => [clash.a, clash.b])).toEqual([[a, b]]);
+  });
+
+  it('lists hard clashes first, then clearances from the closest', async () => {
+    const a = createBox(0);
+    const far = createBox(0, 1.08);
+    const near = createBox(0, 0, 1.02);
+    const crossing = createBox(0.5, 0, 0);
+
+    const clashes = await detectClashes([a], [far, near, crossing], 0.1);
+    expect(clashes.map(clash => clash.b)).toEqual([crossing, near, far]);
+    expect(clashes.map(clash => clash.type)).toEqual(['hard', 'clearance', 'clearance']);
+  });
+});
@@ -0,0 +1,259 @@
+import * as THREE from 'three';
+import type { IfcManager } from '../ifc/IfcManager';
+import { getClassification, isClassifiable } from '../ifc/classification';
+import { DEFAULT_LAYER_ID, getObjectLayerId } from '../utils/layers';
+import { getWorldTriangles } from '../utils/geometry';
+import type { ClashResult, ClashSet } from './types';
+
+/** Distances below this are treated as touching rather than crossing. */
+const EPSILON = 1e-6;
+
+/** The triangles of one object with their bounds, computed once per run. */
+interface ClashBody {
+  object: THREE.Object3D;
+  bounds: THREE.Box3;
+  triangles: THREE.Triangle[];
+  triangleBounds: THREE.Box3[];
+}
+
+/**
+ * Objects that take part in clash runs: the drawn objects in the scene and
+ * the elements of the open IFC models.
+ */
+export function getClashCandidates(scene: THREE.Scene, ifcManager: IfcManager | null): THREE.Object3D[] {
+  return [
+    ...scene.children.filter(isClassifiable),
+    ...(ifcManager?.getAllElements() ?? [])
+  ];
+}
+
+/** The IFC class of an element, or of a classified drawn object, in upper case. */
+export function getObjectClass(object: THREE.Object3D): string | null {
+  const ifcClass: string | undefined = object.userData.ifcType ?? getClassification(object)?.ifcClass;
+  return ifcClass ? ifcClass.toUpperCase() : null;
+}
+
+/** The candidates that belong to a clash set. */
+export function resolveClashSet(set: ClashSet, candidates: THREE.Object3D[], selection: THREE.Object3D[]): THREE.Object3D[] {
+  switch (set.kind) {
+    case 'layer':
+      return candidates.filter(object => (getObjectLayerId(object) ?? DEFAULT_LAYER_ID) === set.value);
+    case 'class':
+      return candidates.filter(object => getObjectClass(object) === set.value);
+    case 'selection':
+      return selection;
+  }
+}
+
+/**
+ * Checks every object of set A against every object of set B. A pair clashes
+ * hard when any of their triangles cross, and as a clearance clash when they
+ * come closer than the tolerance; each pair is reported once. The run yields
+ * to the browser between objects so large sets do not freeze the page.
+ */
+export async function detectClashes(setA: THREE.Object3D[], setB: THREE.Object3D[], tolerance: number): Promise<ClashResult[]> {
+  const bodies = new Map<THREE.Object3D, ClashBody>();
+  const bodyOf = (object: THREE.Object3D) => {
+    let body = bodies.get(object);
+    if (!body) {
+      body = createBody(object);
+      bodies.set(object, body);
+    }
+    return body;
+  };
+
+  const results: ClashResult[] = [];
+  const checked = new Set<string>();
+
+  for (const objectA of setA) {
+    for (const objectB of setB) {
+      if (objectA === objectB || isAncestor(objectA, objectB) || isAncestor(objectB, objectA)) continue;
+
+      const key = [objectA.uuid, objectB.uuid].sort().join('|');
+      if (checked.has(key)) continue;
+      checked.add(key);
+
+      const result = checkPair(bodyOf(objectA), bodyOf(objectB), tolerance);
+      if (result) results.push(result);
+    }
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  return results.sort((a, b) => (a.type === b.type ? a.distance - b.distance : a.type === 'hard' ? -1 : 1));
+}
+
+function createBody(object: THREE.Object3D): ClashBody {
+  object.updateWorldMatrix(true, true);
+
+  const triangles: THREE.Triangle[] = [];
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh) triangles.push(...getWorldTriangles(child));
+  });
+  const triangleBounds = triangles.map(triangle => new THREE.Box3().setFromPoints([triangle.a, triangle.b, triangle.c]));
+  const bounds = triangleBounds.reduce((box, triangleBox) => box.union(triangleBox), new THREE.Box3());
+
+  return { object, bounds, triangles, triangleBounds };
+}
+
+function checkPair(a: ClashBody, b: ClashBody, tolerance: number): ClashResult | null {
+  if (a.triangles.length === 0 || b.triangles.length === 0) return null;
+  if (!a.bounds.clone().expandByScalar(tolerance).intersectsBox(b.bounds)) return null;
+
+  const hits: THREE.Vector3[] = [];
+  let closest = Infinity;
+  const closestA = new THREE.Vector3();
+  const closestB = new THREE.Vector3();
+  const pointA = new THREE.Vector3();
+  const pointB = new THREE.Vector3();
+
+  a.triangles.forEach((triangleA, i) => {
+    const boundsA = a.triangleBounds[i].clone().expandByScalar(tolerance);
+    b.triangles.forEach((triangleB, j) => {
+      if (!boundsA.intersectsBox(b.triangleBounds[j])) return;
+
+      const hit = intersectTriangles(triangleA, triangleB);
+      if (hit) {
+        hits.push(hit);
+        return;
+      }
+      if (hits.length > 0 || tolerance <= 0) return;
+
+      const distance = triangleDistance(triangleA, triangleB, pointA, pointB);
+      if (distance < closest) {
+        closest = distance;
+        closestA.copy(pointA);
+        closestB.copy(pointB);
+      }
+    });
+  });
+
+  if (hits.length > 0) {
+    const point = hits.reduce((sum, hit) => sum.add(hit), new THREE.Vector3()).divideScalar(hits.length);
+    return { id: crypto.randomUUID(), type: 'hard', a: a.object, b: b.object, point, distance: 0 };
+  }
+  if (closest < tolerance) {
+    const point = closestA.add(closestB).multiplyScalar(0.5);
+    return { id: crypto.randomUUID(), type: 'clearance', a: a.object, b: b.object, point, distance: closest };
+  }
+  return null;
+}
+
+function isAncestor(ancestor: THREE.Object3D, object: THREE.Object3D): boolean {
+  let current = object.parent;
+  while (current) {
+    if (current === ancestor) return true;
+    current = current.parent;
+  }
+  return false;
+}
+
+/**
+ * Where two triangles cross, or null when they do not. Crossing triangles
+ * always have an edge of one passing through the other; edges that only
+ * touch the other triangle do not count.
+ */
+function intersectTriangles(a: THREE.Triangle, b: THREE.Triangle): THREE.Vector3 | null {
+  const ray = new THREE.Ray();
+  const target = new THREE.Vector3();
+  const edgeHits = (edges: THREE.Triangle, face: THREE.Triangle) => {
+    const corners = [edges.a, edges.b, edges.c];
+    for (let i = 0; i < 3; i++) {
+      const start = corners[i];
+      const end = corners[(i + 1) % 3];
+      const length = start.distanceTo(end);
+      if (length < EPSILON) continue;
+
+      ray.set(start, end.clone().sub(start).divideScalar(length));
+      if (!ray.intersectTriangle(face.a, face.b, face.c, false, target)) continue;
+
+      const along = start.distanceTo(target);
+      if (along > EPSILON && along < length - EPSILON) return target.clone();
+    }
+    return null;
+  };
+  return edgeHits(a, b) ?? edgeHits(b, a);
+}
+
+/**
+ * Smallest distance between two triangles that do not cross: it is found
+ * between a corner and the other triangle, or between two edges.
+ */
+function triangleDistance(a: THREE.Triangle, b: THREE.Triangle, pointA: THREE.Vector3, pointB: THREE.Vector3): number {
+  let best = Infinity;
+  const candidateA = new THREE.Vector3();
+  const candidateB = new THREE.Vector3();
+  const consider = () => {
+    const distance = candidateA.distanceTo(candidateB);
+    if (distance < best) {
+      best = distance;
+      pointA.copy(candidateA);
+      pointB.copy(candidateB);
+    }
+  };
+
+  const cornersA = [a.a, a.b, a.c];
+  const cornersB = [b.a, b.b, b.c];
+  cornersA.forEach((corner) => {
+    candidateA.copy(corner);
+    b.closestPointToPoint(corner, candidateB);
+    consider();
+  });
+  cornersB.forEach((corner) => {
+    candidateB.copy(corner);
+    a.closestPointToPoint(corner, candidateA);
+    consider();
+  });
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      closestPointsOnSegments(
+        cornersA[i], cornersA[(i + 1) % 3],
+        cornersB[j], cornersB[(j + 1) % 3],
+        candidateA, candidateB
+      );
+      consider();
+    }
+  }
+  return best;
+}
+
+/** Closest points between segments p1–q1 and p2–q2 (Ericson, Real-Time Collision Detection 5.1.9). */
+function closestPointsOnSegments(
+  p1: THREE.Vector3, q1: THREE.Vector3,
+  p2: THREE.Vector3, q2: THREE.Vector3,
+  c1: THREE.Vector3, c2: THREE.Vector3
+) {
+  const d1 = new THREE.Vector3().subVectors(q1, p1);
+  const d2 = new THREE.Vector3().subVectors(q2, p2);
+  const r = new THREE.Vector3().subVectors(p1, p2);
+  const a = d1.lengthSq();
+  const e = d2.lengthSq();
+  const f = d2.dot(r);
+
+  let s = 0;
+  let t = 0;
+  if (a <= EPSILON && e <= EPSILON) {
+    // Both segments are points
+  } else if (a <= EPSILON) {
+    t = THREE.MathUtils.clamp(f / e, 0, 1);
+  } else {
+    const c = d1.dot(r);
+    if (e <= EPSILON) {
+      s = THREE.MathUtils.clamp(-c / a, 0, 1);
+    } else {
+      const b = d1.dot(d2);
+      const denominator = a * e - b * b;
+      s = denominator > EPSILON ? THREE.MathUtils.clamp((b * f - c * e) / denominator, 0, 1) : 0;
+      t = (b * s + f) / e;
+      if (t < 0) {
+        t = 0;
+        s = THREE.MathUtils.clamp(-c / a, 0, 1);
+      } else if (t > 1) {
+        t = 1;
+        s = THREE.MathUtils.clamp((b - c) / a, 0, 1);
+      }
+    }
+  }
+
+  c1.copy(p1).addScaledVector(d1, s);
+  c2.copy(p2).addScaledVector(d2, t);
+}
@@ -0,0 +1,24 @@
+import type * as THREE from 'three';
+
+/** Hard clashes intersect; clearance clashes come closer than the tolerance. */
+export type ClashType = 'hard' | 'clearance';
+
+/** What one side of a clash run is made of. */
+export type ClashSetKind = 'layer' | 'class' | 'selection';
+
+export interface ClashSet {
+  kind: ClashSetKind;
+  /** Layer id or IFC class name; unused for the selection. */
+  value: string;
+}
+
+export interface ClashResult {
+  id: string;
+  type: ClashType;
+  a: THREE.Object3D;
+  b: THREE.Object3D;
+  /** Where the objects meet, or the midpoint between their closest points. */
+  point: THREE.Vector3;
+  /** Smallest distance between the objects, 0 for hard clashes. */
+  distance: number;
+}
@@ -0,0 +1,116 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import type { IfcManager } from '../ifc/IfcManager';
+import type { IfcElementProperties } from '../ifc/types';
+import { compareModels } from './modelComparison';
+
+/** How far the new revision's origin is from the old one's, along scene X. */
+const NEW_ORIGIN_OFFSET = 100;
+
+interface ElementSpec {
+  guid: string;
+  x: number;
+  fireRating?: string;
+  acousticRating?: string;
+  geometry?: THREE.BufferGeometry;
+}
+
+function createElement(modelId: string, spec: ElementSpec, expressID: number, offset: number): THREE.Mesh {
+  const element = new THREE.Mesh(spec.geometry ?? new THREE.BoxGeometry(1, 3, 0.2), new THREE.MeshStandardMaterial());
+  element.name = spec.guid;
+  element.position.set(spec.x + offset, 1.5, 0);
+  element.userData = { expressID, ifcModelId: modelId, ifcType: 'IFCWALL', guid: spec.guid };
+  return element;
+}
+
+function createProperties(element: THREE.Object3D, spec: ElementSpec): IfcElementProperties {
+  return {
+    expressID: element.userData.expressID,
+    ifcType: 'IFCWALL',
+    attributes: [{ name: 'Name', value: spec.guid }],
+    propertySets: [{
+      expressID: 1,
+      name: 'Pset_WallCommon',
+      properties: [
+        { name: 'FireRating', value: spec.fireRating ?? 'REI60' },
+        ...(spec.acousticRating ? [{ name: 'AcousticRating', value: spec.acousticRating }] : [])
+      ]
+    }],
+    quantitySets: []
+  };
+}
+
+/**
+ * Two revisions of a model, loaded the way IfcManager lays them out: the new
+ * one's coordination matrix moves it NEW_ORIGIN_OFFSET along X, and its
+ * elements with it.
+ */
+function createIfcManager(oldSpecs: ElementSpec[], newSpecs: ElementSpec[]): IfcManager {
+  const models = new Map<string, Map<number, THREE.Object3D>>();
+  const properties = new Map<THREE.Object3D, IfcElementProperties>();
+  const load = (modelId: string, specs: ElementSpec[], offset: number) => {
+    const elements = new Map<number, THREE.Object3D>();
+    specs.forEach((spec, index) => {
+      const element = createElement(modelId, spec, index + 1, offset);
+      elements.set(index + 1, element);
+      properties.set(element, createProperties(element, spec));
+    });
+    models.set(modelId, elements);
+  };
+  load('old', oldSpecs, 0);
+  load('new', newSpecs, NEW_ORIGIN_OFFSET);
+
+  return {
+    getModel: (modelId: string) => ({ elements: models.get(modelId)! }),
+    getElementGuids: async (elements: THREE.Object3D[]) => elements.map(element => element.userData.guid),
+    getCoordinationMatrix: (modelId: string) => new THREE.Matrix4()
+      .makeTranslation(modelId === 'new' ? NEW_ORIGIN_OFFSET : 0, 0, 0)
+      .multiply(new THREE.Matrix4().makeRotationX(-Math.PI / 2)),
+    getElementProperties: async (modelId: string, expressID: number) =>
+      properties.get(models.get(modelId)!.get(expressID)!) ?? null
+  } as unknown as IfcManager;
+}
+
+async function getChanges(oldSpecs: ElementSpec[], newSpecs: ElementSpec[]) {
+  const comparison = await compareModels(createIfcManager(oldSpecs, newSpecs), 'old', 'new');
+  return Object.fromEntries(comparison.elements.map(element => [element.guid, element]));
+}
+
+describe('compareModels', () => {
+  it('matches elements by GlobalId into added, removed and unchanged', async () => {
+    const changes = await getChanges(
+      [{ guid: 'kept', x: 0 }, { guid: 'demolished', x: 2 }],
+      [{ guid: 'kept', x: 0 }, { guid: 'new', x: 4 }]
+    );
+    expect(Object.keys(changes).sort()).toEqual(['demolished', 'kept', 'new']);
+    expect(changes.kept.change).toBe('unchanged');
+    expect(changes.kept.previous).not.toBeNull();
+    expect(changes.new.change).toBe('added');
+    expect(changes.demolished.change).toBe('removed');
+    expect(changes.demolished.element.userData.ifcModelId).toBe('old');
+  });
+
+  it('compares geometry in IFC coordinates, within a millimetre', async () => {
+    const changes = await getChanges(
+      [{ guid: 'nudged', x: 0 }, { guid: 'moved', x: 2 }, { guid: 'remeshed', x: 4 }],
+      [
+        { guid: 'nudged', x: 0.0005 },
+        { guid: 'moved', x: 2.5 },
+        // The same box in more triangles
+        { guid: 'remeshed', x: 4, geometry: new THREE.BoxGeometry(1, 3, 0.2, 2) }
+      ]
+    );
+    expect(changes.nudged.change).toBe('unchanged');
+    expect(changes.moved.change).toBe('geometry');
+    expect(changes.remeshed.change).toBe('geometry');
+  });
+
+  it('lists the properties that were changed, added or removed', async () => {
+    const changes = await getChanges(
+      [{ guid: 'wall', x: 0, acousticRating: 'Rw 45' }],
+      [{ guid: 'wall', x: 0, fireRating: 'REI90' }]
+    );
+    expect(changes.wall.change).toBe('properties');
+    expect(changes.wall.changedProperties).toEqual(['Pset_WallCommon.AcousticRating', 'Pset_WallCommon.FireRating']);
+  });
+});
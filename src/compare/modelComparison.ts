@@ -0,0 +1,204 @@
+import * as THREE from 'three';
+import type { IfcManager } from '../ifc/IfcManager';
+import type { IfcElementProperties } from '../ifc/types';
+import type { ElementChange, ElementComparison, ModelComparison } from './types';
+
+/** Distance in model units below which geometry is considered unmoved. */
+const GEOMETRY_TOLERANCE = 1e-3;
+
+/** Viewport colour of each kind of change; unchanged elements are greyed out. */
+export const CHANGE_COLORS: Record<ElementChange, number> = {
+  added: 0x4caf50,
+  removed: 0xf44336,
+  geometry: 0xff9800,
+  properties: 0x2196f3,
+  unchanged: 0x9e9e9e
+};
+
+export const CHANGE_LABELS: Record<ElementChange, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  geometry: 'Geometry changed',
+  properties: 'Properties changed',
+  unchanged: 'Unchanged'
+};
+
+/** What is compared of an element's geometry, in IFC coordinates. */
+interface GeometryFingerprint {
+  triangles: number;
+  bounds: THREE.Box3;
+  centroid: THREE.Vector3;
+}
+
+/**
+ * Matches the elements of two open models by GlobalId. Elements found in only
+ * one of them were added or removed; the others are compared by geometry,
+ * in the IFC coordinates of their own model so a different origin does not
+ * count as a change, and then by attributes, property sets and quantities.
+ */
+export async function compareModels(ifcManager: IfcManager, oldModelId: string, newModelId: string): Promise<ModelComparison> {
+  const [oldElements, newElements] = await Promise.all([
+    mapByGuid(ifcManager, oldModelId),
+    mapByGuid(ifcManager, newModelId)
+  ]);
+  const toOldIfc = ifcManager.getCoordinationMatrix(oldModelId).invert();
+  const toNewIfc = ifcManager.getCoordinationMatrix(newModelId).invert();
+
+  const elements: ElementComparison[] = [];
+  const entry = (
+    guid: string,
+    element: THREE.Object3D,
+    change: ElementChange,
+    previous: THREE.Object3D | null = null,
+    changedProperties: string[] = []
+  ) => ({
+    guid,
+    change,
+    name: element.name,
+    ifcType: String(element.userData.ifcType ?? ''),
+    element,
+    previous,
+    changedProperties
+  });
+
+  for (const [guid, newElement] of newElements) {
+    const oldElement = oldElements.get(guid);
+    if (!oldElement) {
+      elements.push(entry(guid, newElement, 'added'));
+      continue;
+    }
+
+    const [oldProperties, newProperties] = await Promise.all([
+      ifcManager.getElementProperties(oldModelId, oldElement.userData.expressID),
+      ifcManager.getElementProperties(newModelId, newElement.userData.expressID)
+    ]);
+    const changedProperties = diffProperties(oldProperties, newProperties);
+    const geometryChanged = !sameGeometry(fingerprint(oldElement, toOldIfc), fingerprint(newElement, toNewIfc));
+
+    const change = geometryChanged ? 'geometry' : changedProperties.length > 0 ? 'properties' : 'unchanged';
+    elements.push(entry(guid, newElement, change, oldElement, changedProperties));
+  }
+
+  oldElements.forEach((oldElement, guid) => {
+    if (!newElements.has(guid)) elements.push(entry(guid, oldElement, 'removed'));
+  });
+
+  return { oldModelId, newModelId, elements };
+}
+
+/**
+ * Paints every compared element in the colour of its change, and greys out
+ * the old copies of the elements kept in the new revision. The original
+ * materials are kept on the meshes so `clearComparisonColors` can put them back.
+ */
+export function applyComparisonColors(comparison: ModelComparison) {
+  const materials = new Map<ElementChange, THREE.MeshStandardMaterial>();
+  const paint = (element: THREE.Object3D, change: ElementChange) => {
+    let material = materials.get(change);
+    if (!material) {
+      material = new THREE.MeshStandardMaterial({
+        color: CHANGE_COLORS[change],
+        transparent: change === 'unchanged',
+        opacity: change === 'unchanged' ? 0.15 : 1,
+        depthWrite: change !== 'unchanged',
+        side: THREE.DoubleSide
+      });
+      materials.set(change, material);
+    }
+
+    const override = material;
+    element.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) return;
+      child.userData.comparisonOriginalMaterial ??= child.material;
+      child.material = override;
+    });
+  };
+
+  comparison.elements.forEach(({ element, previous, change }) => {
+    paint(element, change);
+    if (previous) paint(previous, 'unchanged');
+  });
+}
+
+export function clearComparisonColors(comparison: ModelComparison) {
+  const overrides = new Set<THREE.Material>();
+  const restore = (element: THREE.Object3D) => element.traverse((child) => {
+    if (!(child instanceof THREE.Mesh) || !child.userData.comparisonOriginalMaterial) return;
+    overrides.add(child.material as THREE.Material);
+    child.material = child.userData.comparisonOriginalMaterial;
+    delete child.userData.comparisonOriginalMaterial;
+  });
+
+  comparison.elements.forEach(({ element, previous }) => {
+    restore(element);
+    if (previous) restore(previous);
+  });
+  overrides.forEach(material => material.dispose());
+}
+
+async function mapByGuid(ifcManager: IfcManager, modelId: string): Promise<Map<string, THREE.Object3D>> {
+  const elements = [...(ifcManager.getModel(modelId)?.elements.values() ?? [])];
+  const guids = await ifcManager.getElementGuids(elements);
+
+  const byGuid = new Map<string, THREE.Object3D>();
+  guids.forEach((guid, index) => {
+    if (guid) byGuid.set(guid, elements[index]);
+  });
+  return byGuid;
+}
+
+function fingerprint(element: THREE.Object3D, toIfc: THREE.Matrix4): GeometryFingerprint {
+  element.updateWorldMatrix(true, true);
+
+  let triangles = 0;
+  let vertices = 0;
+  const bounds = new THREE.Box3();
+  const centroid = new THREE.Vector3();
+  const vertex = new THREE.Vector3();
+  const matrix = new THREE.Matrix4();
+
+  element.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return;
+    const position = child.geometry.getAttribute('position');
+    if (!position) return;
+
+    matrix.multiplyMatrices(toIfc, child.matrixWorld);
+    for (let i = 0; i < position.count; i++) {
+      vertex.fromBufferAttribute(position, i).applyMatrix4(matrix);
+      bounds.expandByPoint(vertex);
+      centroid.add(vertex);
+    }
+    vertices += position.count;
+    triangles += (child.geometry.getIndex()?.count ?? position.count) / 3;
+  });
+
+  return { triangles, bounds, centroid: vertices > 0 ? centroid.divideScalar(vertices) : centroid };
+}
+
+function sameGeometry(a: GeometryFingerprint, b: GeometryFingerprint): boolean {
+  if (a.triangles !== b.triangles) return false;
+  if (a.bounds.isEmpty() || b.bounds.isEmpty()) return a.bounds.isEmpty() === b.bounds.isEmpty();
+
+  return a.bounds.min.distanceTo(b.bounds.min) <= GEOMETRY_TOLERANCE &&
+    a.bounds.max.distanceTo(b.bounds.max) <= GEOMETRY_TOLERANCE &&
+    a.centroid.distanceTo(b.centroid) <= GEOMETRY_TOLERANCE;
+}
+
+/** Names of the attributes, properties and quantities that were added, removed or changed. */
+function diffProperties(oldProperties: IfcElementProperties | null, newProperties: IfcElementProperties | null): string[] {
+  const oldValues = flattenProperties(oldProperties);
+  const newValues = flattenProperties(newProperties);
+  const names = new Set([...oldValues.keys(), ...newValues.keys()]);
+  return [...names].filter(name => oldValues.get(name) !== newValues.get(name)).sort();
+}
+
+function flattenProperties(properties: IfcElementProperties | null): Map<string, string> {
+  const values = new Map<string, string>();
+  if (!properties) return values;
+
+  properties.attributes.forEach(({ name, value }) => values.set(`Attributes.${name}`, String(value)));
+  [...properties.propertySets, ...properties.quantitySets].forEach(group =>
+    group.properties.forEach(({ name, value }) => values.set(`${group.name}.${name}`, String(value)))
+  );
+  return values;
+}
@@ -0,0 +1,23 @@
+import type * as THREE from 'three';
+
+export type ElementChange = 'added' | 'removed' | 'geometry' | 'properties' | 'unchanged';
+
+/** One GlobalId and what happened to it between the two revisions. */
+export interface ElementComparison {
+  guid: string;
+  change: ElementChange;
+  name: string;
+  ifcType: string;
+  /** The element in the new revision, or in the old one when it was removed. */
+  element: THREE.Object3D;
+  /** The same element in the old revision, when it is in both. */
+  previous: THREE.Object3D | null;
+  /** Properties whose value differs, as `Set.Property`. */
+  changedProperties: string[];
+}
+
+export interface ModelComparison {
+  oldModelId: string;
+  newModelId: string;
+  elements: ElementComparison[];
+}
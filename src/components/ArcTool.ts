@@ -0,0 +1,181 @@
+import * as THREE from 'three';
+import { SnapMarker, clearSnapInference, getSnapTargets, snapPoint } from '../utils/snapping';
+import { arcFromThreePoints, tessellateArc } from '../utils/arcs';
+import type { Arc } from '../utils/arcs';
+
+type DrawableObject = THREE.Line;
+
+/**
+ * Draws three-point arcs: the first click places the start, the second the end,
+ * and the third a point the arc bulges through. Points snap to the scene, and
+ * off the meshes the end and bulge points fall on the level plane through the
+ * start, so the arc lies in the plane of its three points. The arc is kept
+ * analytically in `userData.arc`, in the line's own space; the line only shows
+ * it, and IfcExporter writes it as a trimmed circle.
+ */
+export class ArcTool {
+  private start: THREE.Vector3 | null = null;
+  private end: THREE.Vector3 | null = null;
+  private previewLine: THREE.Line | null = null;
+  private scene: THREE.Scene;
+  private camera: THREE.Camera;
+  private renderer: THREE.WebGLRenderer;
+  private controls?: {
+    enabled: boolean;
+  };
+  private onCancel: (() => void) | null = null;
+  private marker: SnapMarker;
+  private history: DrawableObject[] = [];
+  private historyIndex: number = -1;
+  private originalControlsEnabled: boolean = true;
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    renderer: THREE.WebGLRenderer,
+    onCancel: () => void,
+    controls?: { enabled: boolean }
+  ) {
+    this.scene = scene;
+    this.camera = camera;
+    this.renderer = renderer;
+    this.controls = controls;
+    this.onCancel = onCancel;
+    this.marker = new SnapMarker(scene);
+  }
+
+  private getIntersectionPoint(event: MouseEvent): THREE.Vector3 | null {
+    const snap = snapPoint(event, this.camera, this.renderer.domElement, getSnapTargets(this.scene, [this.previewLine]), {
+      from: this.end ? null : this.start,
+      plane: this.start ? new THREE.Plane(new THREE.Vector3(0, 1, 0), -this.start.y) : undefined
+    });
+    if (!snap) {
+      this.marker.hide();
+      return null;
+    }
+    this.marker.show(snap);
+    return snap.point.clone();
+  }
+
+  private createLine(points: THREE.Vector3[], color: number): THREE.Line {
+    const material = new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.9 });
+    const line = new THREE.Line(new THREE.BufferGeometry().setFromPoints(points), material);
+    line.renderOrder = 1;
+    return line;
+  }
+
+  private createArcLine(arc: Arc): THREE.Line {
+    const line = this.createLine(tessellateArc(arc), 0x00ff00);
+    line.name = 'Arc';
+    line.userData = { isArc: true, arc };
+    return line;
+  }
+
+  private showPreview(line: THREE.Line) {
+    this.removePreview();
+    this.previewLine = line;
+    this.scene.add(line);
+  }
+
+  private removePreview() {
+    if (!this.previewLine) return;
+
+    this.scene.remove(this.previewLine);
+    this.previewLine.geometry.dispose();
+    (this.previewLine.material as THREE.Material).dispose();
+    this.previewLine = null;
+  }
+
+  private onMouseDown = (event: MouseEvent) => {
+    if (event.button !== 0) return; // Only left click
+
+    const point = this.getIntersectionPoint(event);
+    if (!point) return;
+
+    if (!this.start) {
+      // Keep the camera still while the arc is being drawn
+      if (this.controls) {
+        this.originalControlsEnabled = this.controls.enabled;
+        this.controls.enabled = false;
+      }
+      this.start = point.clone();
+    } else if (!this.end) {
+      if (point.distanceTo(this.start) > 1e-6) this.end = point.clone();
+    } else {
+      const arc = arcFromThreePoints(this.start, point, this.end);
+      if (!arc) return;
+
+      const line = this.createArcLine(arc);
+      this.scene.add(line);
+
+      this.history = this.history.slice(0, this.historyIndex + 1);
+      this.history.push(line);
+      this.historyIndex++;
+
+      this.resetDrawing();
+    }
+  };
+
+  private onMouseMove = (event: MouseEvent) => {
+    const point = this.getIntersectionPoint(event);
+    if (!point || !this.start) return;
+
+    if (!this.end) {
+      this.showPreview(this.createLine([this.start, point], 0xffa500));
+      return;
+    }
+
+    // Until the bulge point is off the chord, show the chord itself
+    const arc = arcFromThreePoints(this.start, point, this.end);
+    this.showPreview(arc ? this.createLine(tessellateArc(arc), 0xffa500) : this.createLine([this.start, this.end], 0xffa500));
+  };
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      this.resetDrawing();
+      this.onCancel?.();
+    }
+  };
+
+  private resetDrawing() {
+    if (this.start && this.controls) {
+      this.controls.enabled = this.originalControlsEnabled;
+    }
+    this.removePreview();
+    this.start = null;
+    this.end = null;
+  }
+
+  public enable() {
+    this.renderer.domElement.addEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.addEventListener('mousemove', this.onMouseMove);
+    window.addEventListener('keydown', this.onKeyDown);
+  }
+
+  public disable() {
+    this.renderer.domElement.removeEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.removeEventListener('mousemove', this.onMouseMove);
+    window.removeEventListener('keydown', this.onKeyDown);
+    this.resetDrawing();
+    this.marker.dispose();
+    clearSnapInference();
+  }
+
+  public undo() {
+    if (this.historyIndex >= 0) {
+      const lastObject = this.history[this.historyIndex];
+      this.scene.remove(lastObject);
+      this.historyIndex--;
+    }
+  }
+
+  public redo() {
+    if (this.historyIndex < this.history.length - 1) {
+      this.historyIndex++;
+      const nextObject = this.history[this.historyIndex];
+      this.scene.add(nextObject);
+    }
+  }
+}
+
+export default ArcTool;
@@ -0,0 +1,54 @@
+interface CircleControlsProps {
+  radius: number;
+  typedRadius: string;
+  segments: number;
+  onSegmentsChange: (segments: number) => void;
+  visible: boolean;
+}
+
+export default function CircleControls({ radius, typedRadius, segments, onSegmentsChange, visible }: CircleControlsProps) {
+  if (!visible) return null;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      bottom: '80px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      padding: '10px 20px',
+      borderRadius: '4px',
+      color: 'white',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '15px',
+      zIndex: 1000,
+      boxShadow: '0 2px 10px rgba(0,0,0,0.2)'
+    }}>
+      <div style={{ fontSize: '0.9em', minWidth: '110px' }}>
+        Radius: {typedRadius ? `${typedRadius}_` : `${radius.toFixed(2)}m`}
+      </div>
+      <label style={{ fontSize: '0.9em', display: 'flex', alignItems: 'center', gap: '6px' }}>
+        Segments
+        <input
+          type="number"
+          min="3"
+          max="128"
+          step="1"
+          value={segments}
+          onChange={(e) => onSegmentsChange(parseInt(e.target.value, 10) || 3)}
+          style={inputStyle}
+        />
+      </label>
+    </div>
+  );
+}
+
+const inputStyle = {
+  width: '60px',
+  padding: '4px',
+  backgroundColor: '#1e1e1e',
+  color: 'white',
+  border: '1px solid #3c3c3c',
+  borderRadius: '3px'
+} as React.CSSProperties;
@@ -0,0 +1,264 @@
+import * as THREE from 'three';
+import { SnapMarker, clearSnapInference, getSnapTargets, snapPoint } from '../utils/snapping';
+
+type DrawableObject = THREE.Mesh;
+
+const MIN_SEGMENTS = 3;
+const MAX_SEGMENTS = 128;
+const MIN_RADIUS = 0.01;
+
+/**
+ * Draws center-radius circles on the ground plane. The first click places the
+ * center and the second one sets the radius; in between, a radius can be typed
+ * and confirmed with Enter. The circle is left as a flat face that ExtrudeTool
+ * can pull up into a cylinder.
+ */
+export class CircleTool {
+  private center: THREE.Vector3 | null = null;
+  private previewMesh: THREE.Mesh | null = null;
+  private radius = 0;
+  private typedRadius = '';
+  private segments = 24;
+  private scene: THREE.Scene;
+  private camera: THREE.Camera;
+  private renderer: THREE.WebGLRenderer;
+  private controls?: {
+    enabled: boolean;
+  };
+  private onCancel: (() => void) | null = null;
+  private onRadiusChange?: (radius: number, typedRadius: string) => void;
+  private marker: SnapMarker;
+  private history: DrawableObject[] = [];
+  private historyIndex: number = -1;
+  private originalControlsEnabled: boolean = true;
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    renderer: THREE.WebGLRenderer,
+    onCancel: () => void,
+    controls?: { enabled: boolean }
+  ) {
+    this.scene = scene;
+    this.camera = camera;
+    this.renderer = renderer;
+    this.controls = controls;
+    this.onCancel = onCancel;
+    this.marker = new SnapMarker(scene);
+  }
+
+  public setOnRadiusChange(callback: (radius: number, typedRadius: string) => void) {
+    this.onRadiusChange = callback;
+  }
+
+  public getSegments(): number {
+    return this.segments;
+  }
+
+  public setSegments(segments: number) {
+    this.segments = THREE.MathUtils.clamp(Math.round(segments), MIN_SEGMENTS, MAX_SEGMENTS);
+    if (this.center) this.updatePreview();
+  }
+
+  private getIntersectionPoint(event: MouseEvent): THREE.Vector3 | null {
+    const snap = snapPoint(event, this.camera, this.renderer.domElement, getSnapTargets(this.scene, [this.previewMesh]), { from: this.center });
+    if (!snap) {
+      this.marker.hide();
+      return null;
+    }
+    this.marker.show(snap);
+
+    // Circles are drawn on the ground plane at y=0, below the point snapped to
+    return snap.point.clone().setY(0);
+  }
+
+  private createCircleShape(radius: number): THREE.Shape {
+    const shape = new THREE.Shape();
+    for (let i = 0; i < this.segments; i++) {
+      const angle = (i / this.segments) * Math.PI * 2;
+      const x = Math.cos(angle) * radius;
+      const y = Math.sin(angle) * radius;
+      if (i === 0) {
+        shape.moveTo(x, y);
+      } else {
+        shape.lineTo(x, y);
+      }
+    }
+    shape.closePath();
+    return shape;
+  }
+
+  /**
+   * Builds the circle as a face lying on the ground: the shape is drawn in the
+   * mesh's local XY plane and the mesh is turned so its local Z points up.
+   */
+  private createCircleFace(center: THREE.Vector3, radius: number): THREE.Mesh {
+    const shape = this.createCircleShape(Math.max(radius, MIN_RADIUS));
+
+    const fillMaterial = new THREE.MeshBasicMaterial({
+      color: 0xffffff,
+      transparent: true,
+      opacity: 0.9,
+      side: THREE.DoubleSide,
+      depthWrite: false
+    });
+    const face = new THREE.Mesh(new THREE.ShapeGeometry(shape), fillMaterial);
+    face.rotation.x = -Math.PI / 2;
+    face.position.set(center.x, 0.001, center.z);
+
+    const borderPoints = shape.getPoints().map(point => new THREE.Vector3(point.x, point.y, 0.001));
+    const borderMaterial = new THREE.LineBasicMaterial({
+      color: 0x888888,
+      transparent: true,
+      opacity: 0.8
+    });
+    face.add(new THREE.LineLoop(new THREE.BufferGeometry().setFromPoints(borderPoints), borderMaterial));
+
+    face.name = 'Circle';
+    face.userData = {
+      isFace: true,
+      baseShape: shape
+    };
+    return face;
+  }
+
+  private updatePreview() {
+    if (!this.center) return;
+
+    this.removePreview();
+    this.previewMesh = this.createCircleFace(this.center, this.radius);
+    this.scene.add(this.previewMesh);
+  }
+
+  private removePreview() {
+    if (!this.previewMesh) return;
+
+    this.scene.remove(this.previewMesh);
+    this.previewMesh.traverse((child) => {
+      if (child instanceof THREE.Mesh || child instanceof THREE.Line) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+    this.previewMesh = null;
+  }
+
+  private setRadius(radius: number) {
+    this.radius = radius;
+    this.onRadiusChange?.(this.radius, this.typedRadius);
+    this.updatePreview();
+  }
+
+  private finishCircle(radius: number) {
+    if (!this.center || radius < MIN_RADIUS) return;
+
+    const circle = this.createCircleFace(this.center, radius);
+    this.scene.add(circle);
+
+    this.history = this.history.slice(0, this.historyIndex + 1);
+    this.history.push(circle);
+    this.historyIndex++;
+
+    this.resetDrawing();
+  }
+
+  private onMouseDown = (event: MouseEvent) => {
+    if (event.button !== 0) return; // Only left click
+
+    const point = this.getIntersectionPoint(event);
+    if (!point) return;
+
+    if (!this.center) {
+      // Keep the camera still while the circle is being drawn
+      if (this.controls) {
+        this.originalControlsEnabled = this.controls.enabled;
+        this.controls.enabled = false;
+      }
+      this.center = point.clone();
+      this.typedRadius = '';
+      this.setRadius(0);
+    } else {
+      const typedRadius = parseFloat(this.typedRadius);
+      this.finishCircle(Number.isNaN(typedRadius) ? this.center.distanceTo(point) : typedRadius);
+    }
+  };
+
+  private onMouseMove = (event: MouseEvent) => {
+    const point = this.getIntersectionPoint(event);
+    if (!point || !this.center || this.typedRadius) return;
+
+    this.setRadius(this.center.distanceTo(point));
+  };
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    // Leave typing in form fields alone
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+    if (event.key === 'Escape') {
+      this.resetDrawing();
+      this.onCancel?.();
+      return;
+    }
+    if (!this.center) return;
+
+    if (/^[0-9.]$/.test(event.key)) {
+      this.typedRadius += event.key;
+    } else if (event.key === 'Backspace') {
+      this.typedRadius = this.typedRadius.slice(0, -1);
+    } else if (event.key === 'Enter') {
+      const radius = parseFloat(this.typedRadius);
+      if (!Number.isNaN(radius)) this.finishCircle(radius);
+      return;
+    } else {
+      return;
+    }
+
+    event.preventDefault();
+    const radius = parseFloat(this.typedRadius);
+    this.setRadius(Number.isNaN(radius) ? 0 : radius);
+  };
+
+  private resetDrawing() {
+    if (this.center && this.controls) {
+      this.controls.enabled = this.originalControlsEnabled;
+    }
+    this.removePreview();
+    this.center = null;
+    this.radius = 0;
+    this.typedRadius = '';
+    this.onRadiusChange?.(0, '');
+  }
+
+  public enable() {
+    this.renderer.domElement.addEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.addEventListener('mousemove', this.onMouseMove);
+    window.addEventListener('keydown', this.onKeyDown);
+  }
+
+  public disable() {
+    this.renderer.domElement.removeEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.removeEventListener('mousemove', this.onMouseMove);
+    window.removeEventListener('keydown', this.onKeyDown);
+    this.resetDrawing();
+    this.marker.dispose();
+    clearSnapInference();
+  }
+
+  public undo() {
+    if (this.historyIndex >= 0) {
+      const lastObject = this.history[this.historyIndex];
+      this.scene.remove(lastObject);
+      this.historyIndex--;
+    }
+  }
+
+  public redo() {
+    if (this.historyIndex < this.history.length - 1) {
+      this.historyIndex++;
+      const nextObject = this.history[this.historyIndex];
+      this.scene.add(nextObject);
+    }
+  }
+}
+
+export default CircleTool;
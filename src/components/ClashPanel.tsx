@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import type * as THREE from 'three';
+import type { IfcManager } from '../ifc/IfcManager';
+import { detectClashes, getClashCandidates, getObjectClass, resolveClashSet } from '../clash/clashDetection';
+import type { ClashResult, ClashSet, ClashSetKind } from '../clash/types';
+
+interface ClashPanelProps {
+  scene: THREE.Scene;
+  ifcManager: IfcManager | null;
+  layers: Array<{ id: string; name: string }>;
+  selectedObjects: THREE.Object3D[];
+  onShowClash: (clash: ClashResult) => void;
+  onStatusMessage: (message: string) => void;
+}
+
+interface ClashSetPickerProps {
+  label: string;
+  set: ClashSet;
+  options: Record<ClashSetKind, Array<{ value: string; label: string }>>;
+  selectionCount: number;
+  onChange: (set: ClashSet) => void;
+}
+
+function ClashSetPicker({ label, set, options, selectionCount, onChange }: ClashSetPickerProps) {
+  return (
+    <div style={styles.toolbar}>
+      <span style={styles.label}>{label}</span>
+      <select
+        style={styles.select}
+        value={set.kind}
+        onChange={(e) => {
+          const kind = e.target.value as ClashSetKind;
+          onChange({ kind, value: options[kind][0]?.value ?? '' });
+        }}
+      >
+        <option value="layer">Layer</option>
+        <option value="class">IFC class</option>
+        <option value="selection">Selection</option>
+      </select>
+      {set.kind === 'selection' ? (
+        <span style={styles.hint}>{selectionCount} selected</span>
+      ) : (
+        <select style={{ ...styles.select, flex: 1, minWidth: 0 }} value={set.value} onChange={(e) => onChange({ ...set, value: e.target.value })}>
+          {options[set.kind].map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Runs clash detection between two sets of objects picked by layer, IFC class
+ * or the current selection, and lists the clashes found. Clicking a clash
+ * shows where it is and highlights both objects.
+ */
+export function ClashPanel({ scene, ifcManager, layers, selectedObjects, onShowClash, onStatusMessage }: ClashPanelProps) {
+  const [setA, setSetA] = useState<ClashSet>({ kind: 'selection', value: '' });
+  const [setB, setSetB] = useState<ClashSet>({ kind: 'selection', value: '' });
+  const [tolerance, setTolerance] = useState(0.05);
+  const [results, setResults] = useState<ClashResult[] | null>(null);
+  const [activeClashId, setActiveClashId] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const candidates = getClashCandidates(scene, ifcManager);
+  const classes = [...new Set(candidates.map(getObjectClass).filter((name): name is string => name !== null))].sort();
+  const options: ClashSetPickerProps['options'] = {
+    layer: layers.map(layer => ({ value: layer.id, label: layer.name })),
+    class: classes.map(name => ({ value: name, label: name })),
+    selection: []
+  };
+
+  const handleRun = async () => {
+    const objectsA = resolveClashSet(setA, candidates, selectedObjects);
+    const objectsB = resolveClashSet(setB, candidates, selectedObjects);
+    if (objectsA.length === 0 || objectsB.length === 0) {
+      onStatusMessage('Both clash sets need at least one object');
+      return;
+    }
+
+    setIsRunning(true);
+    onStatusMessage(`Checking ${objectsA.length} against ${objectsB.length} objects...`);
+    try {
+      const clashes = await detectClashes(objectsA, objectsB, tolerance);
+      setResults(clashes);
+      setActiveClashId(null);
+      onStatusMessage(clashes.length === 0 ? 'No clashes found' : `Found ${clashes.length} clash${clashes.length === 1 ? '' : 'es'}`);
+    } catch (error) {
+      console.error('Clash detection failed:', error);
+      onStatusMessage('Clash detection failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleShowClash = (clash: ClashResult) => {
+    setActiveClashId(clash.id);
+    onShowClash(clash);
+  };
+
+  return (
+    <div>
+      <ClashSetPicker label="A" set={setA} options={options} selectionCount={selectedObjects.length} onChange={setSetA} />
+      <ClashSetPicker label="B" set={setB} options={options} selectionCount={selectedObjects.length} onChange={setSetB} />
+
+      <div style={styles.toolbar}>
+        <span style={styles.label}>Clearance</span>
+        <input
+          type="number"
+          min={0}
+          step={0.01}
+          style={styles.input}
+          value={tolerance}
+          onChange={(e) => setTolerance(Math.max(0, Number(e.target.value) || 0))}
+          title="Objects closer than this distance (m) are reported as clearance clashes"
+        />
+        <button style={styles.button} onClick={handleRun} disabled={isRunning}>
+          {isRunning ? 'Checking...' : 'Run'}
+        </button>
+      </div>
+
+      {results && results.length === 0 && <div style={styles.message}>No clashes</div>}
+
+      {results?.map(clash => (
+        <div
+          key={clash.id}
+          style={{ ...styles.clash, backgroundColor: clash.id === activeClashId ? '#3c3c3c' : 'transparent' }}
+          onClick={() => handleShowClash(clash)}
+          title={`at ${clash.point.x.toFixed(2)}, ${clash.point.y.toFixed(2)}, ${clash.point.z.toFixed(2)}`}
+        >
+          <span style={{ ...styles.type, color: clash.type === 'hard' ? '#f44336' : '#ffb74d' }}>
+            {clash.type === 'hard' ? 'Hard' : `${clash.distance.toFixed(3)} m`}
+          </span>
+          <span style={styles.names}>
+            {clash.a.name || clash.a.type} ↔ {clash.b.name || clash.b.type}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const styles = {
+  toolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    marginBottom: '8px',
+  },
+  label: {
+    color: '#9e9e9e',
+    fontSize: '12px',
+    minWidth: '14px',
+  },
+  hint: {
+    color: '#9e9e9e',
+    fontSize: '11px',
+  },
+  button: {
+    padding: '4px 8px',
+    backgroundColor: '#3c3c3c',
+    color: '#e0e0e0',
+    border: '1px solid #4a4a4a',
+    borderRadius: '3px',
+    fontSize: '12px',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+  select: {
+    padding: '4px',
+    backgroundColor: '#1e1e1e',
+    color: '#e0e0e0',
+    border: '1px solid #3c3c3c',
+    borderRadius: '3px',
+    fontSize: '12px',
+  },
+  input: {
+    flex: 1,
+    minWidth: 0,
+    padding: '4px 6px',
+    backgroundColor: '#1e1e1e',
+    color: '#e0e0e0',
+    border: '1px solid #3c3c3c',
+    borderRadius: '3px',
+    fontSize: '12px',
+  },
+  message: {
+    padding: '6px 4px',
+    fontSize: '13px',
+    color: '#9e9e9e',
+  },
+  clash: {
+    display: 'flex',
+    gap: '8px',
+    padding: '5px 4px',
+    fontSize: '11px',
+    color: '#e0e0e0',
+    cursor: 'pointer',
+    borderRadius: '3px',
+  },
+  type: {
+    minWidth: '52px',
+    whiteSpace: 'nowrap',
+  },
+  names: {
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+} as const;
+
+export default ClashPanel;
@@ -1,3 +1,30 @@
 import * as OBC from "@thatopen/components";
+import { OrbitCamera } from "../three/OrbitCamera";
 
-export const components = new OBC.Components();
\ No newline at end of file
+export type AppWorld = OBC.SimpleWorld<OBC.SimpleScene, OrbitCamera, OBC.SimpleRenderer>;
+
+/**
+ * Creates the OBC.Components instance that owns the viewer: one world made of
+ * the scene, the orbit camera and a renderer whose canvas is appended to
+ * `container`. Everything else (tools, IFC loading, OBC features such as the
+ * clipper or highlighter) registers on the same instance, so `components.dispose()`
+ * is the single disposal path for the app.
+ */
+export function createComponents(container: HTMLElement) {
+  const components = new OBC.Components();
+
+  const worlds = components.get(OBC.Worlds);
+  const world: AppWorld = worlds.create<OBC.SimpleScene, OrbitCamera, OBC.SimpleRenderer>();
+
+  const scene = new OBC.SimpleScene(components);
+  const renderer = new OBC.SimpleRenderer(components, container);
+  const camera = new OrbitCamera(components, renderer.three.domElement);
+  world.scene = scene;
+  world.renderer = renderer;
+  world.camera = camera;
+
+  renderer.onResize.add((size) => camera.updateAspect(size));
+  camera.updateAspect(renderer.getSize());
+
+  return { components, world, scene, camera, renderer };
+}
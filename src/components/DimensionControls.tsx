@@ -0,0 +1,69 @@
+import type { ArrowStyle, DimensionKind, DimensionStyle } from '../utils/dimensions';
+
+interface DimensionControlsProps {
+  kind: DimensionKind;
+  status: string;
+  style: DimensionStyle;
+  onKindChange: (kind: DimensionKind) => void;
+  onTextSizeChange: (textSize: number) => void;
+  onArrowStyleChange: (arrowStyle: ArrowStyle) => void;
+  visible: boolean;
+}
+
+export default function DimensionControls({ kind, status, style, onKindChange, onTextSizeChange, onArrowStyleChange, visible }: DimensionControlsProps) {
+  if (!visible) return null;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      bottom: '80px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      padding: '10px 20px',
+      borderRadius: '4px',
+      color: 'white',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '15px',
+      zIndex: 1000,
+      boxShadow: '0 2px 10px rgba(0,0,0,0.2)'
+    }}>
+      <select value={kind} onChange={(e) => onKindChange(e.target.value as DimensionKind)} style={inputStyle}>
+        <option value="linear">Linear</option>
+        <option value="aligned">Aligned</option>
+        <option value="angular">Angular</option>
+        <option value="radial">Radial</option>
+      </select>
+      <label style={{ fontSize: '0.9em', display: 'flex', alignItems: 'center', gap: '6px' }}>
+        Text
+        <input
+          type="number"
+          min="0.01"
+          max="0.1"
+          step="0.005"
+          value={style.textSize}
+          onChange={(e) => onTextSizeChange(parseFloat(e.target.value) || 0.03)}
+          style={inputStyle}
+        />
+      </label>
+      <select value={style.arrowStyle} onChange={(e) => onArrowStyleChange(e.target.value as ArrowStyle)} style={inputStyle}>
+        <option value="arrow">Arrows</option>
+        <option value="tick">Ticks</option>
+        <option value="dot">Dots</option>
+      </select>
+      <div style={{ fontSize: '0.8em', color: '#aaa', minWidth: '180px' }}>
+        {status}
+      </div>
+    </div>
+  );
+}
+
+const inputStyle = {
+  minWidth: '60px',
+  padding: '4px',
+  backgroundColor: '#1e1e1e',
+  color: 'white',
+  border: '1px solid #3c3c3c',
+  borderRadius: '3px'
+} as React.CSSProperties;
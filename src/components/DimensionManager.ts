@@ -0,0 +1,52 @@
+import * as OBC from "@thatopen/components";
+import type * as THREE from "three";
+import { updateDimension } from "../utils/dimensions";
+
+/**
+ * Keeps dimension objects attached to what they measure. Every frame it
+ * redraws the dimensions whose anchors have moved, e.g. after ExtendTool or
+ * ExtrudeTool has resized the object they were picked on.
+ */
+export class DimensionManager extends OBC.Component implements OBC.Updateable, OBC.Disposable {
+  static readonly uuid = "b3e1f6a2-4c7d-4e59-8a1b-7d2c9f0e6a13";
+
+  readonly onBeforeUpdate: OBC.Event<DimensionManager> = new OBC.Event();
+  readonly onAfterUpdate: OBC.Event<DimensionManager> = new OBC.Event();
+  readonly onDisposed: OBC.Event<undefined> = new OBC.Event();
+
+  enabled = true;
+
+  private dimensions = new Set<THREE.Group>();
+
+  constructor(components: OBC.Components) {
+    super(components);
+    components.add(DimensionManager.uuid, this);
+  }
+
+  track(dimension: THREE.Group) {
+    this.dimensions.add(dimension);
+  }
+
+  untrack(dimension: THREE.Group) {
+    this.dimensions.delete(dimension);
+  }
+
+  update() {
+    if (!this.enabled) return;
+    this.onBeforeUpdate.trigger(this);
+    // Dimensions taken out of the scene, e.g. by undo, wait until they are back
+    this.dimensions.forEach((dimension) => {
+      if (dimension.parent) updateDimension(dimension);
+    });
+    this.onAfterUpdate.trigger(this);
+  }
+
+  dispose() {
+    this.enabled = false;
+    this.dimensions.clear();
+    this.onBeforeUpdate.reset();
+    this.onAfterUpdate.reset();
+    this.onDisposed.trigger();
+    this.onDisposed.reset();
+  }
+}
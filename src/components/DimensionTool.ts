@@ -0,0 +1,420 @@
+import * as THREE from 'three';
+import { AXIS_VECTORS, axisFromArrowKey } from '../utils/axes';
+import type { Axis } from '../utils/axes';
+import {
+  DEFAULT_DIMENSION_STYLE,
+  anchorAt,
+  createDimension,
+  disposeDimension,
+  getDimensionModel,
+  perpendicularTo,
+  resolveAnchor,
+  updateDimension
+} from '../utils/dimensions';
+import type { ArrowStyle, DimensionKind, DimensionModel, DimensionStyle } from '../utils/dimensions';
+import { DEFAULT_LAYER_ID } from '../utils/layers';
+import { getPointerRay } from '../utils/picking';
+import { SnapMarker, clearSnapInference, getSnapTargets, snapPoint } from '../utils/snapping';
+import type { SnapResult } from '../utils/snapping';
+
+type DrawableObject = THREE.Group;
+
+/** Points to pick before the offset is set, per kind of dimension. */
+const POINT_COUNTS: Record<DimensionKind, number> = {
+  linear: 2,
+  aligned: 2,
+  angular: 3,
+  radial: 2
+};
+
+const POINT_PROMPTS: Record<DimensionKind, string[]> = {
+  linear: ['Pick the start', 'Pick the end'],
+  aligned: ['Pick the start', 'Pick the end'],
+  angular: ['Pick the vertex', 'Pick a point on the first side', 'Pick a point on the second side'],
+  radial: ['Pick the center', 'Pick a point on the rim']
+};
+
+/**
+ * Places dimension objects. Points snap to the vertices and edges of meshes,
+ * and the dimension is attached to the meshes they were picked on, so it
+ * follows them when they move or are resized. After the points, moving the
+ * mouse sets the offset and a click places the dimension. Linear dimensions
+ * measure along the axis the points are furthest apart on unless an arrow key
+ * locks it to X (right), Y (up) or Z (left). Clicking a placed dimension picks
+ * it up to change its offset, and style changes then apply to it as well.
+ */
+export class DimensionTool {
+  private scene: THREE.Scene;
+  private camera: THREE.Camera;
+  private renderer: THREE.WebGLRenderer;
+  private controls?: {
+    enabled: boolean;
+  };
+  private onCancel: (() => void) | null = null;
+  private onCreate?: (dimension: THREE.Group) => void;
+  private onStatus?: (message: string, style: DimensionStyle) => void;
+  private kind: DimensionKind = 'aligned';
+  private style: DimensionStyle = { ...DEFAULT_DIMENSION_STYLE };
+  private axisLock: Axis | null = null;
+  private layerId: string = DEFAULT_LAYER_ID;
+  private picks: SnapResult[] = [];
+  private preview: THREE.Group | null = null;
+  private editing: { dimension: THREE.Group; offset: number; offsetDirection: THREE.Vector3 } | null = null;
+  private marker: SnapMarker;
+  private history: DrawableObject[] = [];
+  private historyIndex: number = -1;
+  private originalControlsEnabled: boolean = true;
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    renderer: THREE.WebGLRenderer,
+    onCancel: () => void,
+    controls?: { enabled: boolean }
+  ) {
+    this.scene = scene;
+    this.camera = camera;
+    this.renderer = renderer;
+    this.controls = controls;
+    this.onCancel = onCancel;
+    this.marker = new SnapMarker(scene);
+  }
+
+  /** Called with each dimension placed, so it can be kept attached to its geometry. */
+  public setOnCreate(callback: (dimension: THREE.Group) => void) {
+    this.onCreate = callback;
+  }
+
+  /** Called with what to do next and the style in use whenever either changes. */
+  public setOnStatus(callback: (message: string, style: DimensionStyle) => void) {
+    this.onStatus = callback;
+  }
+
+  public setKind(kind: DimensionKind) {
+    this.cancelDimension();
+    this.kind = kind;
+    this.notifyStatus();
+  }
+
+  public getKind(): DimensionKind {
+    return this.kind;
+  }
+
+  public setTextSize(textSize: number) {
+    this.setStyle({ ...this.style, textSize });
+  }
+
+  public setArrowStyle(arrowStyle: ArrowStyle) {
+    this.setStyle({ ...this.style, arrowStyle });
+  }
+
+  /** The layer dimensions are put on. */
+  public setLayerId(layerId: string | null) {
+    this.layerId = layerId ?? DEFAULT_LAYER_ID;
+  }
+
+  /** Uses the style for new dimensions, and for the one being edited. */
+  private setStyle(style: DimensionStyle) {
+    this.style = style;
+    const model = this.getActiveModel();
+    if (model) {
+      model.style = { ...style };
+      updateDimension((this.editing?.dimension ?? this.preview)!, true);
+    }
+    this.notifyStatus();
+  }
+
+  private getActiveModel(): DimensionModel | null {
+    const dimension = this.editing?.dimension ?? this.preview;
+    return dimension ? getDimensionModel(dimension) : null;
+  }
+
+  private notifyStatus() {
+    let message: string;
+    if (this.editing) {
+      message = 'Move to set the offset, then click';
+    } else if (this.picks.length < POINT_COUNTS[this.kind]) {
+      message = POINT_PROMPTS[this.kind][this.picks.length];
+    } else {
+      message = 'Move to set the offset, then click to place';
+    }
+    if (this.kind === 'linear' && !this.editing) {
+      message += ` · ${this.axisLock ? `${this.axisLock.toUpperCase()} axis` : 'Auto axis'}`;
+    }
+    this.onStatus?.(message, { ...this.style });
+  }
+
+  /** The snapped point under the mouse; directions are inferred from the last point picked. */
+  private getSnap(event: MouseEvent): SnapResult | null {
+    const from = this.picks.length > 0 ? this.picks[this.picks.length - 1].point : null;
+    return snapPoint(event, this.camera, this.renderer.domElement, getSnapTargets(this.scene, [this.preview]), { from });
+  }
+
+  /** The placed dimension under the mouse, if any. */
+  private pickDimension(event: MouseEvent): THREE.Group | null {
+    const ray = getPointerRay(event, this.camera, this.renderer.domElement);
+    const raycaster = new THREE.Raycaster(ray.origin, ray.direction);
+    raycaster.camera = this.camera;
+    raycaster.params.Line.threshold = 0.05;
+    raycaster.params.Points.threshold = 0.05;
+
+    const dimensions = this.scene.children.filter(child => child.userData.isDimension && getDimensionModel(child));
+    const hit = raycaster.intersectObjects(dimensions, true)[0];
+    return hit?.object.parent instanceof THREE.Group ? hit.object.parent : null;
+  }
+
+  /** The axis a linear dimension between the two points measures along. */
+  private getLinearAxis(start: THREE.Vector3, end: THREE.Vector3): Axis {
+    if (this.axisLock) return this.axisLock;
+
+    const delta = end.clone().sub(start);
+    const sizes: [Axis, number][] = [['x', Math.abs(delta.x)], ['y', Math.abs(delta.y)], ['z', Math.abs(delta.z)]];
+    return sizes.reduce((best, current) => current[1] > best[1] ? current : best)[0];
+  }
+
+  /** The model for the picked points, with the offset still to be set. */
+  private createModel(): DimensionModel {
+    const anchors = this.picks.map(pick => anchorAt(pick.point, pick.object));
+    const [first, second] = this.picks.map(pick => pick.point);
+    const axis = this.getLinearAxis(first, second);
+    const measured = this.kind === 'linear' ? AXIS_VECTORS[axis].clone() : second.clone().sub(first);
+    return {
+      kind: this.kind,
+      anchors,
+      axis,
+      offset: 0,
+      offsetDirection: perpendicularTo(measured.lengthSq() > 0 ? measured.normalize() : new THREE.Vector3(1, 0, 0)),
+      style: { ...this.style }
+    };
+  }
+
+  /**
+   * Sets the model's offset from the mouse. The mouse is read on the plane of
+   * an angle, and otherwise on the plane through the measured line that faces
+   * the camera most.
+   */
+  private setOffsetFromPointer(model: DimensionModel, event: MouseEvent) {
+    const points = model.anchors.map(resolveAnchor);
+    const ray = getPointerRay(event, this.camera, this.renderer.domElement);
+
+    if (model.kind === 'angular') {
+      const [vertex, first, second] = points;
+      const normal = new THREE.Vector3().crossVectors(first.clone().sub(vertex), second.clone().sub(vertex));
+      if (normal.lengthSq() < 1e-12) return;
+      const point = ray.intersectPlane(new THREE.Plane().setFromNormalAndCoplanarPoint(normal.normalize(), vertex), new THREE.Vector3());
+      if (point) model.offset = point.distanceTo(vertex);
+      return;
+    }
+
+    const [start, end] = points;
+    const measured = model.kind === 'linear'
+      ? AXIS_VECTORS[model.axis].clone()
+      : end.clone().sub(start).normalize();
+    const view = this.camera.getWorldDirection(new THREE.Vector3());
+    const normal = view.clone().addScaledVector(measured, -view.dot(measured));
+    if (normal.lengthSq() < 1e-9) normal.copy(perpendicularTo(measured));
+    const point = ray.intersectPlane(new THREE.Plane().setFromNormalAndCoplanarPoint(normal.normalize(), start), new THREE.Vector3());
+    if (!point) return;
+
+    if (model.kind === 'radial') {
+      model.offset = Math.max(point.clone().sub(end).dot(measured), 0);
+      return;
+    }
+    const across = point.clone().sub(start);
+    across.addScaledVector(measured, -across.dot(measured));
+    if (across.lengthSq() < 1e-12) return;
+    model.offset = across.length();
+    model.offsetDirection = across.normalize();
+  }
+
+  private showPreview() {
+    this.removePreview();
+    this.preview = createDimension(this.createModel());
+    this.scene.add(this.preview);
+  }
+
+  private removePreview() {
+    if (!this.preview) return;
+
+    this.scene.remove(this.preview);
+    disposeDimension(this.preview);
+    this.preview = null;
+  }
+
+  private placeDimension() {
+    if (!this.preview) return;
+
+    const dimension = this.preview;
+    dimension.userData.layerId = this.layerId;
+    this.preview = null;
+    this.onCreate?.(dimension);
+
+    this.history = this.history.slice(0, this.historyIndex + 1);
+    this.history.push(dimension);
+    this.historyIndex++;
+
+    this.resetDimension();
+  }
+
+  private startPicking() {
+    // Keep the camera still while placing the dimension
+    if (this.controls) {
+      this.originalControlsEnabled = this.controls.enabled;
+      this.controls.enabled = false;
+    }
+  }
+
+  private onMouseDown = (event: MouseEvent) => {
+    if (event.button !== 0) return; // Only left click
+
+    if (this.editing) {
+      this.finishEditing();
+      return;
+    }
+    if (this.preview) {
+      this.placeDimension();
+      return;
+    }
+
+    if (this.picks.length === 0) {
+      const dimension = this.pickDimension(event);
+      if (dimension) {
+        this.startEditing(dimension);
+        return;
+      }
+    }
+
+    const snap = this.getSnap(event);
+    if (!snap) return;
+
+    if (this.picks.length === 0) this.startPicking();
+    this.picks.push(snap);
+    if (this.picks.length === POINT_COUNTS[this.kind]) {
+      this.showPreview();
+      const model = getDimensionModel(this.preview!);
+      if (model) {
+        this.setOffsetFromPointer(model, event);
+        updateDimension(this.preview!, true);
+      }
+    }
+    this.notifyStatus();
+  };
+
+  private onMouseMove = (event: MouseEvent) => {
+    const model = this.getActiveModel();
+    if (model) {
+      this.setOffsetFromPointer(model, event);
+      updateDimension((this.editing?.dimension ?? this.preview)!, true);
+      return;
+    }
+
+    const snap = this.getSnap(event);
+    if (snap) this.marker.show(snap);
+  };
+
+  private startEditing(dimension: THREE.Group) {
+    const model = getDimensionModel(dimension);
+    if (!model) return;
+
+    this.startPicking();
+    this.marker.hide();
+    this.editing = { dimension, offset: model.offset, offsetDirection: model.offsetDirection.clone() };
+    this.style = { ...model.style };
+    this.notifyStatus();
+  }
+
+  private finishEditing() {
+    if (this.editing && this.controls) {
+      this.controls.enabled = this.originalControlsEnabled;
+    }
+    this.editing = null;
+    this.notifyStatus();
+  }
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    // Leave typing in form fields alone
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+    if (event.key === 'Escape') {
+      if (this.editing || this.picks.length > 0) {
+        this.cancelDimension();
+      } else {
+        this.onCancel?.();
+      }
+      return;
+    }
+
+    const axis = axisFromArrowKey(event.key);
+    if (this.kind === 'linear' && (axis || event.key === 'ArrowDown')) {
+      event.preventDefault();
+      this.axisLock = axis === this.axisLock ? null : axis;
+      if (this.preview) {
+        const model = getDimensionModel(this.preview);
+        const [start, end] = this.picks.map(pick => pick.point);
+        if (model) {
+          model.axis = this.getLinearAxis(start, end);
+          updateDimension(this.preview, true);
+        }
+      }
+      this.notifyStatus();
+    }
+  };
+
+  /** Drops the dimension being placed, or puts the one being edited back as it was. */
+  private cancelDimension() {
+    if (this.editing) {
+      const model = getDimensionModel(this.editing.dimension);
+      if (model) {
+        model.offset = this.editing.offset;
+        model.offsetDirection = this.editing.offsetDirection;
+        updateDimension(this.editing.dimension, true);
+      }
+      this.finishEditing();
+      return;
+    }
+    this.resetDimension();
+  }
+
+  private resetDimension() {
+    if (this.picks.length > 0 && this.controls) {
+      this.controls.enabled = this.originalControlsEnabled;
+    }
+    this.removePreview();
+    this.picks = [];
+    this.notifyStatus();
+  }
+
+  public enable() {
+    this.renderer.domElement.addEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.addEventListener('mousemove', this.onMouseMove);
+    window.addEventListener('keydown', this.onKeyDown);
+    this.notifyStatus();
+  }
+
+  public disable() {
+    this.renderer.domElement.removeEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.removeEventListener('mousemove', this.onMouseMove);
+    window.removeEventListener('keydown', this.onKeyDown);
+    this.cancelDimension();
+    this.marker.dispose();
+    clearSnapInference();
+  }
+
+  public undo() {
+    if (this.historyIndex >= 0) {
+      const lastObject = this.history[this.historyIndex];
+      this.scene.remove(lastObject);
+      this.historyIndex--;
+    }
+  }
+
+  public redo() {
+    if (this.historyIndex < this.history.length - 1) {
+      this.historyIndex++;
+      const nextObject = this.history[this.historyIndex];
+      this.scene.add(nextObject);
+    }
+  }
+}
+
+export default DimensionTool;
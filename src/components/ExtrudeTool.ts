@@ -6,6 +6,21 @@ interface ExtrusionData {
   height: number;
 }
 
+/** What a mesh is drawn with, before or after a face is turned into an extrusion. */
+interface MeshState {
+  geometry: THREE.BufferGeometry;
+  material: THREE.Material | THREE.Material[];
+  userData: Record<string, unknown>;
+  scale: THREE.Vector3;
+}
+
+/** A face turned into an extrusion, which undo turns back. */
+interface FaceExtrusion {
+  mesh: THREE.Mesh;
+  face: MeshState;
+  extrusion: MeshState;
+}
+
 export class ExtrudeTool {
   private scene: THREE.Scene;
   private camera: THREE.Camera;
@@ -21,6 +36,8 @@ export class ExtrudeTool {
   private extrudeGroup: THREE.Group = new THREE.Group();
   private activeExtrusion: ExtrusionData | null = null;
   private onExtrudeUpdate?: (height: number) => void;
+  private history: FaceExtrusion[] = [];
+  private historyIndex: number = -1;
   
   constructor(
     scene: THREE.Scene,
@@ -118,13 +135,19 @@ export class ExtrudeTool {
     if (intersects.length > 0) {
       const clickedObject = intersects[0].object;
       // Check if we're clicking on an existing extrusion
-      const mesh = this.findParentMesh(clickedObject);
+      let mesh = this.findParentMesh(clickedObject);
+
+      // A flat face is turned into an extrusion as soon as it is picked
+      const face = mesh ? null : this.findParentMesh(clickedObject, 'isFace');
+      if (face) {
+        mesh = this.extrudeFace(face);
+      }
 
       if (mesh && mesh.userData.isExtrusion) {
         this.selectedObject = mesh;
         this.isDragging = true;
         this.startY = event.clientY;
-        this.currentHeight = mesh.scale.y;
+        this.currentHeight = mesh.userData.extrudesUp ? mesh.scale.z : mesh.scale.y;
         this.activeExtrusion = {
           baseShape: mesh.userData.baseShape,
           mesh: mesh,
@@ -160,15 +183,20 @@ export class ExtrudeTool {
   private updateExtrusion(height: number) {
     if (!this.selectedObject || !this.activeExtrusion) return;
 
-    this.selectedObject.scale.set(1, height, 1);
-    this.selectedObject.position.y = height / 2;
+    if (this.selectedObject.userData.extrudesUp) {
+      // Extruded faces stand on the ground and grow along their local Z axis
+      this.selectedObject.scale.z = height;
+    } else {
+      this.selectedObject.scale.set(1, height, 1);
+      this.selectedObject.position.y = height / 2;
+    }
     this.activeExtrusion.height = height;
   }
 
-  private findParentMesh(object: THREE.Object3D): THREE.Mesh | null {
+  private findParentMesh(object: THREE.Object3D, flag: string = 'isExtrusion'): THREE.Mesh | null {
     let current = object;
     while (current.parent) {
-      if (current.userData.isExtrusion) {
+      if (current.userData[flag]) {
         return current as THREE.Mesh;
       }
       current = current.parent;
@@ -188,15 +216,7 @@ export class ExtrudeTool {
     };
 
     const geometry = new THREE.ExtrudeGeometry(shape, extrudeSettings);
-    const material = new THREE.MeshStandardMaterial({
-      color: 0x00aaff,
-      transparent: true,
-      opacity: 0.8,
-      side: THREE.DoubleSide,
-      wireframe: false
-    });
-
-    const mesh = new THREE.Mesh(geometry, material);
+    const mesh = new THREE.Mesh(geometry, this.createExtrusionMaterial());
     mesh.scale.set(1, height, 1);
     mesh.position.copy(position);
     mesh.position.y = height / 2; // Center vertically
@@ -214,6 +234,81 @@ export class ExtrudeTool {
     return mesh;
   }
 
+  /**
+   * Turns a flat face, such as a circle from CircleTool, into an extrusion of
+   * its shape. The face's shape lies in its local XY plane with local Z facing
+   * up, so the extrusion grows along local Z. The face mesh itself becomes the
+   * extrusion, wherever it is in the scene, so the drawing tools' histories and
+   * the dimensions on the face keep pointing at it.
+   */
+  public extrudeFace(face: THREE.Mesh, height: number = 0.1): THREE.Mesh {
+    const extrusion: MeshState = {
+      geometry: new THREE.ExtrudeGeometry(face.userData.baseShape, { depth: 1, bevelEnabled: false }),
+      material: this.createExtrusionMaterial(),
+      // Keep the layer and classification the face was given
+      userData: { ...face.userData, isExtrusion: true, extrudesUp: true, originalHeight: height },
+      scale: new THREE.Vector3(1, 1, height)
+    };
+    delete extrusion.userData.isFace;
+
+    const entry: FaceExtrusion = { mesh: face, face: this.getMeshState(face), extrusion };
+    this.history.slice(this.historyIndex + 1).forEach(dropped => this.disposeMeshState(dropped.extrusion));
+    this.history = this.history.slice(0, this.historyIndex + 1);
+    this.history.push(entry);
+    this.historyIndex++;
+
+    this.setMeshState(face, extrusion);
+    return face;
+  }
+
+  private getMeshState(mesh: THREE.Mesh): MeshState {
+    return { geometry: mesh.geometry, material: mesh.material, userData: mesh.userData, scale: mesh.scale.clone() };
+  }
+
+  /** Shows `mesh` as `state`, freeing the buffers of what it showed until it is shown again. */
+  private setMeshState(mesh: THREE.Mesh, state: MeshState) {
+    this.disposeMeshState(this.getMeshState(mesh));
+    mesh.geometry = state.geometry;
+    mesh.material = state.material;
+    mesh.userData = state.userData;
+    mesh.scale.copy(state.scale);
+    mesh.castShadow = mesh.receiveShadow = state.userData.isExtrusion === true;
+  }
+
+  private disposeMeshState(state: MeshState) {
+    state.geometry.dispose();
+    (Array.isArray(state.material) ? state.material : [state.material]).forEach(material => material.dispose());
+  }
+
+  /** Turns the last face extruded back into a face. */
+  public undo() {
+    if (this.historyIndex < 0) return;
+
+    const entry = this.history[this.historyIndex];
+    // Redo brings back the height it was pulled to
+    entry.extrusion.scale.copy(entry.mesh.scale);
+    this.setMeshState(entry.mesh, entry.face);
+    this.historyIndex--;
+  }
+
+  public redo() {
+    if (this.historyIndex >= this.history.length - 1) return;
+
+    this.historyIndex++;
+    const entry = this.history[this.historyIndex];
+    this.setMeshState(entry.mesh, entry.extrusion);
+  }
+
+  private createExtrusionMaterial(): THREE.MeshStandardMaterial {
+    return new THREE.MeshStandardMaterial({
+      color: 0x00aaff,
+      transparent: true,
+      opacity: 0.8,
+      side: THREE.DoubleSide,
+      wireframe: false
+    });
+  }
+
   private createShapeFromGeometry(geometry: THREE.BufferGeometry): THREE.Shape {
     const shape = new THREE.Shape();
     const position = geometry.attributes.position;
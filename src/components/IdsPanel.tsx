@@ -0,0 +1,217 @@
+import { useRef, useState } from 'react';
+import type * as THREE from 'three';
+import type { IfcManager } from '../ifc/IfcManager';
+import { parseIdsFile } from '../ids/idsFile';
+import { IdsValidator } from '../ids/IdsValidator';
+import type { IdsDocument, IdsElementResult, IdsSpecificationResult } from '../ids/types';
+
+interface IdsPanelProps {
+  ifcManager: IfcManager;
+  onSelectElements: (objects: THREE.Object3D[]) => void;
+  onStatusMessage: (message: string) => void;
+}
+
+/**
+ * Loads an .ids file and checks the open IFC models against it. Results are
+ * listed per specification; the failing elements of a specification, or a
+ * single element, can be selected in the scene.
+ */
+export function IdsPanel({ ifcManager, onSelectElements, onStatusMessage }: IdsPanelProps) {
+  const [document, setDocument] = useState<IdsDocument | null>(null);
+  const [results, setResults] = useState<IdsSpecificationResult[]>([]);
+  const [isValidating, setIsValidating] = useState(false);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const findElements = (elements: IdsElementResult[]) =>
+    elements
+      .map(result => ifcManager.getModel(result.modelId)?.elements.get(result.expressID))
+      .filter((element): element is THREE.Object3D => element !== undefined);
+
+  const handleLoad = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const ids = parseIdsFile(await file.text());
+      setDocument(ids);
+      setResults([]);
+      setExpanded(new Set());
+      onStatusMessage(`Loaded ${ids.title} (${ids.specifications.length} specifications)`);
+    } catch (error) {
+      console.error(`Failed to read ${file.name}:`, error);
+      onStatusMessage(`Failed to read ${file.name}`);
+    }
+  };
+
+  const handleValidate = async () => {
+    if (!document) return;
+
+    setIsValidating(true);
+    onStatusMessage('Validating IDS...');
+    try {
+      const validation = await new IdsValidator(ifcManager).validate(document);
+      setResults(validation);
+      const failed = validation.filter(result => !result.passed).length;
+      onStatusMessage(failed === 0 ? 'All specifications passed' : `${failed} of ${validation.length} specifications failed`);
+    } catch (error) {
+      console.error('IDS validation failed:', error);
+      onStatusMessage('IDS validation failed');
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const toggleExpanded = (index: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div>
+      <div style={styles.toolbar}>
+        <button style={styles.button} onClick={() => fileInputRef.current?.click()}>Load IDS</button>
+        <button style={styles.button} onClick={handleValidate} disabled={!document || isValidating}>
+          {isValidating ? 'Validating...' : 'Validate'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ids,.xml"
+          style={{ display: 'none' }}
+          onChange={handleLoad}
+        />
+      </div>
+
+      {!document && <div style={styles.message}>No IDS loaded</div>}
+      {document && results.length === 0 && (
+        <div style={styles.message}>{document.title}: {document.specifications.length} specifications</div>
+      )}
+
+      {results.map((result, index) => {
+        const failing = result.elements.filter(element => !element.passed);
+        const isExpanded = expanded.has(index);
+        return (
+          <div key={index} style={styles.specification}>
+            <div style={styles.header} onClick={() => toggleExpanded(index)} title={result.specification.description}>
+              <span style={{ color: result.passed ? '#4CAF50' : '#f44336' }}>{result.passed ? '✓' : '✗'}</span>
+              <span style={styles.name}>{result.specification.name}</span>
+              <span style={styles.count}>{result.elements.length - failing.length}/{result.elements.length}</span>
+            </div>
+
+            {isExpanded && (
+              <div style={styles.details}>
+                {result.specification.unsupportedFacets.length > 0 && (
+                  <div style={styles.warning}>Not checked: {result.specification.unsupportedFacets.join(', ')}</div>
+                )}
+                {result.elements.length < result.specification.minOccurs && (
+                  <div style={styles.failure}>Expected at least {result.specification.minOccurs} applicable elements</div>
+                )}
+                {failing.length > 0 && (
+                  <button style={styles.button} onClick={() => onSelectElements(findElements(failing))}>
+                    Select {failing.length} failing
+                  </button>
+                )}
+                {result.elements.map(element => (
+                  <div
+                    key={`${element.modelId}:${element.expressID}`}
+                    style={styles.element}
+                    onClick={() => onSelectElements(findElements([element]))}
+                  >
+                    <div style={styles.elementHeader}>
+                      <span style={{ color: element.passed ? '#4CAF50' : '#f44336' }}>{element.passed ? 'Pass' : 'Fail'}</span>
+                      <span style={styles.name}>{element.name}</span>
+                      <span style={styles.count}>{element.ifcType}</span>
+                    </div>
+                    {element.failures.map((failure, failureIndex) => (
+                      <div key={failureIndex} style={styles.failure}>{failure}</div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+const styles = {
+  toolbar: {
+    display: 'flex',
+    gap: '6px',
+    marginBottom: '8px',
+  },
+  button: {
+    padding: '4px 8px',
+    backgroundColor: '#3c3c3c',
+    color: '#e0e0e0',
+    border: '1px solid #4a4a4a',
+    borderRadius: '3px',
+    fontSize: '12px',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+  message: {
+    padding: '6px 4px',
+    fontSize: '13px',
+    color: '#9e9e9e',
+  },
+  specification: {
+    borderBottom: '1px solid #3c3c3c',
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '6px 4px',
+    fontSize: '12px',
+    color: '#e0e0e0',
+    cursor: 'pointer',
+  },
+  name: {
+    flex: 1,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  count: {
+    color: '#9e9e9e',
+    fontSize: '10px',
+    whiteSpace: 'nowrap',
+  },
+  details: {
+    padding: '0 4px 6px 16px',
+  },
+  element: {
+    padding: '4px 0',
+    fontSize: '11px',
+    color: '#e0e0e0',
+    cursor: 'pointer',
+  },
+  elementHeader: {
+    display: 'flex',
+    gap: '6px',
+  },
+  failure: {
+    color: '#f48a80',
+    fontSize: '10px',
+    paddingLeft: '8px',
+  },
+  warning: {
+    color: '#ffb74d',
+    fontSize: '10px',
+    marginBottom: '4px',
+  },
+} as const;
+
+export default IdsPanel;
@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import type * as THREE from 'three';
+import { IFC_CLASS_NAMES, IFC_CLASS_PREDEFINED_TYPES, getClassification, setClassification } from '../ifc/classification';
+import type { IfcClassName, IfcClassification } from '../ifc/classification';
+
+interface IfcClassificationPanelProps {
+  object: THREE.Object3D;
+}
+
+/**
+ * Lets the user give a sketched object an IFC class, name, description and
+ * predefined type. Every edit is written straight to the object, so the
+ * exporter picks it up without any extra step.
+ */
+export function IfcClassificationPanel({ object }: IfcClassificationPanelProps) {
+  const [classification, setLocalClassification] = useState<IfcClassification | null>(() => getClassification(object));
+
+  useEffect(() => {
+    setLocalClassification(getClassification(object));
+  }, [object]);
+
+  const update = (next: IfcClassification | null) => {
+    setClassification(object, next);
+    setLocalClassification(next);
+  };
+
+  const handleClassChange = (value: string) => {
+    if (!value) {
+      update(null);
+      return;
+    }
+
+    const ifcClass = value as IfcClassName;
+    const predefinedTypes: readonly string[] = IFC_CLASS_PREDEFINED_TYPES[ifcClass];
+    update({
+      ifcClass,
+      name: classification?.name ?? object.name,
+      description: classification?.description ?? '',
+      // Keep the predefined type only if the new class has it too
+      predefinedType: classification && predefinedTypes.includes(classification.predefinedType)
+        ? classification.predefinedType
+        : predefinedTypes[0]
+    });
+  };
+
+  return (
+    <div>
+      <div style={styles.sectionTitle}>IFC Classification</div>
+
+      <div style={styles.row}>
+        <span style={styles.label}>Class</span>
+        <select
+          style={styles.input}
+          value={classification?.ifcClass ?? ''}
+          onChange={(e) => handleClassChange(e.target.value)}
+        >
+          <option value="">Unclassified</option>
+          {IFC_CLASS_NAMES.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+      </div>
+
+      {classification && (
+        <>
+          <div style={styles.row}>
+            <span style={styles.label}>Predefined Type</span>
+            <select
+              style={styles.input}
+              value={classification.predefinedType}
+              onChange={(e) => update({ ...classification, predefinedType: e.target.value })}
+            >
+              {IFC_CLASS_PREDEFINED_TYPES[classification.ifcClass].map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </div>
+
+          <div style={styles.row}>
+            <span style={styles.label}>Name</span>
+            <input
+              style={styles.input}
+              value={classification.name}
+              placeholder={classification.ifcClass.replace(/^Ifc/, '')}
+              onChange={(e) => update({ ...classification, name: e.target.value })}
+            />
+          </div>
+
+          <div style={styles.row}>
+            <span style={styles.label}>Description</span>
+            <input
+              style={styles.input}
+              value={classification.description}
+              onChange={(e) => update({ ...classification, description: e.target.value })}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+const styles = {
+  sectionTitle: {
+    padding: '10px 15px 5px',
+    fontSize: '11px',
+    color: '#9e9e9e',
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+  },
+  row: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '10px',
+    padding: '6px 15px',
+    fontSize: '12px',
+  },
+  label: {
+    color: '#9e9e9e',
+    whiteSpace: 'nowrap',
+  },
+  input: {
+    width: '140px',
+    padding: '4px 6px',
+    backgroundColor: '#1e1e1e',
+    color: '#e0e0e0',
+    border: '1px solid #3c3c3c',
+    borderRadius: '3px',
+    fontSize: '12px',
+  },
+} as const;
+
+export default IfcClassificationPanel;
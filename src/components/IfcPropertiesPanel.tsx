@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+import type { IfcManager } from '../ifc/IfcManager';
+import type { IfcElementProperties, IfcPropertyValue } from '../ifc/types';
+
+interface IfcPropertiesPanelProps {
+  ifcManager: IfcManager;
+  modelId: string;
+  expressID: number;
+}
+
+interface PropertyGroupProps {
+  title: string;
+  properties: IfcPropertyValue[];
+  collapsed: boolean;
+  onToggle: () => void;
+}
+
+function formatValue(value: IfcPropertyValue['value']): string {
+  if (value === null || value === '') return '-';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(3);
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  return value;
+}
+
+function PropertyGroup({ title, properties, collapsed, onToggle }: PropertyGroupProps) {
+  return (
+    <div style={styles.group}>
+      <div style={styles.groupHeader} onClick={onToggle}>
+        <span>{collapsed ? '▸' : '▾'} {title}</span>
+        <span style={styles.count}>{properties.length}</span>
+      </div>
+      {!collapsed && properties.map((property, index) => (
+        <div key={`${property.name}-${index}`} style={styles.row}>
+          <span style={styles.name}>{property.name}</span>
+          <span style={styles.value} title={formatValue(property.value)}>{formatValue(property.value)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Lists the attributes, property sets and quantity sets of an IFC element,
+ * each in its own collapsible group.
+ */
+export function IfcPropertiesPanel({ ifcManager, modelId, expressID }: IfcPropertiesPanelProps) {
+  const [properties, setProperties] = useState<IfcElementProperties | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    ifcManager.getElementProperties(modelId, expressID)
+      .then((result) => {
+        if (!cancelled) setProperties(result);
+      })
+      .catch((error) => {
+        console.error(`Failed to read properties of #${expressID}:`, error);
+        if (!cancelled) setProperties(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ifcManager, modelId, expressID]);
+
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  if (isLoading) {
+    return <div style={styles.message}>Loading properties...</div>;
+  }
+
+  if (!properties) {
+    return <div style={styles.message}>No IFC properties available</div>;
+  }
+
+  return (
+    <div>
+      <PropertyGroup
+        title={`Attributes (${properties.ifcType})`}
+        properties={properties.attributes}
+        collapsed={collapsedGroups.has('attributes')}
+        onToggle={() => toggleGroup('attributes')}
+      />
+
+      {properties.propertySets.length > 0 && (
+        <div style={styles.sectionTitle}>Property Sets</div>
+      )}
+      {properties.propertySets.map(group => (
+        <PropertyGroup
+          key={group.expressID}
+          title={group.name}
+          properties={group.properties}
+          collapsed={collapsedGroups.has(`pset-${group.expressID}`)}
+          onToggle={() => toggleGroup(`pset-${group.expressID}`)}
+        />
+      ))}
+
+      {properties.quantitySets.length > 0 && (
+        <div style={styles.sectionTitle}>Quantity Sets</div>
+      )}
+      {properties.quantitySets.map(group => (
+        <PropertyGroup
+          key={group.expressID}
+          title={group.name}
+          properties={group.properties}
+          collapsed={collapsedGroups.has(`qto-${group.expressID}`)}
+          onToggle={() => toggleGroup(`qto-${group.expressID}`)}
+        />
+      ))}
+    </div>
+  );
+}
+
+const styles = {
+  message: {
+    padding: '10px 15px',
+    fontSize: '13px',
+    color: '#9e9e9e',
+  },
+  sectionTitle: {
+    padding: '10px 15px 5px',
+    fontSize: '11px',
+    color: '#9e9e9e',
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+  },
+  group: {
+    borderBottom: '1px solid #3c3c3c',
+  },
+  groupHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '8px 15px',
+    fontSize: '13px',
+    cursor: 'pointer',
+    backgroundColor: '#333',
+  },
+  count: {
+    color: '#9e9e9e',
+    fontSize: '11px',
+  },
+  row: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '10px',
+    padding: '6px 15px 6px 25px',
+    fontSize: '12px',
+  },
+  name: {
+    color: '#9e9e9e',
+    whiteSpace: 'nowrap',
+  },
+  value: {
+    color: '#e0e0e0',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+} as const;
+
+export default IfcPropertiesPanel;
@@ -0,0 +1,321 @@
+import { useRef, useState } from 'react';
+import type * as THREE from 'three';
+import type { IfcManager } from '../ifc/IfcManager';
+import { readBcfFile, writeBcfFile } from '../bcf/bcfFile';
+import { applyViewpoint, captureViewpoint } from '../bcf/viewpoints';
+import type { ViewpointControls } from '../bcf/viewpoints';
+import type { BcfTopic, BcfVersion } from '../bcf/types';
+import { downloadFile } from '../utils/download';
+
+const TOPIC_STATUSES = ['Open', 'In Progress', 'Resolved', 'Closed'];
+
+interface IssuesPanelProps {
+  ifcManager: IfcManager;
+  camera: THREE.PerspectiveCamera;
+  controls: ViewpointControls;
+  selectedObjects: THREE.Object3D[];
+  onSelectObjects: (objects: THREE.Object3D[]) => void;
+  onStatusMessage: (message: string) => void;
+  author?: string;
+}
+
+/**
+ * Lists BCF topics and reads and writes them as .bcfzip files. A new topic
+ * captures the current view; opening a topic restores its camera, selection
+ * and hidden elements.
+ */
+export function IssuesPanel({
+  ifcManager,
+  camera,
+  controls,
+  selectedObjects,
+  onSelectObjects,
+  onStatusMessage,
+  author = 'Guest User'
+}: IssuesPanelProps) {
+  const [topics, setTopics] = useState<BcfTopic[]>([]);
+  const [activeTopicGuid, setActiveTopicGuid] = useState<string | null>(null);
+  const [newTitle, setNewTitle] = useState('');
+  const [newComment, setNewComment] = useState('');
+  const [version, setVersion] = useState<BcfVersion>('2.1');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeTopic = topics.find(topic => topic.guid === activeTopicGuid) ?? null;
+
+  const updateTopic = (guid: string, changes: Partial<BcfTopic>) => {
+    setTopics(prev => prev.map(topic => (topic.guid === guid ? { ...topic, ...changes } : topic)));
+  };
+
+  const handleCreateTopic = async () => {
+    const title = newTitle.trim();
+    if (!title) return;
+
+    try {
+      const viewpoint = await captureViewpoint(ifcManager, camera, controls, selectedObjects);
+      const topic: BcfTopic = {
+        guid: crypto.randomUUID(),
+        title,
+        status: TOPIC_STATUSES[0],
+        type: 'Issue',
+        description: '',
+        creationDate: new Date().toISOString(),
+        creationAuthor: author,
+        comments: [],
+        viewpoint
+      };
+      setTopics(prev => [...prev, topic]);
+      setActiveTopicGuid(topic.guid);
+      setNewTitle('');
+    } catch (error) {
+      console.error('Failed to capture viewpoint:', error);
+      onStatusMessage('Failed to create issue');
+    }
+  };
+
+  const handleOpenTopic = async (topic: BcfTopic) => {
+    setActiveTopicGuid(topic.guid);
+    if (!topic.viewpoint) return;
+
+    try {
+      const selection = await applyViewpoint(ifcManager, camera, controls, topic.viewpoint);
+      onSelectObjects(selection);
+    } catch (error) {
+      console.error(`Failed to restore viewpoint of ${topic.title}:`, error);
+      onStatusMessage('Failed to restore viewpoint');
+    }
+  };
+
+  const handleUpdateViewpoint = async (topic: BcfTopic) => {
+    try {
+      const viewpoint = await captureViewpoint(ifcManager, camera, controls, selectedObjects);
+      updateTopic(topic.guid, { viewpoint });
+    } catch (error) {
+      console.error('Failed to capture viewpoint:', error);
+      onStatusMessage('Failed to update viewpoint');
+    }
+  };
+
+  const handleAddComment = (topic: BcfTopic) => {
+    const comment = newComment.trim();
+    if (!comment) return;
+
+    updateTopic(topic.guid, {
+      comments: [...topic.comments, {
+        guid: crypto.randomUUID(),
+        date: new Date().toISOString(),
+        author,
+        comment
+      }]
+    });
+    setNewComment('');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    onStatusMessage(`Importing ${file.name}...`);
+    try {
+      const imported = await readBcfFile(await file.arrayBuffer());
+      // Topics already in the list are replaced by their imported version
+      setTopics(prev => [
+        ...prev.filter(topic => !imported.some(importedTopic => importedTopic.guid === topic.guid)),
+        ...imported
+      ]);
+      onStatusMessage(`Imported ${imported.length} issue${imported.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error(`Failed to import ${file.name}:`, error);
+      onStatusMessage(`Failed to import ${file.name}`);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const blob = await writeBcfFile(topics, version);
+      downloadFile(blob, 'issues.bcfzip');
+    } catch (error) {
+      console.error('Failed to export BCF:', error);
+      onStatusMessage('BCF export failed');
+    }
+  };
+
+  return (
+    <div>
+      <div style={styles.toolbar}>
+        <button style={styles.button} onClick={() => fileInputRef.current?.click()}>Import</button>
+        <button style={styles.button} onClick={handleExport} disabled={topics.length === 0}>Export</button>
+        <select
+          style={styles.select}
+          value={version}
+          onChange={(e) => setVersion(e.target.value as BcfVersion)}
+          title="BCF version used when exporting"
+        >
+          <option value="2.1">BCF 2.1</option>
+          <option value="3.0">BCF 3.0</option>
+        </select>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".bcfzip,.bcf"
+          style={{ display: 'none' }}
+          onChange={handleImport}
+        />
+      </div>
+
+      <div style={styles.toolbar}>
+        <input
+          style={styles.input}
+          value={newTitle}
+          placeholder="New issue title"
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleCreateTopic();
+          }}
+        />
+        <button style={styles.button} onClick={handleCreateTopic} disabled={!newTitle.trim()}>Add</button>
+      </div>
+
+      {topics.length === 0 && <div style={styles.message}>No issues</div>}
+
+      {topics.map(topic => (
+        <div key={topic.guid} style={styles.topic}>
+          <div
+            style={{ ...styles.topicHeader, backgroundColor: topic.guid === activeTopicGuid ? '#3c3c3c' : 'transparent' }}
+            onClick={() => handleOpenTopic(topic)}
+            title={topic.viewpoint ? 'Open viewpoint' : 'No viewpoint'}
+          >
+            <span style={styles.title}>{topic.title || 'Untitled'}</span>
+            <span style={styles.status}>{topic.status}</span>
+          </div>
+
+          {topic.guid === activeTopic?.guid && (
+            <div style={styles.details}>
+              <div style={styles.toolbar}>
+                <select
+                  style={styles.select}
+                  value={topic.status}
+                  onChange={(e) => updateTopic(topic.guid, { status: e.target.value })}
+                >
+                  {[...new Set([...TOPIC_STATUSES, topic.status])].filter(Boolean).map(status => (
+                    <option key={status} value={status}>{status}</option>
+                  ))}
+                </select>
+                <button style={styles.button} onClick={() => handleUpdateViewpoint(topic)}>Update viewpoint</button>
+              </div>
+
+              {topic.viewpoint && (
+                <div style={styles.meta}>
+                  {topic.viewpoint.selection.length} selected, {topic.viewpoint.exceptions.length} {topic.viewpoint.defaultVisibility ? 'hidden' : 'shown'}
+                </div>
+              )}
+
+              {topic.comments.map(comment => (
+                <div key={comment.guid} style={styles.comment}>
+                  <div style={styles.meta}>{comment.author} · {new Date(comment.date).toLocaleString()}</div>
+                  <div>{comment.comment}</div>
+                </div>
+              ))}
+
+              <div style={styles.toolbar}>
+                <input
+                  style={styles.input}
+                  value={newComment}
+                  placeholder="Add a comment"
+                  onChange={(e) => setNewComment(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleAddComment(topic);
+                  }}
+                />
+                <button style={styles.button} onClick={() => handleAddComment(topic)} disabled={!newComment.trim()}>Post</button>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const styles = {
+  toolbar: {
+    display: 'flex',
+    gap: '6px',
+    marginBottom: '8px',
+  },
+  button: {
+    padding: '4px 8px',
+    backgroundColor: '#3c3c3c',
+    color: '#e0e0e0',
+    border: '1px solid #4a4a4a',
+    borderRadius: '3px',
+    fontSize: '12px',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+  select: {
+    padding: '4px',
+    backgroundColor: '#1e1e1e',
+    color: '#e0e0e0',
+    border: '1px solid #3c3c3c',
+    borderRadius: '3px',
+    fontSize: '12px',
+  },
+  input: {
+    flex: 1,
+    minWidth: 0,
+    padding: '4px 6px',
+    backgroundColor: '#1e1e1e',
+    color: '#e0e0e0',
+    border: '1px solid #3c3c3c',
+    borderRadius: '3px',
+    fontSize: '12px',
+  },
+  message: {
+    padding: '6px 4px',
+    fontSize: '13px',
+    color: '#9e9e9e',
+  },
+  topic: {
+    borderBottom: '1px solid #3c3c3c',
+  },
+  topicHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '6px 4px',
+    fontSize: '12px',
+    color: '#e0e0e0',
+    cursor: 'pointer',
+    borderRadius: '3px',
+  },
+  title: {
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  status: {
+    color: '#9e9e9e',
+    fontSize: '10px',
+    whiteSpace: 'nowrap',
+  },
+  details: {
+    padding: '6px 4px',
+  },
+  meta: {
+    color: '#9e9e9e',
+    fontSize: '10px',
+    marginBottom: '6px',
+  },
+  comment: {
+    padding: '6px',
+    marginBottom: '6px',
+    backgroundColor: '#333',
+    borderRadius: '3px',
+    fontSize: '12px',
+    color: '#e0e0e0',
+  },
+} as const;
+
+export default IssuesPanel;
@@ -0,0 +1,100 @@
+import type { LabelKind } from '../utils/labels';
+import type { LabelSettings } from './LabelTool';
+
+interface LabelControlsProps {
+  status: string;
+  settings: LabelSettings;
+  editing: boolean;
+  layers: Array<{ id: string; name: string; visible: boolean }>;
+  onTextChange: (text: string) => void;
+  onKindChange: (kind: LabelKind) => void;
+  onColorChange: (color: string) => void;
+  onSizeChange: (size: number) => void;
+  onLeaderChange: (leader: boolean) => void;
+  onLayerChange: (layerId: string) => void;
+  visible: boolean;
+}
+
+export default function LabelControls({ status, settings, editing, layers, onTextChange, onKindChange, onColorChange, onSizeChange, onLeaderChange, onLayerChange, visible }: LabelControlsProps) {
+  if (!visible) return null;
+
+  // Billboard text is sized as a share of the view, flat text in metres
+  const sizeLimits = settings.kind === 'flat'
+    ? { min: '0.01', max: '10', step: '0.05' }
+    : { min: '0.01', max: '0.1', step: '0.005' };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      bottom: '80px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      padding: '10px 20px',
+      borderRadius: '4px',
+      color: 'white',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '15px',
+      zIndex: 1000,
+      boxShadow: '0 2px 10px rgba(0,0,0,0.2)'
+    }}>
+      <input
+        type="text"
+        value={settings.text}
+        onChange={(e) => onTextChange(e.target.value)}
+        placeholder="Label text"
+        style={{ ...inputStyle, minWidth: '140px' }}
+      />
+      <select value={settings.kind} onChange={(e) => onKindChange(e.target.value as LabelKind)} disabled={editing} style={inputStyle}>
+        <option value="billboard">Billboard</option>
+        <option value="flat">Flat on face</option>
+      </select>
+      <label style={{ fontSize: '0.9em', display: 'flex', alignItems: 'center', gap: '6px' }}>
+        Size
+        <input
+          type="number"
+          {...sizeLimits}
+          value={settings.size}
+          onChange={(e) => onSizeChange(parseFloat(e.target.value))}
+          style={inputStyle}
+        />
+        {settings.kind === 'flat' && 'm'}
+      </label>
+      <input
+        type="color"
+        value={settings.color}
+        onChange={(e) => onColorChange(e.target.value)}
+        title="Text colour"
+        style={{ ...inputStyle, minWidth: '36px', padding: '0 2px', height: '26px' }}
+      />
+      <label style={{ fontSize: '0.9em', display: 'flex', alignItems: 'center', gap: '6px' }}>
+        <input
+          type="checkbox"
+          checked={settings.leader}
+          onChange={(e) => onLeaderChange(e.target.checked)}
+        />
+        Leader
+      </label>
+      {editing && layers.length > 0 && (
+        <select value={settings.layerId} onChange={(e) => onLayerChange(e.target.value)} title="Layer" style={inputStyle}>
+          {layers.map(layer => (
+            <option key={layer.id} value={layer.id}>{layer.name}</option>
+          ))}
+        </select>
+      )}
+      <div style={{ fontSize: '0.8em', color: '#aaa', minWidth: '180px' }}>
+        {status}
+      </div>
+    </div>
+  );
+}
+
+const inputStyle = {
+  minWidth: '60px',
+  padding: '4px',
+  backgroundColor: '#1e1e1e',
+  color: 'white',
+  border: '1px solid #3c3c3c',
+  borderRadius: '3px'
+} as React.CSSProperties;
@@ -0,0 +1,417 @@
+import * as THREE from 'three';
+import { DEFAULT_LAYER_ID } from '../utils/layers';
+import { getPointerRay, pickPoint } from '../utils/picking';
+import { SnapMarker, clearSnapInference, getSnapTargets, snapPoint } from '../utils/snapping';
+import { DEFAULT_LABEL_SIZES, createLabel, disposeLabel, findLabel, getLabelData, orientLabel, setLabelLeader, updateLabel } from '../utils/labels';
+import type { LabelData, LabelKind } from '../utils/labels';
+
+type DrawableObject = THREE.Group;
+
+/** What the next label is made with, or what the label being edited shows. */
+export interface LabelSettings {
+  text: string;
+  kind: LabelKind;
+  color: string;
+  size: number;
+  leader: boolean;
+  layerId: string;
+}
+
+export const DEFAULT_LABEL_SETTINGS: LabelSettings = {
+  text: 'Note',
+  kind: 'billboard',
+  color: '#ffffff',
+  size: DEFAULT_LABEL_SIZES.billboard,
+  leader: false,
+  layerId: DEFAULT_LAYER_ID
+};
+
+/** A label following the mouse until it is clicked into place, its leader pointing at `target`. */
+interface PlacingLabel {
+  label: THREE.Group;
+  target: THREE.Vector3;
+  plane: THREE.Plane;
+}
+
+/** The label being edited and how it was before, for Escape. */
+interface EditingLabel {
+  label: THREE.Group;
+  before: LabelData;
+  layerId: string;
+  visible: boolean;
+  /** The settings for new labels, back in use once editing ends. */
+  settings: LabelSettings;
+  /** Whether the next click picks the point the leader points to. */
+  pickingLeader: boolean;
+}
+
+/**
+ * Places text notes: billboard labels that face the camera, or flat text lying
+ * on the clicked face. With a leader, the first click picks the point the
+ * leader points to and the second places the text; both points snap to the
+ * scene. Clicking a placed label edits its text, size, colour and layer
+ * through the setters; Enter or a click elsewhere keeps the changes and
+ * Escape puts the label back as it was.
+ */
+export class LabelTool {
+  private scene: THREE.Scene;
+  private camera: THREE.Camera;
+  private renderer: THREE.WebGLRenderer;
+  private controls?: {
+    enabled: boolean;
+  };
+  private onCancel: (() => void) | null = null;
+  private onStatus?: (message: string, settings: LabelSettings, editing: boolean) => void;
+  private settings: LabelSettings = { ...DEFAULT_LABEL_SETTINGS };
+  private activeLayerId: string = DEFAULT_LAYER_ID;
+  private placing: PlacingLabel | null = null;
+  private marker: SnapMarker;
+  private editing: EditingLabel | null = null;
+  private history: DrawableObject[] = [];
+  private historyIndex: number = -1;
+  private originalControlsEnabled: boolean = true;
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    renderer: THREE.WebGLRenderer,
+    onCancel: () => void,
+    controls?: { enabled: boolean }
+  ) {
+    this.scene = scene;
+    this.camera = camera;
+    this.renderer = renderer;
+    this.controls = controls;
+    this.onCancel = onCancel;
+    this.marker = new SnapMarker(scene);
+  }
+
+  /** Called with a hint for the next step, the settings shown and whether a label is being edited. */
+  public setOnStatus(callback: (message: string, settings: LabelSettings, editing: boolean) => void) {
+    this.onStatus = callback;
+  }
+
+  public setText(text: string) {
+    this.applySettings({ text });
+  }
+
+  /** The kind of the next label; a placed label keeps its kind. */
+  public setKind(kind: LabelKind) {
+    if (this.editing) return;
+
+    this.cancelPlacing();
+    this.settings = { ...this.settings, kind, size: DEFAULT_LABEL_SIZES[kind] };
+    this.notifyStatus();
+  }
+
+  public setColor(color: string) {
+    this.applySettings({ color });
+  }
+
+  public setSize(size: number) {
+    if (size > 0) this.applySettings({ size });
+  }
+
+  /**
+   * Whether labels get a leader. Turning it on while editing makes the next
+   * click pick the point it points to.
+   */
+  public setLeader(leader: boolean) {
+    if (this.editing) {
+      this.settings = { ...this.settings, leader };
+      this.editing.pickingLeader = leader;
+      if (!leader) setLabelLeader(this.editing.label, null);
+      this.notifyStatus();
+      return;
+    }
+
+    this.cancelPlacing();
+    this.settings = { ...this.settings, leader };
+    this.notifyStatus();
+  }
+
+  /** The active layer, which new labels are put on. */
+  public setLayerId(layerId: string | null) {
+    this.activeLayerId = layerId ?? DEFAULT_LAYER_ID;
+    if (!this.editing) {
+      this.settings = { ...this.settings, layerId: this.activeLayerId };
+      this.notifyStatus();
+    }
+  }
+
+  /** Moves the label being edited to another layer, showing or hiding it with that layer. */
+  public setLabelLayer(layerId: string, visible: boolean = true) {
+    if (!this.editing) return;
+
+    this.editing.label.userData.layerId = layerId;
+    this.editing.label.visible = visible;
+    this.settings = { ...this.settings, layerId };
+    this.notifyStatus();
+  }
+
+  /** Updates the settings and redraws the label being edited or placed with them. */
+  private applySettings(changes: Partial<LabelSettings>) {
+    this.settings = { ...this.settings, ...changes };
+
+    const label = this.editing?.label ?? this.placing?.label;
+    if (label) {
+      const { text, color, size } = this.settings;
+      updateLabel(label, { text, color, size });
+    }
+    this.notifyStatus();
+  }
+
+  private notifyStatus() {
+    let message: string;
+    if (this.editing) {
+      message = this.editing.pickingLeader
+        ? 'Click the point the leader points to'
+        : 'Editing label - Enter or click to finish, Escape to undo';
+    } else if (this.placing) {
+      message = 'Click to place the text';
+    } else if (this.settings.leader) {
+      message = 'Click the point the leader points to, or a label to edit it';
+    } else {
+      message = this.settings.kind === 'flat'
+        ? 'Click a face to lay the text on it, or a label to edit it'
+        : 'Click to place the label, or a label to edit it';
+    }
+    this.onStatus?.(message, { ...this.settings }, this.editing !== null);
+  }
+
+  private getPickableObjects(): THREE.Object3D[] {
+    return this.scene.children.filter(child =>
+      !child.userData.isLabel && !child.userData.isDimension && child.name !== 'selectionHelper'
+    );
+  }
+
+  /**
+   * The point under the mouse snapped to the scene, shown with the snap
+   * marker, and the normal of the face under it for flat text.
+   */
+  private pickTarget(event: MouseEvent): { point: THREE.Vector3; normal: THREE.Vector3 } | null {
+    const snap = snapPoint(event, this.camera, this.renderer.domElement, getSnapTargets(this.scene));
+    if (!snap) {
+      this.marker.hide();
+      return null;
+    }
+    this.marker.show(snap);
+
+    const pick = pickPoint(event, this.camera, this.renderer.domElement, this.getPickableObjects());
+    return { point: snap.point.clone(), normal: pick?.normal ?? new THREE.Vector3(0, 1, 0) };
+  }
+
+  /** The placed label under the mouse, if any. */
+  private pickLabel(event: MouseEvent): THREE.Group | null {
+    const ray = getPointerRay(event, this.camera, this.renderer.domElement);
+    const raycaster = new THREE.Raycaster(ray.origin, ray.direction);
+    raycaster.camera = this.camera;
+    raycaster.params.Line.threshold = 0.05;
+    raycaster.params.Points.threshold = 0.05;
+
+    const labels = this.scene.children.filter(child =>
+      child.userData.isLabel && child.visible && child !== this.placing?.label
+    );
+    const hit = raycaster.intersectObjects(labels, true)[0];
+    return hit ? findLabel(hit.object) : null;
+  }
+
+  private newLabel(position: THREE.Vector3, normal: THREE.Vector3): THREE.Group {
+    const { text, kind, color, size } = this.settings;
+    const label = createLabel({ text, kind, color, size, leader: null });
+    label.position.copy(position);
+    if (kind === 'flat') orientLabel(label, normal, this.camera);
+    return label;
+  }
+
+  private addToHistory(label: THREE.Group) {
+    label.userData.layerId = this.activeLayerId;
+    this.history = this.history.slice(0, this.historyIndex + 1);
+    this.history.push(label);
+    this.historyIndex++;
+  }
+
+  private startPlacing(target: THREE.Vector3, normal: THREE.Vector3) {
+    // Keep the camera still while the text follows the mouse
+    if (this.controls) {
+      this.originalControlsEnabled = this.controls.enabled;
+      this.controls.enabled = false;
+    }
+
+    // Billboards move on the plane facing the camera, flat text on its face
+    const planeNormal = this.settings.kind === 'flat'
+      ? normal.clone()
+      : this.camera.getWorldDirection(new THREE.Vector3()).negate();
+    const label = this.newLabel(target, normal);
+    this.scene.add(label);
+    this.placing = { label, target: target.clone(), plane: new THREE.Plane().setFromNormalAndCoplanarPoint(planeNormal, target) };
+  }
+
+  private moveLabel(event: MouseEvent) {
+    if (!this.placing) return;
+
+    const ray = getPointerRay(event, this.camera, this.renderer.domElement);
+    const point = ray.intersectPlane(this.placing.plane, new THREE.Vector3());
+    if (!point) return;
+
+    this.placing.label.position.copy(point);
+    setLabelLeader(this.placing.label, point.distanceTo(this.placing.target) > 1e-6 ? this.placing.target : null);
+  }
+
+  private finishPlacing() {
+    if (!this.placing) return;
+
+    this.addToHistory(this.placing.label);
+    this.placing = null;
+    this.resetControls();
+  }
+
+  private cancelPlacing() {
+    if (!this.placing) return;
+
+    this.scene.remove(this.placing.label);
+    disposeLabel(this.placing.label);
+    this.placing = null;
+    this.resetControls();
+  }
+
+  private resetControls() {
+    if (this.controls) {
+      this.controls.enabled = this.originalControlsEnabled;
+    }
+    this.notifyStatus();
+  }
+
+  private startEditing(label: THREE.Group) {
+    const data = getLabelData(label);
+    if (!data) return;
+
+    const layerId: string = label.userData.layerId ?? DEFAULT_LAYER_ID;
+    this.editing = { label, before: { ...data }, layerId, visible: label.visible, settings: this.settings, pickingLeader: false };
+    this.settings = { text: data.text, kind: data.kind, color: data.color, size: data.size, leader: data.leader !== null, layerId };
+    this.notifyStatus();
+  }
+
+  private finishEditing() {
+    if (!this.editing) return;
+
+    this.settings = { ...this.editing.settings, layerId: this.activeLayerId };
+    this.editing = null;
+    this.notifyStatus();
+  }
+
+  /** Puts the label being edited back as it was. */
+  private cancelEditing() {
+    if (!this.editing) return;
+
+    const { label, before, layerId, visible } = this.editing;
+    updateLabel(label, before);
+    label.userData.layerId = layerId;
+    label.visible = visible;
+    this.finishEditing();
+  }
+
+  private onMouseDown = (event: MouseEvent) => {
+    if (event.button !== 0) return; // Only left click
+
+    if (this.placing) {
+      this.moveLabel(event);
+      this.finishPlacing();
+      return;
+    }
+
+    if (this.editing) {
+      if (this.editing.pickingLeader) {
+        const target = this.pickTarget(event);
+        if (target) setLabelLeader(this.editing.label, target.point);
+      }
+      this.finishEditing();
+      return;
+    }
+
+    const label = this.pickLabel(event);
+    if (label) {
+      this.startEditing(label);
+      return;
+    }
+
+    if (!this.settings.text.trim()) {
+      this.onStatus?.('Type the text of the label first', { ...this.settings }, false);
+      return;
+    }
+
+    const target = this.pickTarget(event);
+    if (!target) return;
+
+    if (this.settings.leader) {
+      this.marker.hide();
+      this.startPlacing(target.point, target.normal);
+      this.notifyStatus();
+      return;
+    }
+
+    const placed = this.newLabel(target.point, target.normal);
+    this.scene.add(placed);
+    this.addToHistory(placed);
+  };
+
+  private onMouseMove = (event: MouseEvent) => {
+    if (this.placing) {
+      this.moveLabel(event);
+    } else {
+      this.pickTarget(event);
+    }
+  };
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    // Leave typing in form fields alone
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+    if (event.key === 'Escape') {
+      if (this.editing) {
+        this.cancelEditing();
+      } else if (this.placing) {
+        this.cancelPlacing();
+      } else {
+        this.onCancel?.();
+      }
+    } else if (event.key === 'Enter' && this.editing) {
+      this.finishEditing();
+    }
+  };
+
+  public enable() {
+    this.renderer.domElement.addEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.addEventListener('mousemove', this.onMouseMove);
+    window.addEventListener('keydown', this.onKeyDown);
+    this.notifyStatus();
+  }
+
+  public disable() {
+    this.renderer.domElement.removeEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.removeEventListener('mousemove', this.onMouseMove);
+    window.removeEventListener('keydown', this.onKeyDown);
+    this.cancelPlacing();
+    this.finishEditing();
+    this.marker.dispose();
+    clearSnapInference();
+  }
+
+  public undo() {
+    if (this.historyIndex >= 0) {
+      const lastObject = this.history[this.historyIndex];
+      this.scene.remove(lastObject);
+      this.historyIndex--;
+    }
+  }
+
+  public redo() {
+    if (this.historyIndex < this.history.length - 1) {
+      this.historyIndex++;
+      const nextObject = this.history[this.historyIndex];
+      this.scene.add(nextObject);
+    }
+  }
+}
+
+export default LabelTool;
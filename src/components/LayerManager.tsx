@@ -1,5 +1,6 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import * as THREE from 'three';
+import { DEFAULT_LAYER_ID } from '../utils/layers';
 
 interface Layer {
   id: string;
@@ -9,15 +10,23 @@ interface Layer {
   color: string;
 }
 
+export interface ImportedLayer {
+  id: string;
+  name: string;
+  objects: THREE.Object3D[];
+}
+
 interface LayerManagerProps {
   scene: THREE.Scene;
   onLayerChange?: (layers: Layer[]) => void;
   onObjectLayerChange?: (object: THREE.Object3D, newLayerId: string) => void;
+  onActiveLayerChange?: (layerId: string | null) => void;
   activeObject?: THREE.Object3D | null;
+  importedLayers?: ImportedLayer[];
 }
 
 const DEFAULT_LAYER: Layer = {
-  id: 'layer-0',
+  id: DEFAULT_LAYER_ID,
   name: 'Layer 0',
   visible: true,
   objects: [],
@@ -28,12 +37,16 @@ export function LayerManager({
   scene, 
   onLayerChange, 
   onObjectLayerChange,
-  activeObject 
+  onActiveLayerChange,
+  activeObject,
+  importedLayers
 }: LayerManagerProps) {
   const [layers, setLayers] = useState<Layer[]>([]);
   const [activeLayerId, setActiveLayerId] = useState<string | null>(null);
   const [newLayerName, setNewLayerName] = useState('');
   const [isInitialized, setIsInitialized] = useState(false);
+  // Imported models already given a layer, so deleting that layer does not bring it back
+  const addedImportedIds = useRef(new Set<string>());
 
   // Initialize with default layer
   useEffect(() => {
@@ -48,6 +61,41 @@ export function LayerManager({
     }
   }, [isInitialized, layers.length, onLayerChange]);
 
+  // Tools put new objects on the active layer
+  useEffect(() => {
+    onActiveLayerChange?.(activeLayerId);
+  }, [activeLayerId, onActiveLayerChange]);
+
+  // Give every imported model its own layer
+  useEffect(() => {
+    if (!isInitialized || !importedLayers) return;
+
+    const newLayers = importedLayers.filter(imported => !addedImportedIds.current.has(imported.id));
+    if (newLayers.length === 0) return;
+    newLayers.forEach(imported => addedImportedIds.current.add(imported.id));
+
+    const updatedLayers = [
+      ...layers,
+      ...newLayers.map(imported => {
+        imported.objects.forEach(object => {
+          object.userData.layerId = imported.id;
+        });
+        return {
+          id: imported.id,
+          name: imported.name,
+          visible: true,
+          objects: [...imported.objects],
+          color: `#${Math.floor(Math.random()*16777215).toString(16)}`
+        };
+      })
+    ];
+
+    setLayers(updatedLayers);
+    if (onLayerChange) {
+      onLayerChange(updatedLayers);
+    }
+  }, [importedLayers, isInitialized, layers, onLayerChange]);
+
   const addLayer = () => {
     if (!newLayerName.trim()) return;
     
@@ -125,6 +173,12 @@ export function LayerManager({
         layer.objects.forEach(object => {
           object.visible = isVisible;
         });
+        // Objects tools put on the layer are only marked in their userData
+        scene.children
+          .filter(object => object.userData.layerId === layerId && !layer.objects.includes(object))
+          .forEach(object => {
+            object.visible = isVisible;
+          });
         return { ...layer, visible: isVisible };
       }
       return layer;
@@ -1,4 +1,11 @@
 import * as THREE from 'three';
+import { appendArcToPath, arcFromThreePoints, tessellateArc } from '../utils/arcs';
+import type { Arc } from '../utils/arcs';
+import { SNAP_COLORS, SnapMarker, clearSnapInference, getSnapTargets, snapPoint } from '../utils/snapping';
+import type { SnapKind, SnapResult } from '../utils/snapping';
+import { AXIS_COLORS, AXIS_VECTORS, axisFromArrowKey } from '../utils/axes';
+import type { Axis } from '../utils/axes';
+import { closestPointOnLine, getPointerRay } from '../utils/picking';
 
 /**
  * Mendefinisikan tipe-tipe objek yang dapat digambar dan dikelola oleh riwayat (undo/redo).
@@ -6,6 +13,23 @@ import * as THREE from 'three';
  */
 type DrawableObject = THREE.Line | THREE.Mesh;
 
+/**
+ * Arah yang mengunci segmen berikutnya: sumbu dari tombol panah, atau arah inferensi yang
+ * ditampilkan saat Shift ditekan. Garis pratinjau digambar dengan warnanya.
+ */
+interface DirectionLock {
+  direction: THREE.Vector3;
+  color: number;
+  /** Sumbu yang dikunci, atau null untuk kunci inferensi dengan Shift. */
+  axis: Axis | null;
+}
+
+/** Warna garis pratinjau tanpa kunci arah. */
+const PREVIEW_COLOR = 0x00ff00;
+
+/** Snap ke geometri, yang tetap diproyeksikan ke garis yang dikunci. */
+const GEOMETRY_SNAPS: SnapKind[] = ['vertex', 'midpoint', 'center', 'edge'];
+
 /**
  * Memperluas antarmuka standar THREE.ExtrudeGeometryOptions dengan properti opsional untuk kejelasan.
  */
@@ -23,6 +47,12 @@ export class LineTool {
   private isDrawing = false;
   /** Sebuah array untuk menyimpan vertex (titik) dari polyline yang sedang digambar. */
   private points: THREE.Vector3[] = [];
+  /** Busur dari setiap segmen, di mana segmen i menghubungkan points[i] dan points[i + 1]; null untuk segmen lurus. */
+  private segmentArcs: Array<Arc | null> = [];
+  /** Sebuah flag yang menandakan bahwa segmen berikutnya digambar sebagai busur (diaktifkan dengan tombol 'A'). */
+  private arcMode = false;
+  /** Titik akhir busur yang sedang digambar, sambil menunggu klik pada titik yang dilalui busur. */
+  private pendingArcEnd: THREE.Vector3 | null = null;
   /** Objek THREE.Line yang merepresentasikan polyline yang sedang digambar saat ini. */
   private currentLine: THREE.Line | null = null;
   /** Scene utama THREE.js tempat semua objek dirender. */
@@ -45,6 +75,18 @@ export class LineTool {
   private controls?: {
     enabled: boolean;
   };
+  /** Penanda yang menunjukkan titik hasil snap di bawah mouse. */
+  private marker: SnapMarker;
+  /** Titik hasil snap terakhir di bawah mouse, yang menentukan arah segmen berikutnya. */
+  private cursorPoint: THREE.Vector3 | null = null;
+  /** Hasil snap terakhir, yang arah inferensinya dikunci dengan Shift. */
+  private lastSnap: SnapResult | null = null;
+  /** Kunci arah untuk segmen berikutnya, atau null jika arahnya bebas. */
+  private lock: DirectionLock | null = null;
+  /** Panjang segmen berikutnya yang sedang diketik, misalnya "3.5". */
+  private typedLength = '';
+  /** Callback yang dipanggil setiap kali panjang yang diketik berubah. */
+  private onTypedLengthChange?: (typedLength: string) => void;
   /** Sebuah timer untuk membantu membedakan antara klik tunggal dan klik ganda. */
   private doubleClickTimer: number | null = null;
   /** Sebuah penghitung untuk klik mouse guna mendeteksi klik ganda. */
@@ -73,18 +115,136 @@ export class LineTool {
     this.renderer = renderer;
     this.controls = controls;
     this.onCancel = onCancel;
+    this.marker = new SnapMarker(scene);
+  }
+
+  /**
+   * Mengatur callback yang dipanggil dengan panjang yang sedang diketik, atau string kosong setelah selesai.
+   * @param callback Fungsi yang menerima panjang yang diketik.
+   */
+  public setOnTypedLengthChange(callback: (typedLength: string) => void) {
+    this.onTypedLengthChange = callback;
   }
 
   /**
    * Menangani event keydown. Jika tombol 'Escape' ditekan saat menggambar, proses akan dibatalkan.
+   * Tombol 'A' mengubah segmen berikutnya menjadi busur, atau kembali menjadi garis lurus.
+   * Setelah titik pertama, angka yang diketik lalu Enter menempatkan titik berikutnya tepat sejauh
+   * panjang tersebut ke arah mouse. Panah kanan mengunci segmen berikutnya ke sumbu merah (X), panah kiri
+   * ke sumbu hijau di tanah (Z) dan panah atas ke sumbu biru yang tegak (Y); panah bawah melepasnya.
+   * Menahan Shift mengunci arah inferensi yang ditampilkan.
    * @param event Objek KeyboardEvent.
    */
   private handleKeyDown = (event: KeyboardEvent) => {
     if (event.key === 'Escape' && this.isDrawing) {
       this.cancelDrawing();
+      return;
+    }
+    if (!this.isDrawing || event.ctrlKey || event.metaKey) return;
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+    if (event.key.toLowerCase() === 'a') {
+      this.arcMode = !this.arcMode;
+      this.pendingArcEnd = null;
+      this.setTypedLength('');
+      this.setLock(null);
+    } else if (this.arcMode) {
+      // Busur tidak memiliki panjang yang bisa diketik
+      return;
+    } else if (/^[0-9.]$/.test(event.key)) {
+      event.preventDefault();
+      this.setTypedLength(this.typedLength + event.key);
+    } else if (event.key === 'Backspace' && this.typedLength) {
+      event.preventDefault();
+      this.setTypedLength(this.typedLength.slice(0, -1));
+    } else if (event.key === 'Enter' && this.typedLength) {
+      event.preventDefault();
+      this.placeTypedLength();
+    } else if (axisFromArrowKey(event.key) || event.key === 'ArrowDown') {
+      event.preventDefault();
+      const axis = axisFromArrowKey(event.key);
+      this.setLock(axis && axis !== this.lock?.axis
+        ? { direction: AXIS_VECTORS[axis].clone(), color: AXIS_COLORS[axis], axis }
+        : null);
+    } else if (event.key === 'Shift' && !event.repeat && this.lastSnap?.from) {
+      const direction = this.lastSnap.point.clone().sub(this.lastSnap.from);
+      if (direction.lengthSq() > 1e-12) {
+        this.setLock({ direction: direction.normalize(), color: SNAP_COLORS[this.lastSnap.kind], axis: null });
+      }
+    }
+  };
+
+  /**
+   * Melepas kunci inferensi saat Shift dilepas.
+   * @param event Objek KeyboardEvent.
+   */
+  private handleKeyUp = (event: KeyboardEvent) => {
+    if (event.key === 'Shift' && this.lock && !this.lock.axis) {
+      this.setLock(null);
     }
   };
 
+  /**
+   * Mengatur kunci arah dan memindahkan pratinjau ke garis yang dikunci.
+   * @param lock Kunci arah yang baru, atau null untuk arah bebas.
+   */
+  private setLock(lock: DirectionLock | null) {
+    this.lock = lock;
+    const lastPoint = this.points[this.points.length - 1];
+    if (!this.cursorPoint || !lastPoint) return;
+
+    if (lock) {
+      const offset = this.cursorPoint.clone().sub(lastPoint);
+      this.cursorPoint = lastPoint.clone().addScaledVector(lock.direction, offset.dot(lock.direction));
+    }
+    this.updatePreview(this.cursorPoint);
+  }
+
+  /**
+   * Menarik titik ke garis yang dikunci melalui titik terakhir. Titik yang di-snap ke geometri
+   * diproyeksikan ke garis itu; selain itu diambil titik pada garis yang paling dekat dengan sinar mouse.
+   * @param snap Hasil snap di bawah mouse.
+   * @param event Objek MouseEvent untuk sinar mouse.
+   */
+  private applyLock(snap: SnapResult, event: MouseEvent): THREE.Vector3 {
+    const lastPoint = this.points[this.points.length - 1];
+    if (!this.lock || !lastPoint || this.arcMode) return snap.point;
+
+    const { direction } = this.lock;
+    if (GEOMETRY_SNAPS.includes(snap.kind)) {
+      const offset = snap.point.clone().sub(lastPoint);
+      return lastPoint.clone().addScaledVector(direction, offset.dot(direction));
+    }
+    const ray = getPointerRay(event, this.camera, this.renderer.domElement);
+    return closestPointOnLine(ray, lastPoint, direction);
+  }
+
+  /**
+   * Memperbarui panjang yang diketik dan memberitahukan perubahannya.
+   * @param typedLength Panjang yang diketik, atau string kosong.
+   */
+  private setTypedLength(typedLength: string) {
+    if (typedLength === this.typedLength) return;
+    this.typedLength = typedLength;
+    this.onTypedLengthChange?.(typedLength);
+  }
+
+  /**
+   * Menempatkan titik berikutnya sejauh panjang yang diketik dari titik terakhir, ke arah mouse.
+   */
+  private placeTypedLength() {
+    const length = parseFloat(this.typedLength);
+    const lastPoint = this.points[this.points.length - 1];
+    if (Number.isNaN(length) || length <= 0 || !lastPoint || !this.cursorPoint) return;
+
+    const direction = new THREE.Vector3().subVectors(this.cursorPoint, lastPoint);
+    if (direction.lengthSq() < 1e-12) return;
+
+    this.setTypedLength('');
+    this.handleSingleClick(lastPoint.clone().add(direction.normalize().multiplyScalar(length)));
+    this.updatePreview(this.cursorPoint);
+  }
+
   /**
    * Membatalkan operasi menggambar saat ini. Menghapus garis sementara, mereset status,
    * dan memanggil callback onCancel.
@@ -104,91 +264,48 @@ export class LineTool {
   }
 
   /**
-   * Menghitung titik potong (intersection) 3D di dalam scene berdasarkan koordinat mouse 2D.
+   * Menghitung titik 3D di bawah mouse dengan snapping: ke titik ujung, titik tengah, tepi dan pusat muka
+   * dari mesh, ke grid, atau ke arah sejajar/tegak lurus dari titik terakhir. Di luar mesh, titik pertama
+   * jatuh pada bidang tanah dan titik berikutnya pada bidang horizontal yang melalui titik terakhir.
+   * Penanda snap ditampilkan pada titik tersebut.
    * @param event Objek MouseEvent yang berisi koordinat clientX dan clientY.
-   * @returns Sebuah THREE.Vector3 yang merepresentasikan titik potong, atau null jika tidak ditemukan.
+   * @returns Sebuah THREE.Vector3 yang merepresentasikan titik hasil snap, atau null jika tidak ditemukan.
    */
-  private getIntersectionPoint(event: MouseEvent, useFixedDistance: boolean = false): THREE.Vector3 | null {
-    // Convert mouse position to normalized device coordinates (-1 to +1)
-    const mouse = new THREE.Vector2();
-    const rect = this.renderer.domElement.getBoundingClientRect();
-    
-    mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
-    mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
-
-    // Create raycaster
-    const raycaster = new THREE.Raycaster();
-    raycaster.setFromCamera(mouse, this.camera);
-    
-    // Get camera position and direction
-    const cameraPosition = new THREE.Vector3();
-    this.camera.getWorldPosition(cameraPosition);
-    
-    // If we have existing points, create a plane for free-form drawing
-    if (this.points.length > 0 && !useFixedDistance) {
-      const lastPoint = this.points[this.points.length - 1];
-      
-      // Create a plane that's perpendicular to the view direction but aligned with the last point
-      const cameraToPoint = new THREE.Vector3().subVectors(cameraPosition, lastPoint).normalize();
-      const planeNormal = cameraToPoint.clone().normalize();
-      const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(planeNormal, lastPoint);
-      
-      // Find intersection with this plane
-      const intersection = new THREE.Vector3();
-      if (raycaster.ray.intersectPlane(plane, intersection)) {
-        // Limit the distance from the last point to prevent lines from being too long
-        const maxDistance = 5; // Maximum distance in world units
-        const distance = lastPoint.distanceTo(intersection);
-        if (distance > maxDistance) {
-          const direction = new THREE.Vector3().subVectors(intersection, lastPoint).normalize();
-          return lastPoint.clone().add(direction.multiplyScalar(maxDistance));
-        }
-        return intersection;
+  private getIntersectionPoint(event: MouseEvent): THREE.Vector3 | null {
+    const lastPoint = this.points.length > 0 ? this.points[this.points.length - 1] : null;
+    const snap = snapPoint(
+      event,
+      this.camera,
+      this.renderer.domElement,
+      getSnapTargets(this.scene, [this.currentLine, ...this.tempLines]),
+      {
+        from: lastPoint,
+        plane: lastPoint ? new THREE.Plane(new THREE.Vector3(0, 1, 0), -lastPoint.y) : undefined,
+        references: this.getStraightSegments()
       }
+    );
+    this.lastSnap = snap;
+    if (!snap) {
+      this.marker.hide();
+      return null;
     }
-    
-    // If no existing points or plane intersection failed, try intersecting with scene objects
-    const drawableObjects: THREE.Object3D[] = [];
-    
-    // Add all meshes in the scene that we can draw on
-    this.scene.traverse((object) => {
-      if (object instanceof THREE.Mesh) {
-        // Skip if this is one of our temporary drawing objects
-        const isTempLine = this.tempLines.some(line => line.uuid === object.uuid);
-        const isCurrentLine = this.currentLine && this.currentLine.uuid === object.uuid;
-        if (!isTempLine && !isCurrentLine) {
-          drawableObjects.push(object);
-        }
-      }
-    });
-    
-    // Find intersections with all objects in the scene
-    const intersects = raycaster.intersectObjects(drawableObjects, true);
-    
-    if (intersects.length > 0) {
-      // For the first point, use the exact intersection
-      if (this.points.length === 0 || useFixedDistance) {
-        return intersects[0].point;
-      }
-      
-      // For subsequent points, limit the distance from the last point
-      const lastPoint = this.points[this.points.length - 1];
-      const maxDistance = 5; // Maximum distance in world units
-      const direction = new THREE.Vector3().subVectors(intersects[0].point, lastPoint);
-      const distance = direction.length();
-      
-      if (distance > maxDistance) {
-        return lastPoint.clone().add(direction.normalize().multiplyScalar(maxDistance));
-      }
-      return intersects[0].point;
+    const point = this.applyLock(snap, event);
+    // Saat dikunci, penanda hanya menunjukkan geometri yang diproyeksikan ke garis
+    if (point === snap.point || GEOMETRY_SNAPS.includes(snap.kind)) {
+      this.marker.show(snap);
+    } else {
+      this.marker.hide();
     }
-    
-    // If no intersection with objects, create a point at a fixed distance from camera
-    const cameraDirection = new THREE.Vector3();
-    this.camera.getWorldDirection(cameraDirection);
-    
-    // Calculate a point 3 units in front of the camera (reduced from 10)
-    return cameraPosition.clone().add(cameraDirection.multiplyScalar(3));
+    return point;
+  }
+
+  /**
+   * Mengembalikan segmen lurus yang sudah digambar, sebagai acuan arah sejajar dan tegak lurus.
+   */
+  private getStraightSegments(): THREE.Line3[] {
+    return this.points.slice(1)
+      .map((point, i) => this.segmentArcs[i] ? null : new THREE.Line3(this.points[i], point))
+      .filter(segment => segment !== null);
   }
 
   /**
@@ -196,10 +313,10 @@ export class LineTool {
    * @param points Sebuah array dari titik THREE.Vector3.
    * @returns Sebuah objek THREE.Line.
    */
-  private createLine(points: THREE.Vector3[]): THREE.Line {
+  private createLine(points: THREE.Vector3[], color: number = PREVIEW_COLOR): THREE.Line {
     const geometry = new THREE.BufferGeometry().setFromPoints(points);
     const material = new THREE.LineBasicMaterial({ 
-      color: 0x00ff00,  // Green color for better visibility
+      color,  // Green by default for better visibility
       linewidth: 2,
       linecap: 'round',
       linejoin: 'round',
@@ -253,22 +370,40 @@ export class LineTool {
       this.tempLines.push(previewLine);
       this.scene.add(previewLine);
 
+    } else if (this.arcMode && !this.pendingArcEnd) {
+      // The first click of an arc segment places its end; the next one picks the bulge
+      this.pendingArcEnd = point.clone();
     } else {
-      // Add a new point to the current line
-      this.points.push(point.clone());
+      if (this.arcMode && this.pendingArcEnd) {
+        const lastPoint = this.points[this.points.length - 1];
+        const arc = arcFromThreePoints(lastPoint, point, this.pendingArcEnd);
+        if (!arc) return;
+
+        this.points.push(this.pendingArcEnd);
+        this.segmentArcs.push(arc);
+        this.pendingArcEnd = null;
+        this.arcMode = false;
+      } else {
+        // Add a new point to the current line
+        this.points.push(point.clone());
+        this.segmentArcs.push(null);
+        // The lock only holds for the segment it was set for
+        this.lock = null;
+      }
       
       if (this.currentLine) {
         const geometry = this.currentLine.geometry as THREE.BufferGeometry;
         const positions = geometry.attributes.position as THREE.BufferAttribute;
+        const outline = this.getOutlinePoints(this.points, this.segmentArcs).slice(0, this.MAX_POINTS);
         
         // Update all points including the new one
-        for (let i = 0; i < this.points.length; i++) {
-          const p = this.points[i];
+        for (let i = 0; i < outline.length; i++) {
+          const p = outline[i];
           positions.setXYZ(i, p.x, p.y, p.z);
         }
         
         // Set the draw range to include all points
-        geometry.setDrawRange(0, this.points.length);
+        geometry.setDrawRange(0, outline.length);
         positions.needsUpdate = true;
         
         // Update the bounding sphere for better rendering
@@ -283,17 +418,35 @@ export class LineTool {
     }
   };
 
+  /**
+   * Mengembalikan titik-titik untuk menggambar polyline, dengan setiap busur dipecah menjadi segmen-segmen pendek.
+   * @param points Titik-titik sudut polyline.
+   * @param arcs Busur dari setiap segmen, atau null untuk segmen lurus.
+   */
+  private getOutlinePoints(points: THREE.Vector3[], arcs: Array<Arc | null>): THREE.Vector3[] {
+    if (points.length === 0) return [];
+
+    const outline = [points[0]];
+    for (let i = 1; i < points.length; i++) {
+      const arc = arcs[i - 1];
+      outline.push(...(arc ? tessellateArc(arc).slice(1) : [points[i]]));
+    }
+    return outline;
+  }
+
   /**
    * Membuat mesh 3D yang diekstrusi dari serangkaian titik 2D pada bidang XZ.
    * @param points Array dari titik THREE.Vector3 yang membentuk polyline.
+   * @param arcs Busur dari setiap segmen, atau null untuk segmen lurus.
    * @returns Sebuah objek THREE.Mesh, atau null jika titik tidak cukup.
    */
-  private createMeshFromPoints(points: THREE.Vector3[]): THREE.Mesh | null {
-    if (points.length < 3) return null; // Need at least 3 points to form a face
+  private createMeshFromPoints(points: THREE.Vector3[], arcs: Array<Arc | null> = []): THREE.Mesh | null {
+    const outline = this.getOutlinePoints(points, arcs);
+    if (outline.length < 3) return null; // Need at least 3 points to form a face
 
     // Calculate the normal of the plane formed by the first three points
-    const v1 = new THREE.Vector3().subVectors(points[1], points[0]);
-    const v2 = new THREE.Vector3().subVectors(points[2], points[0]);
+    const v1 = new THREE.Vector3().subVectors(outline[1], outline[0]);
+    const v2 = new THREE.Vector3().subVectors(outline[2], outline[0]);
     const normal = new THREE.Vector3().crossVectors(v1, v2).normalize();
     
     // Create a group to hold the mesh
@@ -324,10 +477,15 @@ export class LineTool {
       );
     });
     
-    // Create shape from projected points
+    // Create shape from projected points, keeping arcs as arc curves
     shape.moveTo(projectedPoints[0].x, projectedPoints[0].y);
     for (let i = 1; i < projectedPoints.length; i++) {
-      shape.lineTo(projectedPoints[i].x, projectedPoints[i].y);
+      const arc = arcs[i - 1];
+      if (arc) {
+        appendArcToPath(shape, arc, origin, right, forward);
+      } else {
+        shape.lineTo(projectedPoints[i].x, projectedPoints[i].y);
+      }
     }
     
     // Close the shape if not already closed
@@ -347,16 +505,14 @@ export class LineTool {
     // Create fill mesh
     const fillGeometry = new THREE.ShapeGeometry(shape);
     const fillMesh = new THREE.Mesh(fillGeometry, fillMaterial);
+    // The shape lies in the mesh's local XY plane, so ExtrudeTool can pull it up
+    fillMesh.userData = { isFace: true, baseShape: shape };
     
-    // Position and orient the mesh in 3D space
-    const center = new THREE.Vector3();
-    points.forEach(point => center.add(point));
-    center.divideScalar(points.length);
-    
-    // Create a matrix to transform from 2D plane to 3D space
+    // Create a matrix to transform from 2D plane to 3D space. The shape was
+    // projected relative to the first point, so that is where it goes.
     const matrix = new THREE.Matrix4();
     matrix.makeBasis(right, forward, normal);
-    matrix.setPosition(center);
+    matrix.setPosition(origin);
     
     // Apply the transformation
     fillMesh.applyMatrix4(matrix);
@@ -366,8 +522,8 @@ export class LineTool {
     const borderPoints = [];
     
     // Add all points for the border
-    for (let i = 0; i <= points.length; i++) {
-      const point = points[i % points.length];
+    for (let i = 0; i <= outline.length; i++) {
+      const point = outline[i % outline.length];
       // Offset slightly along the normal to prevent z-fighting
       const offsetPoint = point.clone().add(normal.clone().multiplyScalar(0.001));
       borderPoints.push(offsetPoint);
@@ -390,6 +546,12 @@ export class LineTool {
     group.add(fillMesh);
     group.add(border);
     
+    // Keep the corners and arcs themselves, not only their tessellation
+    group.userData.polyline = {
+      points: points.map(point => point.clone()),
+      arcs: arcs.slice(0, points.length - 1)
+    };
+    
     // Ensure the entire group is flat and properly positioned
     group.position.y = 0;
     group.updateMatrix();
@@ -403,7 +565,7 @@ export class LineTool {
    */
   private handleDoubleClick = () => {
     if (this.isDrawing && this.points.length > 1) {
-      const mesh = this.createMeshFromPoints(this.points);
+      const mesh = this.createMeshFromPoints(this.points, this.segmentArcs);
       
       if (mesh) {
         this.scene.add(mesh);
@@ -457,17 +619,49 @@ export class LineTool {
    * @param event Objek MouseEvent.
    */
   private onMouseMove = (event: MouseEvent) => {
-    if (!this.isDrawing) return;
-    
-    // For the first point, use exact cursor position
-    const useFixedDistance = this.points.length === 0;
-    const point = this.getIntersectionPoint(event, useFixedDistance);
-    if (!point) return;
+    // The marker shows what the next click snaps to, before the first one too
+    const point = this.getIntersectionPoint(event);
+    if (!point || !this.isDrawing) return;
+
+    this.cursorPoint = point;
+    this.updatePreview(point);
+  };
+
+  /**
+   * Memperbarui garis pratinjau dari titik terakhir ke titik di bawah mouse.
+   * @param point Titik hasil snap di bawah mouse.
+   */
+  private updatePreview(point: THREE.Vector3) {
+    const lastPoint = this.points[this.points.length - 1];
+
+    // In arc mode the preview is drawn in orange; once the end is placed it
+    // shows the arc through the cursor
+    if (this.arcMode) {
+      const arc = this.pendingArcEnd ? arcFromThreePoints(lastPoint, point, this.pendingArcEnd) : null;
+      const previewPoints = arc ? tessellateArc(arc) : [lastPoint.clone(), (this.pendingArcEnd ?? point).clone()];
+      this.clearTempLines();
+      const previewLine = this.createLine(previewPoints, 0xffa500);
+      this.tempLines.push(previewLine);
+      this.scene.add(previewLine);
+
+      // Drop the cursor point the main line was following
+      if (this.currentLine) {
+        this.currentLine.geometry.setDrawRange(0, Math.min(this.getOutlinePoints(this.points, this.segmentArcs).length, this.MAX_POINTS));
+      }
+      return;
+    }
     
     // Update the preview line
     if (this.tempLines.length > 0) {
-      const previewLine = this.tempLines[0];
-      const lastPoint = this.points[this.points.length - 1];
+      let previewLine = this.tempLines[0];
+      if (previewLine.geometry.attributes.position.count !== 2) {
+        // Replace the arc preview left over from arc mode
+        this.clearTempLines();
+        previewLine = this.createLine([lastPoint.clone(), point.clone()]);
+        this.tempLines.push(previewLine);
+        this.scene.add(previewLine);
+      }
+      (previewLine.material as THREE.LineBasicMaterial).color.setHex(this.lock ? this.lock.color : PREVIEW_COLOR);
       const geometry = previewLine.geometry as THREE.BufferGeometry;
       const positions = geometry.attributes.position as THREE.BufferAttribute;
       
@@ -480,22 +674,23 @@ export class LineTool {
       if (this.currentLine && this.points.length > 1) {
         const mainGeometry = this.currentLine.geometry as THREE.BufferGeometry;
         const mainPositions = mainGeometry.attributes.position as THREE.BufferAttribute;
+        const outline = this.getOutlinePoints(this.points, this.segmentArcs).slice(0, this.MAX_POINTS - 1);
         
         // Update all points in the main line
-        for (let i = 0; i < this.points.length; i++) {
-          const p = this.points[i];
+        for (let i = 0; i < outline.length; i++) {
+          const p = outline[i];
           mainPositions.setXYZ(i, p.x, p.y, p.z);
         }
         
         // Add the current mouse position as the last point
-        mainPositions.setXYZ(this.points.length, point.x, point.y, point.z);
+        mainPositions.setXYZ(outline.length, point.x, point.y, point.z);
         mainPositions.needsUpdate = true;
         
         // Update the draw range to include the new point
-        mainGeometry.setDrawRange(0, this.points.length + 1);
+        mainGeometry.setDrawRange(0, outline.length + 1);
       }
     }
-  };
+  }
 
   /**
    * Menghapus semua garis sementara dari scene dan membuang geometri serta materialnya untuk membebaskan memori.
@@ -521,7 +716,14 @@ export class LineTool {
   private resetDrawing() {
     this.isDrawing = false;
     this.points = [];
+    this.segmentArcs = [];
+    this.arcMode = false;
+    this.pendingArcEnd = null;
     this.currentLine = null;
+    this.cursorPoint = null;
+    this.lastSnap = null;
+    this.lock = null;
+    this.setTypedLength('');
     this.clearTempLines();
   }
 
@@ -532,6 +734,7 @@ export class LineTool {
   public enable() {
     this.disable();
     window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
     this.renderer.domElement.addEventListener('mousedown', this.onMouseDown);
     this.renderer.domElement.addEventListener('mousemove', this.onMouseMove);
     this.renderer.domElement.addEventListener('dblclick', this.handleDoubleClick);
@@ -542,6 +745,7 @@ export class LineTool {
    */
   public disable() {
     window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
     this.renderer.domElement.removeEventListener('mousedown', this.onMouseDown);
     this.renderer.domElement.removeEventListener('mousemove', this.onMouseMove);
     this.renderer.domElement.removeEventListener('dblclick', this.handleDoubleClick);
@@ -552,6 +756,8 @@ export class LineTool {
     }
     
     this.resetDrawing();
+    this.marker.dispose();
+    clearSnapInference();
   }
 
   /**
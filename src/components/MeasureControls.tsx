@@ -0,0 +1,48 @@
+import * as THREE from 'three';
+
+interface MeasureControlsProps {
+  distance: number;
+  delta: THREE.Vector3;
+  keepDimensions: boolean;
+  onKeepDimensionsChange: (keep: boolean) => void;
+  visible: boolean;
+}
+
+export default function MeasureControls({ distance, delta, keepDimensions, onKeepDimensionsChange, visible }: MeasureControlsProps) {
+  if (!visible) return null;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      bottom: '80px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      padding: '10px 20px',
+      borderRadius: '4px',
+      color: 'white',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '15px',
+      zIndex: 1000,
+      boxShadow: '0 2px 10px rgba(0,0,0,0.2)'
+    }}>
+      <div style={{ fontSize: '0.9em', minWidth: '110px' }}>
+        Distance: {distance.toFixed(3)}m
+      </div>
+      <div style={{ fontSize: '0.8em', display: 'flex', gap: '10px' }}>
+        <span style={{ color: '#ff4d4d' }}>ΔX {delta.x.toFixed(3)}</span>
+        <span style={{ color: '#4dff4d' }}>ΔY {delta.y.toFixed(3)}</span>
+        <span style={{ color: '#4d8cff' }}>ΔZ {delta.z.toFixed(3)}</span>
+      </div>
+      <label style={{ fontSize: '0.9em', display: 'flex', alignItems: 'center', gap: '6px' }}>
+        <input
+          type="checkbox"
+          checked={keepDimensions}
+          onChange={(e) => onKeepDimensionsChange(e.target.checked)}
+        />
+        Keep dimensions
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import * as THREE from 'three';
+import { createMeasurementAnnotation } from '../utils/annotations';
+import { DEFAULT_LAYER_ID } from '../utils/layers';
+import { SnapMarker, clearSnapInference, getSnapTargets, snapPoint } from '../utils/snapping';
+import type { SnapResult } from '../utils/snapping';
+
+type DrawableObject = THREE.Group;
+
+/**
+ * Measures the distance between two clicked points, snapping to the vertices
+ * and edges of meshes under the mouse. While measuring, the distance and its
+ * X, Y and Z parts are reported through `setOnMeasure`. When dimensions are
+ * kept, each measurement is left in the scene as an annotation on the active
+ * layer.
+ */
+export class MeasureTool {
+  private start: THREE.Vector3 | null = null;
+  private previewLine: THREE.Line | null = null;
+  private marker: SnapMarker;
+  private scene: THREE.Scene;
+  private camera: THREE.Camera;
+  private renderer: THREE.WebGLRenderer;
+  private controls?: {
+    enabled: boolean;
+  };
+  private onCancel: (() => void) | null = null;
+  private onMeasure?: (distance: number, delta: THREE.Vector3) => void;
+  private keepDimensions = false;
+  private layerId: string = DEFAULT_LAYER_ID;
+  private history: DrawableObject[] = [];
+  private historyIndex: number = -1;
+  private originalControlsEnabled: boolean = true;
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    renderer: THREE.WebGLRenderer,
+    onCancel: () => void,
+    controls?: { enabled: boolean }
+  ) {
+    this.scene = scene;
+    this.camera = camera;
+    this.renderer = renderer;
+    this.controls = controls;
+    this.onCancel = onCancel;
+    this.marker = new SnapMarker(scene);
+  }
+
+  /** Called with the distance and the difference along each axis as the measurement changes. */
+  public setOnMeasure(callback: (distance: number, delta: THREE.Vector3) => void) {
+    this.onMeasure = callback;
+  }
+
+  /** Whether finished measurements are left in the scene as dimensions. */
+  public setKeepDimensions(keep: boolean) {
+    this.keepDimensions = keep;
+  }
+
+  /** The layer dimensions are put on. */
+  public setLayerId(layerId: string | null) {
+    this.layerId = layerId ?? DEFAULT_LAYER_ID;
+  }
+
+  private getSnap(event: MouseEvent): SnapResult | null {
+    const objects = getSnapTargets(this.scene, [this.previewLine]);
+    return snapPoint(event, this.camera, this.renderer.domElement, objects, { from: this.start });
+  }
+
+  private updatePreview(end: THREE.Vector3) {
+    if (!this.start) return;
+
+    this.removePreview();
+    const material = new THREE.LineDashedMaterial({ color: 0xffeb3b, dashSize: 0.1, gapSize: 0.05, depthTest: false });
+    this.previewLine = new THREE.Line(new THREE.BufferGeometry().setFromPoints([this.start, end]), material);
+    this.previewLine.computeLineDistances();
+    this.previewLine.renderOrder = 3;
+    this.scene.add(this.previewLine);
+
+    this.onMeasure?.(this.start.distanceTo(end), end.clone().sub(this.start));
+  }
+
+  private removePreview() {
+    if (!this.previewLine) return;
+
+    this.scene.remove(this.previewLine);
+    this.previewLine.geometry.dispose();
+    (this.previewLine.material as THREE.Material).dispose();
+    this.previewLine = null;
+  }
+
+  private finishMeasurement(end: THREE.Vector3) {
+    if (!this.start) return;
+
+    this.updatePreview(end);
+    if (this.keepDimensions && end.distanceTo(this.start) > 1e-6) {
+      const dimension = createMeasurementAnnotation(this.start, end);
+      dimension.userData.layerId = this.layerId;
+      this.scene.add(dimension);
+
+      this.history = this.history.slice(0, this.historyIndex + 1);
+      this.history.push(dimension);
+      this.historyIndex++;
+    }
+    this.resetMeasurement();
+  }
+
+  private onMouseDown = (event: MouseEvent) => {
+    if (event.button !== 0) return; // Only left click
+
+    const snap = this.getSnap(event);
+    if (!snap) return;
+
+    if (!this.start) {
+      // Keep the camera still while measuring
+      if (this.controls) {
+        this.originalControlsEnabled = this.controls.enabled;
+        this.controls.enabled = false;
+      }
+      this.start = snap.point.clone();
+      this.updatePreview(snap.point);
+    } else {
+      this.finishMeasurement(snap.point);
+    }
+  };
+
+  private onMouseMove = (event: MouseEvent) => {
+    const snap = this.getSnap(event);
+    if (!snap) return;
+
+    this.marker.show(snap);
+    if (this.start) this.updatePreview(snap.point);
+  };
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      if (this.start) {
+        this.resetMeasurement();
+      } else {
+        this.onCancel?.();
+      }
+    }
+  };
+
+  /** Ends the measurement; the last distance stays on show until the next one starts. */
+  private resetMeasurement() {
+    if (this.start && this.controls) {
+      this.controls.enabled = this.originalControlsEnabled;
+    }
+    this.removePreview();
+    this.start = null;
+  }
+
+  public enable() {
+    this.renderer.domElement.addEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.addEventListener('mousemove', this.onMouseMove);
+    window.addEventListener('keydown', this.onKeyDown);
+  }
+
+  public disable() {
+    this.renderer.domElement.removeEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.removeEventListener('mousemove', this.onMouseMove);
+    window.removeEventListener('keydown', this.onKeyDown);
+    this.resetMeasurement();
+    this.marker.dispose();
+    clearSnapInference();
+  }
+
+  public undo() {
+    if (this.historyIndex >= 0) {
+      const lastObject = this.history[this.historyIndex];
+      this.scene.remove(lastObject);
+      this.historyIndex--;
+    }
+  }
+
+  public redo() {
+    if (this.historyIndex < this.history.length - 1) {
+      this.historyIndex++;
+      const nextObject = this.history[this.historyIndex];
+      this.scene.add(nextObject);
+    }
+  }
+}
+
+export default MeasureTool;
@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import type * as THREE from 'three';
+import type { IfcManager, IfcModel } from '../ifc/IfcManager';
+import { applyComparisonColors, CHANGE_COLORS, CHANGE_LABELS, clearComparisonColors, compareModels } from '../compare/modelComparison';
+import type { ElementChange, ModelComparison } from '../compare/types';
+
+const CHANGES: ElementChange[] = ['added', 'removed', 'geometry', 'properties', 'unchanged'];
+
+function changeColor(change: ElementChange): string {
+  return `#${CHANGE_COLORS[change].toString(16).padStart(6, '0')}`;
+}
+
+interface ModelComparisonPanelProps {
+  ifcManager: IfcManager;
+  models: IfcModel[];
+  onSelectElements: (objects: THREE.Object3D[]) => void;
+  onStatusMessage: (message: string) => void;
+}
+
+/**
+ * Compares two open revisions of a model by GlobalId, colours the elements
+ * by what changed and lists them with a filter by change and by name.
+ */
+export function ModelComparisonPanel({ ifcManager, models, onSelectElements, onStatusMessage }: ModelComparisonPanelProps) {
+  // Models are usually opened oldest first, so default to the last two
+  const [oldModelId, setOldModelId] = useState(models[models.length - 2]?.id ?? '');
+  const [newModelId, setNewModelId] = useState(models[models.length - 1]?.id ?? '');
+  const [comparison, setComparison] = useState<ModelComparison | null>(null);
+  const [shownChanges, setShownChanges] = useState<Set<ElementChange>>(new Set(['added', 'removed', 'geometry', 'properties']));
+  const [search, setSearch] = useState('');
+  const [isComparing, setIsComparing] = useState(false);
+
+  // Put the original materials back when the comparison is replaced or the panel goes away
+  useEffect(() => {
+    if (!comparison) return;
+    applyComparisonColors(comparison);
+    return () => clearComparisonColors(comparison);
+  }, [comparison]);
+
+  const handleCompare = async () => {
+    if (!oldModelId || !newModelId || oldModelId === newModelId) {
+      onStatusMessage('Pick two different models to compare');
+      return;
+    }
+
+    setIsComparing(true);
+    onStatusMessage('Comparing models...');
+    try {
+      const result = await compareModels(ifcManager, oldModelId, newModelId);
+      setComparison(result);
+      const changed = result.elements.filter(element => element.change !== 'unchanged').length;
+      onStatusMessage(`${changed} of ${result.elements.length} elements changed`);
+    } catch (error) {
+      console.error('Model comparison failed:', error);
+      onStatusMessage('Model comparison failed');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const toggleChange = (change: ElementChange) => {
+    setShownChanges(prev => {
+      const next = new Set(prev);
+      if (next.has(change)) {
+        next.delete(change);
+      } else {
+        next.add(change);
+      }
+      return next;
+    });
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleElements = (comparison?.elements ?? []).filter(element =>
+    shownChanges.has(element.change) &&
+    (!query || element.name.toLowerCase().includes(query) || element.ifcType.toLowerCase().includes(query) || element.guid.toLowerCase().includes(query))
+  );
+
+  const modelSelect = (value: string, onChange: (id: string) => void) => (
+    <select style={styles.select} value={value} onChange={(e) => onChange(e.target.value)}>
+      {models.map(model => (
+        <option key={model.id} value={model.id}>{model.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div>
+      <div style={styles.toolbar}>
+        <span style={styles.label}>Old</span>
+        {modelSelect(oldModelId, setOldModelId)}
+      </div>
+      <div style={styles.toolbar}>
+        <span style={styles.label}>New</span>
+        {modelSelect(newModelId, setNewModelId)}
+      </div>
+      <div style={styles.toolbar}>
+        <button style={styles.button} onClick={handleCompare} disabled={isComparing}>
+          {isComparing ? 'Comparing...' : 'Compare'}
+        </button>
+        <button style={styles.button} onClick={() => setComparison(null)} disabled={!comparison}>Clear</button>
+      </div>
+
+      {comparison && (
+        <>
+          <div style={styles.filters}>
+            {CHANGES.map(change => (
+              <label key={change} style={styles.filter}>
+                <input type="checkbox" checked={shownChanges.has(change)} onChange={() => toggleChange(change)} />
+                <span style={{ ...styles.swatch, backgroundColor: changeColor(change) }} />
+                {CHANGE_LABELS[change]} ({comparison.elements.filter(element => element.change === change).length})
+              </label>
+            ))}
+          </div>
+          <input
+            style={{ ...styles.select, width: '100%', boxSizing: 'border-box', marginBottom: '8px' }}
+            value={search}
+            placeholder="Filter by name, class or GlobalId"
+            onChange={(e) => setSearch(e.target.value)}
+          />
+
+          {visibleElements.map(element => (
+            <div
+              key={`${element.guid}:${element.change}`}
+              style={styles.element}
+              onClick={() => onSelectElements([element.element])}
+              title={element.changedProperties.length > 0 ? `Changed: ${element.changedProperties.join(', ')}` : element.guid}
+            >
+              <span style={{ ...styles.swatch, backgroundColor: changeColor(element.change) }} />
+              <span style={styles.name}>{element.name}</span>
+              <span style={styles.type}>{element.ifcType}</span>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+const styles = {
+  toolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    marginBottom: '8px',
+  },
+  label: {
+    color: '#9e9e9e',
+    fontSize: '12px',
+    minWidth: '30px',
+  },
+  button: {
+    padding: '4px 8px',
+    backgroundColor: '#3c3c3c',
+    color: '#e0e0e0',
+    border: '1px solid #4a4a4a',
+    borderRadius: '3px',
+    fontSize: '12px',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+  select: {
+    flex: 1,
+    minWidth: 0,
+    padding: '4px',
+    backgroundColor: '#1e1e1e',
+    color: '#e0e0e0',
+    border: '1px solid #3c3c3c',
+    borderRadius: '3px',
+    fontSize: '12px',
+  },
+  filters: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    marginBottom: '8px',
+  },
+  filter: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '11px',
+    color: '#e0e0e0',
+    cursor: 'pointer',
+  },
+  swatch: {
+    display: 'inline-block',
+    width: '8px',
+    height: '8px',
+    borderRadius: '2px',
+    flexShrink: 0,
+  },
+  element: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '3px 4px',
+    fontSize: '11px',
+    color: '#e0e0e0',
+    cursor: 'pointer',
+  },
+  name: {
+    flex: 1,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  type: {
+    color: '#9e9e9e',
+    fontSize: '10px',
+    whiteSpace: 'nowrap',
+  },
+} as const;
+
+export default ModelComparisonPanel;
@@ -0,0 +1,46 @@
+import type { Axis } from '../utils/axes';
+
+interface MoveControlsProps {
+  distance: number;
+  typed: string;
+  axis: Axis | null;
+  visible: boolean;
+}
+
+export default function MoveControls({ distance, typed, axis, visible }: MoveControlsProps) {
+  if (!visible) return null;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      bottom: '80px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      padding: '10px 20px',
+      borderRadius: '4px',
+      color: 'white',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '15px',
+      zIndex: 1000,
+      boxShadow: '0 2px 10px rgba(0,0,0,0.2)'
+    }}>
+      <div style={{ fontSize: '0.9em', minWidth: '110px' }} title='Type a distance or "x,y,z" and press Enter'>
+        Distance: {typed ? `${typed}_` : `${distance.toFixed(2)}m`}
+      </div>
+      <div style={{ fontSize: '0.9em', color: axis ? axisColors[axis] : '#9e9e9e' }}>
+        {axis ? `${axis.toUpperCase()} axis` : 'Free'}
+      </div>
+      <div style={{ fontSize: '0.8em', color: '#aaa' }}>
+        Arrows lock an axis · Ctrl copies
+      </div>
+    </div>
+  );
+}
+
+const axisColors = {
+  x: '#ff4d4d',
+  y: '#4dff4d',
+  z: '#4d8cff'
+} as const;
@@ -0,0 +1,339 @@
+import * as THREE from 'three';
+import { AXIS_COLORS, AXIS_VECTORS, FREE_COLOR, axisFromArrowKey } from '../utils/axes';
+import type { Axis } from '../utils/axes';
+import { closestPointOnLine, getPickedRoot, getPointerRay } from '../utils/picking';
+import { SnapMarker, clearSnapInference, snapPoint } from '../utils/snapping';
+import type { SnapResult } from '../utils/snapping';
+import { copyObject } from '../utils/geometry';
+
+/** One move, kept so it can be undone: either the objects moved, or the copies added. */
+interface MoveOperation {
+  objects: THREE.Object3D[];
+  from: THREE.Vector3[];
+  to: THREE.Vector3[];
+  copies: THREE.Object3D[];
+  copyParents: THREE.Object3D[];
+}
+
+/**
+ * Moves objects from a base point to a destination. The base point snaps to
+ * the scene, and the selection when the tool is switched on is moved, or else
+ * the object under the base point.
+ * Arrow keys lock the move to the X (right), Y (up) or Z (left) axis, and
+ * pressing the same key again or the down arrow frees it. While moving, a typed
+ * distance followed by Enter moves exactly that far in the current direction,
+ * and "x,y,z" moves by that offset. Holding Ctrl when finishing copies the
+ * objects instead of moving them; copies of IFC elements are drawn objects
+ * put straight in the scene.
+ */
+export class MoveTool {
+  private scene: THREE.Scene;
+  private camera: THREE.Camera;
+  private renderer: THREE.WebGLRenderer;
+  private controls?: {
+    enabled: boolean;
+  };
+  private onCancel: (() => void) | null = null;
+  private onChange?: (offset: THREE.Vector3, typed: string, axis: Axis | null) => void;
+  private targets: THREE.Object3D[] = [];
+  private moving: THREE.Object3D[] = [];
+  private startPositions: THREE.Vector3[] = [];
+  private basePoint: THREE.Vector3 | null = null;
+  private offset = new THREE.Vector3();
+  private axis: Axis | null = null;
+  private typed = '';
+  private guide: THREE.Line | null = null;
+  private marker: SnapMarker;
+  private history: MoveOperation[] = [];
+  private historyIndex: number = -1;
+  private originalControlsEnabled: boolean = true;
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    renderer: THREE.WebGLRenderer,
+    onCancel: () => void,
+    controls?: { enabled: boolean }
+  ) {
+    this.scene = scene;
+    this.camera = camera;
+    this.renderer = renderer;
+    this.controls = controls;
+    this.onCancel = onCancel;
+    this.marker = new SnapMarker(scene);
+  }
+
+  /** Called with the current offset, the text typed so far and the locked axis. */
+  public setOnChange(callback: (offset: THREE.Vector3, typed: string, axis: Axis | null) => void) {
+    this.onChange = callback;
+  }
+
+  /** The objects to move, usually the selection when the tool is switched on. */
+  public setTargets(objects: THREE.Object3D[]) {
+    this.targets = [...objects];
+  }
+
+  private notifyChange() {
+    this.onChange?.(this.offset.clone(), this.typed, this.axis);
+  }
+
+  private getPickableObjects(): THREE.Object3D[] {
+    return this.scene.children.filter(child =>
+      child !== this.guide && child.name !== 'selectionHelper' && !child.userData.isSnapMarker
+    );
+  }
+
+  /** The point under the mouse snapped to the scene, shown with the snap marker. */
+  private getSnap(event: MouseEvent): SnapResult | null {
+    const snap = snapPoint(event, this.camera, this.renderer.domElement, this.getPickableObjects());
+    if (snap) {
+      this.marker.show(snap);
+    } else {
+      this.marker.hide();
+    }
+    return snap;
+  }
+
+  /** Moves the objects being moved by `offset` from where they started, in world space. */
+  private applyOffset(offset: THREE.Vector3) {
+    this.offset.copy(offset);
+    this.moving.forEach((object, index) => {
+      const world = this.startPositions[index].clone().add(offset);
+      object.position.copy(object.parent ? object.parent.worldToLocal(world) : world);
+    });
+    this.updateGuide();
+    this.notifyChange();
+  }
+
+  private updateGuide() {
+    if (!this.basePoint) return;
+
+    if (this.guide) {
+      this.scene.remove(this.guide);
+      this.guide.geometry.dispose();
+      (this.guide.material as THREE.Material).dispose();
+    }
+    const end = this.basePoint.clone().add(this.offset);
+    const material = new THREE.LineBasicMaterial({ color: this.axis ? AXIS_COLORS[this.axis] : FREE_COLOR, depthTest: false });
+    this.guide = new THREE.Line(new THREE.BufferGeometry().setFromPoints([this.basePoint, end]), material);
+    this.guide.renderOrder = 2;
+    this.scene.add(this.guide);
+  }
+
+  /**
+   * The offset for the mouse position: along the locked axis, or on the
+   * horizontal plane through the base point.
+   */
+  private getPointerOffset(event: MouseEvent): THREE.Vector3 | null {
+    if (!this.basePoint) return null;
+
+    const ray = getPointerRay(event, this.camera, this.renderer.domElement);
+    if (this.axis) {
+      return closestPointOnLine(ray, this.basePoint, AXIS_VECTORS[this.axis]).sub(this.basePoint);
+    }
+    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(AXIS_VECTORS.y, this.basePoint);
+    const point = ray.intersectPlane(plane, new THREE.Vector3());
+    return point ? point.sub(this.basePoint) : null;
+  }
+
+  /**
+   * The offset for the typed text: "x,y,z" as it is, or a distance along the
+   * locked axis or the direction the objects are being moved in.
+   */
+  private getTypedOffset(): THREE.Vector3 | null {
+    const values = this.typed.split(',').map(value => parseFloat(value));
+    if (values.some(value => Number.isNaN(value))) return null;
+
+    if (values.length === 3) return new THREE.Vector3(values[0], values[1], values[2]);
+    if (values.length !== 1) return null;
+
+    const direction = this.axis ? AXIS_VECTORS[this.axis].clone() : this.offset.clone();
+    if (direction.lengthSq() === 0) return null;
+    return direction.normalize().multiplyScalar(values[0]);
+  }
+
+  private startMove(event: MouseEvent) {
+    const snap = this.getSnap(event);
+    if (!snap) return;
+
+    const objects = this.targets.length > 0 ? this.targets : snap.object ? [getPickedRoot(snap.object, this.scene)] : [];
+    if (objects.length === 0) return;
+    this.marker.hide();
+
+    // Keep the camera still while moving
+    if (this.controls) {
+      this.originalControlsEnabled = this.controls.enabled;
+      this.controls.enabled = false;
+    }
+
+    this.moving = objects;
+    this.startPositions = objects.map(object => object.getWorldPosition(new THREE.Vector3()));
+    this.basePoint = snap.point.clone();
+    this.offset.set(0, 0, 0);
+    this.typed = '';
+    this.updateGuide();
+    this.notifyChange();
+  }
+
+  /** Ends the move at the current offset, copying the objects when `copy` is set. */
+  private finishMove(copy: boolean) {
+    if (!this.basePoint) return;
+
+    const operation: MoveOperation = { objects: [], from: [], to: [], copies: [], copyParents: [] };
+    this.moving.forEach((object) => {
+      if (copy) {
+        const clone = copyObject(object);
+        (object.parent ?? this.scene).add(clone);
+        // A copy of an IFC element is a drawn object, so it leaves the model for the scene
+        if (object.userData.expressID !== undefined) this.scene.attach(clone);
+        operation.copies.push(clone);
+        operation.copyParents.push(clone.parent!);
+      } else {
+        operation.objects.push(object);
+        operation.to.push(object.position.clone());
+      }
+    });
+
+    // Copies stay where they were put and the originals go back
+    this.applyOffset(new THREE.Vector3());
+    if (!copy) {
+      operation.from = this.moving.map(object => object.position.clone());
+      this.moving.forEach((object, index) => object.position.copy(operation.to[index]));
+    }
+
+    this.history = this.history.slice(0, this.historyIndex + 1);
+    this.history.push(operation);
+    this.historyIndex++;
+
+    this.resetMove();
+  }
+
+  private cancelMove() {
+    this.applyOffset(new THREE.Vector3());
+    this.resetMove();
+  }
+
+  private resetMove() {
+    if (this.basePoint && this.controls) {
+      this.controls.enabled = this.originalControlsEnabled;
+    }
+    if (this.guide) {
+      this.scene.remove(this.guide);
+      this.guide.geometry.dispose();
+      (this.guide.material as THREE.Material).dispose();
+      this.guide = null;
+    }
+    this.moving = [];
+    this.startPositions = [];
+    this.basePoint = null;
+    this.offset.set(0, 0, 0);
+    this.typed = '';
+    this.notifyChange();
+  }
+
+  private onMouseDown = (event: MouseEvent) => {
+    if (event.button !== 0) return; // Only left click
+
+    if (!this.basePoint) {
+      this.startMove(event);
+    } else {
+      this.finishMove(event.ctrlKey || event.metaKey);
+    }
+  };
+
+  private onMouseMove = (event: MouseEvent) => {
+    if (!this.basePoint) {
+      this.getSnap(event);
+      return;
+    }
+    if (this.typed) return;
+
+    const offset = this.getPointerOffset(event);
+    if (offset) this.applyOffset(offset);
+  };
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    // Leave typing in form fields alone
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+    if (event.key === 'Escape') {
+      if (this.basePoint) {
+        this.cancelMove();
+      } else {
+        this.onCancel?.();
+      }
+      return;
+    }
+
+    const axis = axisFromArrowKey(event.key);
+    if (axis || event.key === 'ArrowDown') {
+      event.preventDefault();
+      this.axis = axis === this.axis ? null : axis;
+      if (this.basePoint && this.axis) {
+        // Keep only the part of the move along the new axis
+        const direction = AXIS_VECTORS[this.axis];
+        this.applyOffset(direction.clone().multiplyScalar(this.offset.dot(direction)));
+      } else {
+        this.updateGuide();
+        this.notifyChange();
+      }
+      return;
+    }
+    if (!this.basePoint) return;
+
+    if (/^[0-9.,-]$/.test(event.key)) {
+      this.typed += event.key;
+    } else if (event.key === 'Backspace') {
+      this.typed = this.typed.slice(0, -1);
+    } else if (event.key === 'Enter') {
+      const offset = this.getTypedOffset();
+      if (offset) {
+        this.applyOffset(offset);
+        this.finishMove(event.ctrlKey || event.metaKey);
+      }
+      return;
+    } else {
+      return;
+    }
+
+    event.preventDefault();
+    this.notifyChange();
+  };
+
+  public enable() {
+    this.renderer.domElement.addEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.addEventListener('mousemove', this.onMouseMove);
+    window.addEventListener('keydown', this.onKeyDown);
+  }
+
+  public disable() {
+    this.renderer.domElement.removeEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.removeEventListener('mousemove', this.onMouseMove);
+    window.removeEventListener('keydown', this.onKeyDown);
+    if (this.basePoint) this.cancelMove();
+    this.targets = [];
+    this.axis = null;
+    this.marker.dispose();
+    clearSnapInference();
+  }
+
+  public undo() {
+    if (this.historyIndex < 0) return;
+
+    const operation = this.history[this.historyIndex];
+    operation.objects.forEach((object, index) => object.position.copy(operation.from[index]));
+    operation.copies.forEach(copy => copy.removeFromParent());
+    this.historyIndex--;
+  }
+
+  public redo() {
+    if (this.historyIndex >= this.history.length - 1) return;
+
+    this.historyIndex++;
+    const operation = this.history[this.historyIndex];
+    operation.objects.forEach((object, index) => object.position.copy(operation.to[index]));
+    operation.copies.forEach((copy, index) => operation.copyParents[index].add(copy));
+  }
+}
+
+export default MoveTool;
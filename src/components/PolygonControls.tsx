@@ -0,0 +1,62 @@
+import type { PolygonMode } from './PolygonTool';
+
+interface PolygonControlsProps {
+  radius: number;
+  typed: string;
+  sides: number;
+  mode: PolygonMode;
+  onSidesChange: (sides: number) => void;
+  onModeChange: (mode: PolygonMode) => void;
+  visible: boolean;
+}
+
+export default function PolygonControls({ radius, typed, sides, mode, onSidesChange, onModeChange, visible }: PolygonControlsProps) {
+  if (!visible) return null;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      bottom: '80px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      padding: '10px 20px',
+      borderRadius: '4px',
+      color: 'white',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '15px',
+      zIndex: 1000,
+      boxShadow: '0 2px 10px rgba(0,0,0,0.2)'
+    }}>
+      <div style={{ fontSize: '0.9em', minWidth: '110px' }} title='Type a radius and press Enter, or a side count followed by "s"'>
+        Radius: {typed ? `${typed}_` : `${radius.toFixed(2)}m`}
+      </div>
+      <label style={{ fontSize: '0.9em', display: 'flex', alignItems: 'center', gap: '6px' }}>
+        Sides
+        <input
+          type="number"
+          min="3"
+          max="64"
+          step="1"
+          value={sides}
+          onChange={(e) => onSidesChange(parseInt(e.target.value, 10) || 3)}
+          style={inputStyle}
+        />
+      </label>
+      <select value={mode} onChange={(e) => onModeChange(e.target.value as PolygonMode)} style={inputStyle}>
+        <option value="inscribed">Inscribed</option>
+        <option value="circumscribed">Circumscribed</option>
+      </select>
+    </div>
+  );
+}
+
+const inputStyle = {
+  minWidth: '60px',
+  padding: '4px',
+  backgroundColor: '#1e1e1e',
+  color: 'white',
+  border: '1px solid #3c3c3c',
+  borderRadius: '3px'
+} as React.CSSProperties;
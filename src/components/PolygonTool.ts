@@ -0,0 +1,316 @@
+import * as THREE from 'three';
+import { SnapMarker, clearSnapInference, getSnapTargets, snapPoint } from '../utils/snapping';
+
+type DrawableObject = THREE.Mesh;
+
+/** Whether the radius reaches the polygon's corners or the middle of its sides. */
+export type PolygonMode = 'inscribed' | 'circumscribed';
+
+const MIN_SIDES = 3;
+const MAX_SIDES = 64;
+const MIN_RADIUS = 0.01;
+
+/**
+ * Draws regular polygons on the ground plane. The first click places the
+ * center and the second one sets the radius and which way the polygon faces.
+ * While drawing, a typed number followed by Enter sets the radius, and a number
+ * followed by "s" (for example "6s") sets the side count. The result is the
+ * same bordered face CircleTool draws, with its shape kept on it so
+ * ExtrudeTool can pull it up.
+ */
+export class PolygonTool {
+  private center: THREE.Vector3 | null = null;
+  private previewMesh: THREE.Mesh | null = null;
+  private radius = 0;
+  private angle = 0;
+  private typed = '';
+  private sides = 6;
+  private mode: PolygonMode = 'inscribed';
+  private scene: THREE.Scene;
+  private camera: THREE.Camera;
+  private renderer: THREE.WebGLRenderer;
+  private controls?: {
+    enabled: boolean;
+  };
+  private onCancel: (() => void) | null = null;
+  private onChange?: (radius: number, typed: string, sides: number) => void;
+  private marker: SnapMarker;
+  private history: DrawableObject[] = [];
+  private historyIndex: number = -1;
+  private originalControlsEnabled: boolean = true;
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    renderer: THREE.WebGLRenderer,
+    onCancel: () => void,
+    controls?: { enabled: boolean }
+  ) {
+    this.scene = scene;
+    this.camera = camera;
+    this.renderer = renderer;
+    this.controls = controls;
+    this.onCancel = onCancel;
+    this.marker = new SnapMarker(scene);
+  }
+
+  /** Called with the radius, the text typed so far and the side count whenever one changes. */
+  public setOnChange(callback: (radius: number, typed: string, sides: number) => void) {
+    this.onChange = callback;
+  }
+
+  public getSides(): number {
+    return this.sides;
+  }
+
+  public setSides(sides: number) {
+    this.sides = THREE.MathUtils.clamp(Math.round(sides), MIN_SIDES, MAX_SIDES);
+    this.notifyChange();
+    if (this.center) this.updatePreview();
+  }
+
+  public getMode(): PolygonMode {
+    return this.mode;
+  }
+
+  public setMode(mode: PolygonMode) {
+    this.mode = mode;
+    if (this.center) this.updatePreview();
+  }
+
+  private getIntersectionPoint(event: MouseEvent): THREE.Vector3 | null {
+    const snap = snapPoint(event, this.camera, this.renderer.domElement, getSnapTargets(this.scene, [this.previewMesh]), { from: this.center });
+    if (!snap) {
+      this.marker.hide();
+      return null;
+    }
+    this.marker.show(snap);
+
+    // Polygons are drawn on the ground plane at y=0, below the point snapped to
+    return snap.point.clone().setY(0);
+  }
+
+  /**
+   * The polygon's outline around its center, in the fill's local XY plane. The
+   * radius points along `angle` to a corner when inscribed, or to the middle of
+   * a side when circumscribed.
+   */
+  private createPolygonShape(radius: number, angle: number): THREE.Shape {
+    const halfStep = Math.PI / this.sides;
+    const cornerRadius = this.mode === 'inscribed' ? radius : radius / Math.cos(halfStep);
+    const firstCorner = this.mode === 'inscribed' ? angle : angle - halfStep;
+
+    const shape = new THREE.Shape();
+    for (let i = 0; i < this.sides; i++) {
+      const cornerAngle = firstCorner + i * 2 * halfStep;
+      const x = Math.cos(cornerAngle) * cornerRadius;
+      const y = Math.sin(cornerAngle) * cornerRadius;
+      if (i === 0) {
+        shape.moveTo(x, y);
+      } else {
+        shape.lineTo(x, y);
+      }
+    }
+    shape.closePath();
+    return shape;
+  }
+
+  /**
+   * Builds the polygon as a face lying on the ground, the way CircleTool does:
+   * the shape is drawn in the mesh's local XY plane and the mesh is turned so
+   * its local Z points up.
+   */
+  private createPolygonFace(center: THREE.Vector3, radius: number, angle: number): THREE.Mesh {
+    const shape = this.createPolygonShape(Math.max(radius, MIN_RADIUS), angle);
+
+    const fillMaterial = new THREE.MeshBasicMaterial({
+      color: 0xffffff,
+      transparent: true,
+      opacity: 0.9,
+      side: THREE.DoubleSide,
+      depthWrite: false
+    });
+    const face = new THREE.Mesh(new THREE.ShapeGeometry(shape), fillMaterial);
+    face.rotation.x = -Math.PI / 2;
+    face.position.set(center.x, 0.001, center.z);
+
+    const borderPoints = shape.getPoints().map(point => new THREE.Vector3(point.x, point.y, 0.001));
+    const borderMaterial = new THREE.LineBasicMaterial({
+      color: 0x888888,
+      transparent: true,
+      opacity: 0.8
+    });
+    face.add(new THREE.LineLoop(new THREE.BufferGeometry().setFromPoints(borderPoints), borderMaterial));
+
+    face.name = 'Polygon';
+    face.userData = {
+      isFace: true,
+      baseShape: shape
+    };
+    return face;
+  }
+
+  private updatePreview() {
+    if (!this.center) return;
+
+    this.removePreview();
+    this.previewMesh = this.createPolygonFace(this.center, this.radius, this.angle);
+    this.scene.add(this.previewMesh);
+  }
+
+  private removePreview() {
+    if (!this.previewMesh) return;
+
+    this.scene.remove(this.previewMesh);
+    this.previewMesh.traverse((child) => {
+      if (child instanceof THREE.Mesh || child instanceof THREE.Line) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+    this.previewMesh = null;
+  }
+
+  private notifyChange() {
+    this.onChange?.(this.radius, this.typed, this.sides);
+  }
+
+  private finishPolygon(radius: number) {
+    if (!this.center || radius < MIN_RADIUS) return;
+
+    const polygon = this.createPolygonFace(this.center, radius, this.angle);
+    this.scene.add(polygon);
+
+    this.history = this.history.slice(0, this.historyIndex + 1);
+    this.history.push(polygon);
+    this.historyIndex++;
+
+    this.resetDrawing();
+  }
+
+  /**
+   * The face is turned to lie flat, so a ground direction (x, z) is (x, -z) in
+   * its local plane.
+   */
+  private setPointer(point: THREE.Vector3) {
+    if (!this.center) return;
+    this.angle = Math.atan2(-(point.z - this.center.z), point.x - this.center.x);
+  }
+
+  private onMouseDown = (event: MouseEvent) => {
+    if (event.button !== 0) return; // Only left click
+
+    const point = this.getIntersectionPoint(event);
+    if (!point) return;
+
+    if (!this.center) {
+      // Keep the camera still while the polygon is being drawn
+      if (this.controls) {
+        this.originalControlsEnabled = this.controls.enabled;
+        this.controls.enabled = false;
+      }
+      this.center = point.clone();
+      this.angle = 0;
+      this.typed = '';
+      this.radius = 0;
+      this.notifyChange();
+      this.updatePreview();
+    } else {
+      this.setPointer(point);
+      const typedRadius = parseFloat(this.typed);
+      this.finishPolygon(Number.isNaN(typedRadius) ? this.center.distanceTo(point) : typedRadius);
+    }
+  };
+
+  private onMouseMove = (event: MouseEvent) => {
+    const point = this.getIntersectionPoint(event);
+    if (!point || !this.center) return;
+
+    // A typed radius stays put; the mouse only turns the polygon
+    this.setPointer(point);
+    if (Number.isNaN(parseFloat(this.typed))) {
+      this.radius = this.center.distanceTo(point);
+      this.notifyChange();
+    }
+    this.updatePreview();
+  };
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    // Leave typing in form fields alone
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+    if (event.key === 'Escape') {
+      this.resetDrawing();
+      this.onCancel?.();
+      return;
+    }
+    if (!this.center) return;
+
+    if (/^[0-9.]$/.test(event.key)) {
+      this.typed += event.key;
+    } else if (event.key === 'Backspace') {
+      this.typed = this.typed.slice(0, -1);
+    } else if (event.key.toLowerCase() === 's') {
+      // "6s" sets the side count rather than the radius
+      const sides = parseInt(this.typed, 10);
+      if (!Number.isNaN(sides)) this.setSides(sides);
+      this.typed = '';
+    } else if (event.key === 'Enter') {
+      const radius = parseFloat(this.typed);
+      if (!Number.isNaN(radius)) this.finishPolygon(radius);
+      return;
+    } else {
+      return;
+    }
+
+    event.preventDefault();
+    const radius = parseFloat(this.typed);
+    if (!Number.isNaN(radius)) this.radius = radius;
+    this.notifyChange();
+    this.updatePreview();
+  };
+
+  private resetDrawing() {
+    if (this.center && this.controls) {
+      this.controls.enabled = this.originalControlsEnabled;
+    }
+    this.removePreview();
+    this.center = null;
+    this.radius = 0;
+    this.typed = '';
+    this.notifyChange();
+  }
+
+  public enable() {
+    this.renderer.domElement.addEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.addEventListener('mousemove', this.onMouseMove);
+    window.addEventListener('keydown', this.onKeyDown);
+  }
+
+  public disable() {
+    this.renderer.domElement.removeEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.removeEventListener('mousemove', this.onMouseMove);
+    window.removeEventListener('keydown', this.onKeyDown);
+    this.resetDrawing();
+    this.marker.dispose();
+    clearSnapInference();
+  }
+
+  public undo() {
+    if (this.historyIndex >= 0) {
+      const lastObject = this.history[this.historyIndex];
+      this.scene.remove(lastObject);
+      this.historyIndex--;
+    }
+  }
+
+  public redo() {
+    if (this.historyIndex < this.history.length - 1) {
+      this.historyIndex++;
+      const nextObject = this.history[this.historyIndex];
+      this.scene.add(nextObject);
+    }
+  }
+}
+
+export default PolygonTool;
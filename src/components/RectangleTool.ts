@@ -1,11 +1,44 @@
 import * as THREE from 'three';
 import { ExtrudeTool } from './ExtrudeTool';
+import { pickPoint } from '../utils/picking';
+import { SnapMarker, clearSnapInference, getEdges, getSnapTargets, snapPoint } from '../utils/snapping';
 
 type DrawableObject = THREE.Mesh;
 
+const MIN_SIZE = 0.1;
+
+/** Faces whose normal is this close to horizontal count as walls. */
+const VERTICAL_TOLERANCE = 0.01;
+
+/** How far, in metres, an edge may be off a face and still count as one of its edges. */
+const PLANE_TOLERANCE = 1e-3;
+
+/**
+ * The plane a rectangle is drawn on. Its sides run along `xAxis` and `yAxis`,
+ * and `normal` is their cross product, facing the camera.
+ */
+interface DrawingPlane {
+  normal: THREE.Vector3;
+  xAxis: THREE.Vector3;
+  yAxis: THREE.Vector3;
+  plane: THREE.Plane;
+}
+
+/**
+ * Draws rectangles by dragging, or by clicking two opposite corners, on the
+ * face under the first corner or on the ground. On a face the sides follow
+ * the edges of the object it belongs to; on walls they run level and plumb.
+ * After the first corner, typing a width and depth such as "4,3" and pressing
+ * Enter finishes a rectangle of that size towards the mouse. The finished
+ * rectangle is extruded 1 m out of the face it was drawn on.
+ */
 export class RectangleTool {
   private isDrawing: boolean = false;
   private startPoint: THREE.Vector3 | null = null;
+  private endPoint: THREE.Vector3 | null = null;
+  private drawingPlane: DrawingPlane | null = null;
+  private typedDimensions = '';
+  private onTypedDimensionsChange?: (typedDimensions: string) => void;
   private currentMesh: THREE.Mesh | null = null;
   private scene: THREE.Scene;
   private camera: THREE.Camera;
@@ -14,6 +47,7 @@ export class RectangleTool {
     enabled: boolean;
   };
   private onCancel: (() => void) | null = null;
+  private marker: SnapMarker;
   private history: DrawableObject[] = [];
   private historyIndex: number = -1;
   private originalControlsEnabled: boolean = true;
@@ -24,92 +58,142 @@ export class RectangleTool {
     this.renderer = renderer;
     this.controls = controls;
     this.onCancel = onCancel;
+    this.marker = new SnapMarker(scene);
+  }
+
+  /** Called with the width and depth being typed, or an empty string once they are used or dropped. */
+  public setOnTypedDimensionsChange(callback: (typedDimensions: string) => void) {
+    this.onTypedDimensionsChange = callback;
   }
 
   private getIntersectionPoint(event: MouseEvent): THREE.Vector3 | null {
-    const mouse = new THREE.Vector2();
-    const rect = this.renderer.domElement.getBoundingClientRect();
-    
-    mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
-    mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+    const snap = snapPoint(event, this.camera, this.renderer.domElement, getSnapTargets(this.scene, [this.currentMesh]), {
+      from: this.startPoint,
+      plane: this.drawingPlane?.plane
+    });
+    if (!snap) {
+      this.marker.hide();
+      return null;
+    }
+    this.marker.show(snap);
 
-    const raycaster = new THREE.Raycaster();
-    raycaster.setFromCamera(mouse, this.camera);
+    // Once the first corner is down, the other one stays on its plane
+    return this.drawingPlane ? this.drawingPlane.plane.projectPoint(snap.point, new THREE.Vector3()) : snap.point.clone();
+  }
 
-    // Always use a flat ground plane at y=0
-    const groundPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
-    const intersection = new THREE.Vector3();
-    
-    if (raycaster.ray.intersectPlane(groundPlane, intersection)) {
-        // Ensure the point is exactly on the ground plane
-        intersection.y = 0;
-        return intersection;
+  /**
+   * The direction of the edge of the face through `point` that runs nearest to
+   * it, or null when the mesh has no edges worked out or none lie in the face.
+   */
+  private getNearestFaceEdge(mesh: THREE.Mesh, point: THREE.Vector3, normal: THREE.Vector3): THREE.Vector3 | null {
+    const edges = getEdges(mesh.geometry);
+    if (!edges) return null;
+
+    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(normal, point);
+    const positions = edges.attributes.position;
+    const edge = new THREE.Line3();
+    const onEdge = new THREE.Vector3();
+    let nearest: { direction: THREE.Vector3; distance: number } | null = null;
+    for (let i = 0; i < positions.count; i += 2) {
+      edge.start.fromBufferAttribute(positions, i).applyMatrix4(mesh.matrixWorld);
+      edge.end.fromBufferAttribute(positions, i + 1).applyMatrix4(mesh.matrixWorld);
+      if (Math.abs(plane.distanceToPoint(edge.start)) > PLANE_TOLERANCE || Math.abs(plane.distanceToPoint(edge.end)) > PLANE_TOLERANCE) continue;
+
+      const distance = edge.closestPointToPoint(point, true, onEdge).distanceTo(point);
+      const direction = edge.delta(new THREE.Vector3());
+      if (direction.lengthSq() > 1e-12 && (!nearest || distance < nearest.distance)) {
+        nearest = { direction: direction.normalize(), distance };
+      }
     }
-    
-    return null;
+    return nearest?.direction ?? null;
   }
 
-  private createRectangleMesh(startPoint: THREE.Vector3, endPoint: THREE.Vector3): THREE.Mesh {
-    const width = Math.abs(endPoint.x - startPoint.x);
-    const depth = Math.abs(endPoint.z - startPoint.z);
-    
-    // Ensure minimum size
-    const minSize = 0.1;
-    const actualWidth = Math.max(width, minSize);
-    const actualDepth = Math.max(depth, minSize);
-    
-    // Create a group to hold both the fill and border
-    const group = new THREE.Group();
-    
-    // Create fill (white, semi-transparent)
-    const fillGeometry = new THREE.PlaneGeometry(actualWidth, actualDepth);
-    const fillMaterial = new THREE.MeshBasicMaterial({ 
+  /**
+   * The plane through `point` of the face under the mouse, or of the ground.
+   * Walls get level and plumb sides; other faces line up with their edge
+   * nearest the mouse, or else with the object's own axis that lies most
+   * nearly in the face.
+   */
+  private getDrawingPlane(event: MouseEvent, point: THREE.Vector3): DrawingPlane {
+    const pick = pickPoint(event, this.camera, this.renderer.domElement, getSnapTargets(this.scene, [this.currentMesh]));
+    const normal = pick?.object ? pick.normal.clone() : new THREE.Vector3(0, 1, 0);
+    const up = new THREE.Vector3(0, 1, 0);
+
+    let xAxis: THREE.Vector3;
+    if (Math.abs(normal.y) < VERTICAL_TOLERANCE) {
+      normal.setY(0).normalize();
+      xAxis = new THREE.Vector3().crossVectors(up, normal).normalize();
+    } else {
+      const edgeAxis = pick?.object instanceof THREE.Mesh ? this.getNearestFaceEdge(pick.object, point, normal) : null;
+      const objectAxes = pick?.object
+        ? [0, 2, 1].map(column => new THREE.Vector3().setFromMatrixColumn(pick.object!.matrixWorld, column).normalize())
+        : [new THREE.Vector3(1, 0, 0)];
+      const axes = edgeAxis ? [edgeAxis] : objectAxes;
+      // The axis that keeps the most length when laid onto the face
+      xAxis = axes
+        .map(axis => axis.addScaledVector(normal, -axis.dot(normal)))
+        .reduce((best, axis) => axis.lengthSq() > best.lengthSq() + 1e-6 ? axis : best)
+        .normalize();
+    }
+    const yAxis = new THREE.Vector3().crossVectors(normal, xAxis);
+
+    return { normal, xAxis, yAxis, plane: new THREE.Plane().setFromNormalAndCoplanarPoint(normal, point) };
+  }
+
+  /** The sides of the rectangle from the first corner to `endPoint`, along the plane's axes. */
+  private getSides(startPoint: THREE.Vector3, endPoint: THREE.Vector3, drawingPlane: DrawingPlane): { width: number; depth: number } {
+    const diagonal = endPoint.clone().sub(startPoint);
+    return { width: diagonal.dot(drawingPlane.xAxis), depth: diagonal.dot(drawingPlane.yAxis) };
+  }
+
+  /**
+   * Builds the rectangle as a face on the drawing plane: the shape is drawn in
+   * the mesh's local XY plane, centred on the origin, and the mesh is turned so
+   * its local Z is the plane's normal.
+   */
+  private createRectangleFace(startPoint: THREE.Vector3, endPoint: THREE.Vector3, drawingPlane: DrawingPlane): THREE.Mesh {
+    const { width, depth } = this.getSides(startPoint, endPoint, drawingPlane);
+    const halfW = Math.max(Math.abs(width), MIN_SIZE) / 2;
+    const halfD = Math.max(Math.abs(depth), MIN_SIZE) / 2;
+
+    const shape = new THREE.Shape();
+    shape.moveTo(-halfW, -halfD);
+    shape.lineTo(halfW, -halfD);
+    shape.lineTo(halfW, halfD);
+    shape.lineTo(-halfW, halfD);
+    shape.closePath();
+
+    const fillMaterial = new THREE.MeshBasicMaterial({
       color: 0xffffff,  // White
       transparent: true,
       opacity: 0.9,
       side: THREE.DoubleSide,
       depthWrite: false
     });
-    
-    const fill = new THREE.Mesh(fillGeometry, fillMaterial);
-    fill.rotation.x = -Math.PI / 2; // Rotate to be horizontal
-    fill.position.y = 0.001; // Slightly above ground
-    
-    // Create border (light gray) - using ShapeGeometry for precise border
-    const borderShape = new THREE.Shape();
-    const halfW = actualWidth / 2;
-    const halfD = actualDepth / 2;
-    
-    borderShape.moveTo(-halfW, -halfD);
-    borderShape.lineTo(halfW, -halfD);
-    borderShape.lineTo(halfW, halfD);
-    borderShape.lineTo(-halfW, halfD);
-    borderShape.lineTo(-halfW, -halfD);
-    
-    const borderGeometry = new THREE.ShapeGeometry(borderShape);
-    const borderEdges = new THREE.EdgesGeometry(borderGeometry);
-    const borderMaterial = new THREE.LineBasicMaterial({ 
+    const face = new THREE.Mesh(new THREE.ShapeGeometry(shape), fillMaterial);
+
+    const { normal, xAxis, yAxis } = drawingPlane;
+    face.quaternion.setFromRotationMatrix(new THREE.Matrix4().makeBasis(xAxis, yAxis, normal));
+    // Centred between the corners, slightly off the face it is drawn on
+    face.position.copy(startPoint)
+      .addScaledVector(xAxis, width / 2)
+      .addScaledVector(yAxis, depth / 2)
+      .addScaledVector(normal, 0.001);
+
+    const borderPoints = shape.getPoints().map(point => new THREE.Vector3(point.x, point.y, 0.001));
+    const borderMaterial = new THREE.LineBasicMaterial({
       color: 0x888888,  // Slightly darker gray for better visibility
-      linewidth: 1.5,
       transparent: true,
       opacity: 0.8
     });
-    
-    const border = new THREE.LineSegments(borderEdges, borderMaterial);
-    border.rotation.x = -Math.PI / 2; // Rotate to be horizontal
-    border.position.y = 0.002; // Slightly above the fill
-    
-    // Add both to group
-    group.add(fill);
-    group.add(border);
-    
-    // Position the group at the center between start and end points
-    const centerX = (startPoint.x + endPoint.x) / 2;
-    const centerZ = (startPoint.z + endPoint.z) / 2;
-    
-    group.position.set(centerX, 0, centerZ);
-    
-    return group as unknown as THREE.Mesh;
+    face.add(new THREE.LineLoop(new THREE.BufferGeometry().setFromPoints(borderPoints), borderMaterial));
+
+    face.name = 'Rectangle';
+    face.userData = {
+      isFace: true,
+      baseShape: shape
+    };
+    return face;
   }
 
   private onMouseDown = (event: MouseEvent) => {
@@ -117,6 +201,12 @@ export class RectangleTool {
     
     const point = this.getIntersectionPoint(event);
     if (!point) return;
+
+    // The second click of a click-click rectangle places the opposite corner
+    if (this.isDrawing) {
+      this.finishRectangle(point);
+      return;
+    }
     
     // Disable camera controls when starting to draw
     if (this.controls) {
@@ -126,38 +216,83 @@ export class RectangleTool {
     
     this.isDrawing = true;
     this.startPoint = point.clone();
+    this.endPoint = point.clone();
+    this.drawingPlane = this.getDrawingPlane(event, point);
     
     // Create initial rectangle
-    this.currentMesh = this.createRectangleMesh(this.startPoint, this.startPoint);
+    this.currentMesh = this.createRectangleFace(this.startPoint, this.startPoint, this.drawingPlane);
     this.scene.add(this.currentMesh);
   };
 
   private onMouseMove = (event: MouseEvent) => {
-    if (!this.isDrawing || !this.startPoint || !this.currentMesh) return;
-    
     const point = this.getIntersectionPoint(event);
-    if (!point) return;
+    if (!point || !this.isDrawing || !this.startPoint || !this.drawingPlane || !this.currentMesh) return;
     
     // Update rectangle dimensions
-    this.scene.remove(this.currentMesh);
-    this.currentMesh = this.createRectangleMesh(this.startPoint!, point);
+    this.endPoint = point.clone();
+    this.removePreview();
+    this.currentMesh = this.createRectangleFace(this.startPoint, point, this.drawingPlane);
     this.scene.add(this.currentMesh);
   };
 
   private onMouseUp = () => {
-    if (!this.isDrawing || !this.currentMesh || !this.startPoint) return;
-    
-    // Get the rectangle dimensions
-    const endPoint = this.getRectangleEndPoint(this.currentMesh);
-    if (!endPoint) {
-      this.resetDrawing();
+    if (!this.isDrawing || !this.startPoint || !this.endPoint || !this.drawingPlane) return;
+
+    // Without a drag, keep drawing until the opposite corner is clicked or typed
+    const { width, depth } = this.getSides(this.startPoint, this.endPoint, this.drawingPlane);
+    if (Math.abs(width) < MIN_SIZE && Math.abs(depth) < MIN_SIZE) return;
+
+    this.finishRectangle(this.endPoint);
+  };
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    // Leave typing in form fields alone
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+    if (!this.isDrawing) return;
+
+    if (/^[0-9.,]$/.test(event.key)) {
+      this.setTypedDimensions(this.typedDimensions + event.key);
+    } else if (event.key === 'Backspace' && this.typedDimensions) {
+      this.setTypedDimensions(this.typedDimensions.slice(0, -1));
+    } else if (event.key === 'Enter' && this.typedDimensions) {
+      this.finishTypedDimensions();
+    } else {
       return;
     }
-    
-    // Create a shape from the rectangle
-    const shape = this.createRectangleShape(this.startPoint, endPoint);
-    
-    // Create an extruded mesh
+    event.preventDefault();
+  };
+
+  private setTypedDimensions(typedDimensions: string) {
+    if (typedDimensions === this.typedDimensions) return;
+    this.typedDimensions = typedDimensions;
+    this.onTypedDimensionsChange?.(typedDimensions);
+  }
+
+  /**
+   * Finishes a rectangle of the typed width and depth, along the drawing
+   * plane's axes (X and Z on the ground), towards the mouse.
+   */
+  private finishTypedDimensions() {
+    if (!this.startPoint || !this.drawingPlane) return;
+
+    const [width, depth] = this.typedDimensions.split(',').map(value => parseFloat(value));
+    if (!(width >= MIN_SIZE) || !(depth >= MIN_SIZE)) return;
+
+    const toMouse = this.endPoint
+      ? this.getSides(this.startPoint, this.endPoint, this.drawingPlane)
+      : { width: 0, depth: 0 };
+    this.finishRectangle(this.startPoint.clone()
+      .addScaledVector(this.drawingPlane.xAxis, toMouse.width < 0 ? -width : width)
+      .addScaledVector(this.drawingPlane.yAxis, toMouse.depth < 0 ? -depth : depth));
+  }
+
+  private finishRectangle(endPoint: THREE.Vector3) {
+    if (!this.startPoint || !this.drawingPlane) return;
+
+    const face = this.createRectangleFace(this.startPoint, endPoint, this.drawingPlane);
+    this.scene.add(face);
+
+    // Rectangles come out as 1 m extrusions standing out of the face they were drawn on
     const extrudeTool = new ExtrudeTool(
       this.scene,
       this.camera,
@@ -165,12 +300,11 @@ export class RectangleTool {
       () => {},
       this.controls
     );
-    
-    // Add the extruded mesh to the scene
-    extrudeTool.createExtrusion(shape, 1, this.getRectangleCenter(this.startPoint, endPoint));
-    
-    // Remove the temporary rectangle
-    this.scene.remove(this.currentMesh);
+    extrudeTool.extrudeFace(face, 1);
+
+    this.history = this.history.slice(0, this.historyIndex + 1);
+    this.history.push(face);
+    this.historyIndex++;
     
     // Re-enable camera controls if they were enabled before
     if (this.controls) {
@@ -178,66 +312,45 @@ export class RectangleTool {
     }
     
     this.resetDrawing();
-  };
-  
-  private getRectangleEndPoint(mesh: THREE.Mesh): THREE.Vector3 | null {
-    if (!mesh.geometry) return null;
-    
-    const box = new THREE.Box3().setFromObject(mesh);
-    const size = new THREE.Vector3();
-    box.getSize(size);
-    
-    return new THREE.Vector3(
-      mesh.position.x + size.x / 2,
-      0,
-      mesh.position.z + size.z / 2
-    );
   }
   
-  private getRectangleCenter(startPoint: THREE.Vector3, endPoint: THREE.Vector3): THREE.Vector3 {
-    return new THREE.Vector3(
-      (startPoint.x + endPoint.x) / 2,
-      0,
-      (startPoint.z + endPoint.z) / 2
-    );
-  }
-  
-  private createRectangleShape(startPoint: THREE.Vector3, endPoint: THREE.Vector3): THREE.Shape {
-    const width = Math.abs(endPoint.x - startPoint.x);
-    const depth = Math.abs(endPoint.z - startPoint.z);
-    const minSize = 0.1;
-    const actualWidth = Math.max(width, minSize);
-    const actualDepth = Math.max(depth, minSize);
-    
-    const shape = new THREE.Shape();
-    const halfW = actualWidth / 2;
-    const halfD = actualDepth / 2;
-    
-    shape.moveTo(-halfW, -halfD);
-    shape.lineTo(halfW, -halfD);
-    shape.lineTo(halfW, halfD);
-    shape.lineTo(-halfW, halfD);
-    shape.lineTo(-halfW, -halfD);
-    
-    return shape;
+  private removePreview() {
+    if (!this.currentMesh) return;
+
+    this.scene.remove(this.currentMesh);
+    this.currentMesh.geometry.dispose();
+    (this.currentMesh.material as THREE.Material).dispose();
+    this.currentMesh.children.forEach(child => {
+      if (child instanceof THREE.LineLoop) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+    this.currentMesh = null;
   }
 
   private resetDrawing() {
+    // Remove the temporary rectangle
+    this.removePreview();
     this.isDrawing = false;
     this.startPoint = null;
-    this.currentMesh = null;
+    this.endPoint = null;
+    this.drawingPlane = null;
+    this.setTypedDimensions('');
   }
 
   public enable() {
     this.renderer.domElement.addEventListener('mousedown', this.onMouseDown);
     this.renderer.domElement.addEventListener('mousemove', this.onMouseMove);
     this.renderer.domElement.addEventListener('mouseup', this.onMouseUp);
+    window.addEventListener('keydown', this.onKeyDown);
   }
 
   public disable() {
     this.renderer.domElement.removeEventListener('mousedown', this.onMouseDown);
     this.renderer.domElement.removeEventListener('mousemove', this.onMouseMove);
     this.renderer.domElement.removeEventListener('mouseup', this.onMouseUp);
+    window.removeEventListener('keydown', this.onKeyDown);
     
     // Make sure to re-enable controls when disabling the tool
     if (this.controls) {
@@ -247,6 +360,8 @@ export class RectangleTool {
     // Remove any existing timer if needed
     
     this.resetDrawing();
+    this.marker.dispose();
+    clearSnapInference();
   }
 
   public undo() {
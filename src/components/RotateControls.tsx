@@ -0,0 +1,46 @@
+import type { Axis } from '../utils/axes';
+
+interface RotateControlsProps {
+  angle: number;
+  typed: string;
+  axis: Axis;
+  visible: boolean;
+}
+
+export default function RotateControls({ angle, typed, axis, visible }: RotateControlsProps) {
+  if (!visible) return null;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      bottom: '80px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      padding: '10px 20px',
+      borderRadius: '4px',
+      color: 'white',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '15px',
+      zIndex: 1000,
+      boxShadow: '0 2px 10px rgba(0,0,0,0.2)'
+    }}>
+      <div style={{ fontSize: '0.9em', minWidth: '110px' }} title="Type an angle in degrees and press Enter">
+        Angle: {typed ? `${typed}_` : `${angle.toFixed(1)}°`}
+      </div>
+      <div style={{ fontSize: '0.9em', color: axisColors[axis] }}>
+        About {axis.toUpperCase()}
+      </div>
+      <div style={{ fontSize: '0.8em', color: '#aaa' }}>
+        Snaps to 15° · Shift for free angles
+      </div>
+    </div>
+  );
+}
+
+const axisColors = {
+  x: '#ff4d4d',
+  y: '#4dff4d',
+  z: '#4d8cff'
+} as const;
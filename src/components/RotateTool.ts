@@ -0,0 +1,405 @@
+import * as THREE from 'three';
+import { AXIS_COLORS, AXIS_VECTORS, axisFromArrowKey } from '../utils/axes';
+import type { Axis } from '../utils/axes';
+import { getPickedRoot, getPointerRay } from '../utils/picking';
+import { SnapMarker, clearSnapInference, snapPoint } from '../utils/snapping';
+import type { SnapResult } from '../utils/snapping';
+
+/** One rotation, kept so it can be undone. */
+interface RotateOperation {
+  objects: THREE.Object3D[];
+  fromPositions: THREE.Vector3[];
+  fromQuaternions: THREE.Quaternion[];
+  toPositions: THREE.Vector3[];
+  toQuaternions: THREE.Quaternion[];
+}
+
+const SNAP_STEP = THREE.MathUtils.degToRad(15);
+const DEFAULT_PROTRACTOR_RADIUS = 1;
+
+/**
+ * Rotates objects about an axis through a center point, shown with an on-screen
+ * protractor. The first click places the center, snapped to the scene, the
+ * second sets the reference direction and the third the target angle, which
+ * snaps to 15° steps unless Shift is held. A typed angle in degrees followed by Enter rotates exactly.
+ * The axis is vertical unless an arrow key locks it to X (right), Y (up) or
+ * Z (left). The selection when the tool is switched on is rotated, or else the
+ * object under the center.
+ */
+export class RotateTool {
+  private scene: THREE.Scene;
+  private camera: THREE.Camera;
+  private renderer: THREE.WebGLRenderer;
+  private controls?: {
+    enabled: boolean;
+  };
+  private onCancel: (() => void) | null = null;
+  private onChange?: (angle: number, typed: string, axis: Axis) => void;
+  private targets: THREE.Object3D[] = [];
+  private rotating: THREE.Object3D[] = [];
+  private startPositions: THREE.Vector3[] = [];
+  private startQuaternions: THREE.Quaternion[] = [];
+  private center: THREE.Vector3 | null = null;
+  private reference: THREE.Vector3 | null = null;
+  private pointer: THREE.Vector3 | null = null;
+  private angle = 0;
+  private axis: Axis = 'y';
+  private typed = '';
+  private protractor: THREE.Group | null = null;
+  private marker: SnapMarker;
+  private history: RotateOperation[] = [];
+  private historyIndex: number = -1;
+  private originalControlsEnabled: boolean = true;
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    renderer: THREE.WebGLRenderer,
+    onCancel: () => void,
+    controls?: { enabled: boolean }
+  ) {
+    this.scene = scene;
+    this.camera = camera;
+    this.renderer = renderer;
+    this.controls = controls;
+    this.onCancel = onCancel;
+    this.marker = new SnapMarker(scene);
+  }
+
+  /** Called with the angle in degrees, the text typed so far and the rotation axis. */
+  public setOnChange(callback: (angle: number, typed: string, axis: Axis) => void) {
+    this.onChange = callback;
+  }
+
+  /** The objects to rotate, usually the selection when the tool is switched on. */
+  public setTargets(objects: THREE.Object3D[]) {
+    this.targets = [...objects];
+  }
+
+  private notifyChange() {
+    this.onChange?.(THREE.MathUtils.radToDeg(this.angle), this.typed, this.axis);
+  }
+
+  private getPickableObjects(): THREE.Object3D[] {
+    return this.scene.children.filter(child =>
+      child !== this.protractor && child.name !== 'selectionHelper' && !child.userData.isSnapMarker
+    );
+  }
+
+  /** The point under the mouse snapped to the scene, shown with the snap marker. */
+  private getSnap(event: MouseEvent): SnapResult | null {
+    const snap = snapPoint(event, this.camera, this.renderer.domElement, this.getPickableObjects());
+    if (snap) {
+      this.marker.show(snap);
+    } else {
+      this.marker.hide();
+    }
+    return snap;
+  }
+
+  /** Where the mouse is on the protractor's plane, through the center and across the axis. */
+  private getPlanePoint(event: MouseEvent): THREE.Vector3 | null {
+    if (!this.center) return null;
+
+    const ray = getPointerRay(event, this.camera, this.renderer.domElement);
+    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(AXIS_VECTORS[this.axis], this.center);
+    return ray.intersectPlane(plane, new THREE.Vector3());
+  }
+
+  /** The signed angle from the reference direction to `point`, about the axis. */
+  private getAngleTo(point: THREE.Vector3, snap: boolean): number {
+    if (!this.center || !this.reference) return 0;
+
+    const from = this.reference.clone().sub(this.center);
+    const to = point.clone().sub(this.center);
+    const axis = AXIS_VECTORS[this.axis];
+    const angle = Math.atan2(new THREE.Vector3().crossVectors(from, to).dot(axis), from.dot(to));
+    return snap ? Math.round(angle / SNAP_STEP) * SNAP_STEP : angle;
+  }
+
+  /** Turns the objects being rotated by `angle` about the axis from where they started. */
+  private applyAngle(angle: number) {
+    if (!this.center) return;
+
+    this.angle = angle;
+    const rotation = new THREE.Quaternion().setFromAxisAngle(AXIS_VECTORS[this.axis], angle);
+    this.rotating.forEach((object, index) => {
+      const world = this.startPositions[index].clone().sub(this.center!).applyQuaternion(rotation).add(this.center!);
+      const worldQuaternion = rotation.clone().multiply(this.startQuaternions[index]);
+      if (object.parent) {
+        object.position.copy(object.parent.worldToLocal(world));
+        const parentQuaternion = object.parent.getWorldQuaternion(new THREE.Quaternion());
+        object.quaternion.copy(parentQuaternion.invert().multiply(worldQuaternion));
+      } else {
+        object.position.copy(world);
+        object.quaternion.copy(worldQuaternion);
+      }
+    });
+    this.updateProtractor();
+    this.notifyChange();
+  }
+
+  /**
+   * Redraws the protractor: a ring with a tick every 15°, the reference
+   * direction and the current one, across the axis at the center.
+   */
+  private updateProtractor() {
+    this.removeProtractor();
+    if (!this.center) return;
+
+    const anchor = this.reference ?? this.pointer;
+    const radius = anchor ? Math.max(anchor.distanceTo(this.center), DEFAULT_PROTRACTOR_RADIUS) : DEFAULT_PROTRACTOR_RADIUS;
+    const color = AXIS_COLORS[this.axis];
+    const material = new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true, opacity: 0.8 });
+
+    const ring: THREE.Vector3[] = [];
+    const ticks: THREE.Vector3[] = [];
+    for (let i = 0; i < 24; i++) {
+      const tickAngle = i * SNAP_STEP;
+      const direction = new THREE.Vector3(Math.cos(tickAngle), Math.sin(tickAngle), 0);
+      ring.push(direction.clone().multiplyScalar(radius));
+      // Longer ticks every 90°
+      const length = i % 6 === 0 ? 0.15 : 0.07;
+      ticks.push(direction.clone().multiplyScalar(radius), direction.clone().multiplyScalar(radius * (1 - length)));
+    }
+
+    const group = new THREE.Group();
+    group.add(new THREE.LineLoop(new THREE.BufferGeometry().setFromPoints(ring), material));
+    group.add(new THREE.LineSegments(new THREE.BufferGeometry().setFromPoints(ticks), material));
+    group.position.copy(this.center);
+    group.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), AXIS_VECTORS[this.axis]);
+
+    // The reference and current directions are drawn in world space, so undo the group's turn
+    const toLocal = (point: THREE.Vector3) => group.worldToLocal(point.clone());
+    group.updateMatrixWorld(true);
+    if (this.reference) {
+      const current = this.reference.clone().sub(this.center)
+        .applyAxisAngle(AXIS_VECTORS[this.axis], this.angle).add(this.center);
+      const spokes = new THREE.BufferGeometry().setFromPoints([
+        new THREE.Vector3(), toLocal(this.reference),
+        new THREE.Vector3(), toLocal(current)
+      ]);
+      group.add(new THREE.LineSegments(spokes, new THREE.LineBasicMaterial({ color: 0xffa500, depthTest: false })));
+    } else if (this.pointer) {
+      const spoke = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(), toLocal(this.pointer)]);
+      group.add(new THREE.Line(spoke, new THREE.LineBasicMaterial({ color: 0xffa500, depthTest: false })));
+    }
+
+    group.renderOrder = 2;
+    group.traverse(child => { child.renderOrder = 2; });
+    this.protractor = group;
+    this.scene.add(group);
+  }
+
+  private removeProtractor() {
+    if (!this.protractor) return;
+
+    this.scene.remove(this.protractor);
+    this.protractor.traverse((child) => {
+      if (child instanceof THREE.Line) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+    this.protractor = null;
+  }
+
+  private startRotation(event: MouseEvent) {
+    const snap = this.getSnap(event);
+    if (!snap) return;
+
+    const objects = this.targets.length > 0 ? this.targets : snap.object ? [getPickedRoot(snap.object, this.scene)] : [];
+    if (objects.length === 0) return;
+    this.marker.hide();
+
+    // Keep the camera still while rotating
+    if (this.controls) {
+      this.originalControlsEnabled = this.controls.enabled;
+      this.controls.enabled = false;
+    }
+
+    this.rotating = objects;
+    this.startPositions = objects.map(object => object.getWorldPosition(new THREE.Vector3()));
+    this.startQuaternions = objects.map(object => object.getWorldQuaternion(new THREE.Quaternion()));
+    this.center = snap.point.clone();
+    this.reference = null;
+    this.pointer = null;
+    this.angle = 0;
+    this.typed = '';
+    this.updateProtractor();
+    this.notifyChange();
+  }
+
+  /** Ends the rotation at the current angle. */
+  private finishRotation() {
+    if (!this.center) return;
+
+    const operation: RotateOperation = {
+      objects: this.rotating,
+      fromPositions: [],
+      fromQuaternions: [],
+      toPositions: this.rotating.map(object => object.position.clone()),
+      toQuaternions: this.rotating.map(object => object.quaternion.clone())
+    };
+    this.applyAngle(0);
+    operation.fromPositions = this.rotating.map(object => object.position.clone());
+    operation.fromQuaternions = this.rotating.map(object => object.quaternion.clone());
+    this.rotating.forEach((object, index) => {
+      object.position.copy(operation.toPositions[index]);
+      object.quaternion.copy(operation.toQuaternions[index]);
+    });
+
+    this.history = this.history.slice(0, this.historyIndex + 1);
+    this.history.push(operation);
+    this.historyIndex++;
+
+    this.resetRotation();
+  }
+
+  private cancelRotation() {
+    this.applyAngle(0);
+    this.resetRotation();
+  }
+
+  private resetRotation() {
+    if (this.center && this.controls) {
+      this.controls.enabled = this.originalControlsEnabled;
+    }
+    this.removeProtractor();
+    this.rotating = [];
+    this.startPositions = [];
+    this.startQuaternions = [];
+    this.center = null;
+    this.reference = null;
+    this.pointer = null;
+    this.angle = 0;
+    this.typed = '';
+    this.notifyChange();
+  }
+
+  private onMouseDown = (event: MouseEvent) => {
+    if (event.button !== 0) return; // Only left click
+
+    if (!this.center) {
+      this.startRotation(event);
+    } else if (!this.reference) {
+      const point = this.getPlanePoint(event);
+      if (point && point.distanceTo(this.center) > 1e-6) {
+        this.reference = point;
+        this.updateProtractor();
+      }
+    } else {
+      const point = this.getPlanePoint(event);
+      if (point) this.applyAngle(this.getAngleTo(point, !event.shiftKey));
+      this.finishRotation();
+    }
+  };
+
+  private onMouseMove = (event: MouseEvent) => {
+    if (!this.center) {
+      this.getSnap(event);
+      return;
+    }
+
+    const point = this.getPlanePoint(event);
+    if (!point) return;
+
+    if (!this.reference) {
+      this.pointer = point;
+      this.updateProtractor();
+    } else if (!this.typed) {
+      this.applyAngle(this.getAngleTo(point, !event.shiftKey));
+    }
+  };
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    // Leave typing in form fields alone
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+    if (event.key === 'Escape') {
+      if (this.center) {
+        this.cancelRotation();
+      } else {
+        this.onCancel?.();
+      }
+      return;
+    }
+
+    const axis = axisFromArrowKey(event.key);
+    if (axis || event.key === 'ArrowDown') {
+      event.preventDefault();
+      // The reference direction lies across the old axis, so pick it again
+      this.applyAngle(0);
+      this.axis = axis ?? 'y';
+      this.reference = null;
+      this.updateProtractor();
+      this.notifyChange();
+      return;
+    }
+    if (!this.center || !this.reference) return;
+
+    if (/^[0-9.-]$/.test(event.key)) {
+      this.typed += event.key;
+    } else if (event.key === 'Backspace') {
+      this.typed = this.typed.slice(0, -1);
+    } else if (event.key === 'Enter') {
+      const angle = parseFloat(this.typed);
+      if (!Number.isNaN(angle)) {
+        this.applyAngle(THREE.MathUtils.degToRad(angle));
+        this.finishRotation();
+      }
+      return;
+    } else {
+      return;
+    }
+
+    event.preventDefault();
+    const angle = parseFloat(this.typed);
+    if (!Number.isNaN(angle)) {
+      this.applyAngle(THREE.MathUtils.degToRad(angle));
+    } else {
+      this.notifyChange();
+    }
+  };
+
+  public enable() {
+    this.renderer.domElement.addEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.addEventListener('mousemove', this.onMouseMove);
+    window.addEventListener('keydown', this.onKeyDown);
+  }
+
+  public disable() {
+    this.renderer.domElement.removeEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.removeEventListener('mousemove', this.onMouseMove);
+    window.removeEventListener('keydown', this.onKeyDown);
+    if (this.center) this.cancelRotation();
+    this.targets = [];
+    this.axis = 'y';
+    this.marker.dispose();
+    clearSnapInference();
+  }
+
+  public undo() {
+    if (this.historyIndex < 0) return;
+
+    const operation = this.history[this.historyIndex];
+    operation.objects.forEach((object, index) => {
+      object.position.copy(operation.fromPositions[index]);
+      object.quaternion.copy(operation.fromQuaternions[index]);
+    });
+    this.historyIndex--;
+  }
+
+  public redo() {
+    if (this.historyIndex >= this.history.length - 1) return;
+
+    this.historyIndex++;
+    const operation = this.history[this.historyIndex];
+    operation.objects.forEach((object, index) => {
+      object.position.copy(operation.toPositions[index]);
+      object.quaternion.copy(operation.toQuaternions[index]);
+    });
+  }
+}
+
+export default RotateTool;
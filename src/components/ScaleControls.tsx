@@ -0,0 +1,36 @@
+import * as THREE from 'three';
+
+interface ScaleControlsProps {
+  factors: THREE.Vector3;
+  typed: string;
+  visible: boolean;
+}
+
+export default function ScaleControls({ factors, typed, visible }: ScaleControlsProps) {
+  if (!visible) return null;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      bottom: '80px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      padding: '10px 20px',
+      borderRadius: '4px',
+      color: 'white',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '15px',
+      zIndex: 1000,
+      boxShadow: '0 2px 10px rgba(0,0,0,0.2)'
+    }}>
+      <div style={{ fontSize: '0.9em', minWidth: '160px' }} title='Type a factor ("2") or a size ("3m") and press Enter'>
+        Scale: {typed ? `${typed}_` : `${factors.x.toFixed(2)} × ${factors.y.toFixed(2)} × ${factors.z.toFixed(2)}`}
+      </div>
+      <div style={{ fontSize: '0.8em', color: '#aaa' }}>
+        Ctrl about center · Shift uniform
+      </div>
+    </div>
+  );
+}
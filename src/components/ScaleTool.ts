@@ -0,0 +1,436 @@
+import * as THREE from 'three';
+import { AXIS_VECTORS } from '../utils/axes';
+import type { Axis } from '../utils/axes';
+import { closestPointOnLine, getPickedRoot, getPointerRay } from '../utils/picking';
+import { SnapMarker, clearSnapInference, snapPoint } from '../utils/snapping';
+import type { SnapResult } from '../utils/snapping';
+
+/** One scaling, kept so it can be undone. */
+interface ScaleOperation {
+  objects: THREE.Object3D[];
+  fromPositions: THREE.Vector3[];
+  fromScales: THREE.Vector3[];
+  toPositions: THREE.Vector3[];
+  toScales: THREE.Vector3[];
+}
+
+/** A grip's side of the box along each axis: -1, 0 (the middle) or 1. */
+type GripSide = [number, number, number];
+
+const AXES: Axis[] = ['x', 'y', 'z'];
+const MIN_FACTOR = 0.01;
+
+/**
+ * Scales objects with grips on their bounding box: eight corners, twelve edges
+ * and six faces. Clicking a grip picks it up and the next click puts it down,
+ * with the opposite grip staying where it is; holding Ctrl scales about the
+ * center instead, and Shift scales evenly in all directions. While scaling, a
+ * typed factor ("2") or a target size along the grip's direction ("3m")
+ * followed by Enter scales exactly. The selection when the tool is switched on
+ * is scaled, or else the object clicked first.
+ *
+ * Scaling follows the scene axes. An object turned away from them is scaled
+ * along its own axes by how much each one is stretched, which only matches the
+ * grips exactly for turns of 90°.
+ */
+export class ScaleTool {
+  private scene: THREE.Scene;
+  private camera: THREE.Camera;
+  private renderer: THREE.WebGLRenderer;
+  private controls?: {
+    enabled: boolean;
+  };
+  private onCancel: (() => void) | null = null;
+  private onChange?: (factors: THREE.Vector3, typed: string) => void;
+  private targets: THREE.Object3D[] = [];
+  private bounds = new THREE.Box3();
+  private grips: THREE.Group | null = null;
+  private marker: SnapMarker;
+  private activeGrip: GripSide | null = null;
+  private startPositions: THREE.Vector3[] = [];
+  private startScales: THREE.Vector3[] = [];
+  private factors = new THREE.Vector3(1, 1, 1);
+  private aboutCenter = false;
+  private uniform = false;
+  private typed = '';
+  private history: ScaleOperation[] = [];
+  private historyIndex: number = -1;
+  private originalControlsEnabled: boolean = true;
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    renderer: THREE.WebGLRenderer,
+    onCancel: () => void,
+    controls?: { enabled: boolean }
+  ) {
+    this.scene = scene;
+    this.camera = camera;
+    this.renderer = renderer;
+    this.controls = controls;
+    this.onCancel = onCancel;
+    this.marker = new SnapMarker(scene);
+  }
+
+  /** Called with the scale factors along X, Y and Z and the text typed so far. */
+  public setOnChange(callback: (factors: THREE.Vector3, typed: string) => void) {
+    this.onChange = callback;
+  }
+
+  /** The objects to scale, usually the selection when the tool is switched on. */
+  public setTargets(objects: THREE.Object3D[]) {
+    this.targets = [...objects];
+    this.updateGrips();
+  }
+
+  private notifyChange() {
+    this.onChange?.(this.factors.clone(), this.typed);
+  }
+
+  private getPickableObjects(): THREE.Object3D[] {
+    return this.scene.children.filter(child =>
+      child !== this.grips && child.name !== 'selectionHelper' && !child.userData.isSnapMarker
+    );
+  }
+
+  /** The point under the mouse snapped to the scene, shown with the snap marker. */
+  private getSnap(event: MouseEvent): SnapResult | null {
+    const snap = snapPoint(event, this.camera, this.renderer.domElement, this.getPickableObjects());
+    if (snap) {
+      this.marker.show(snap);
+    } else {
+      this.marker.hide();
+    }
+    return snap;
+  }
+
+  /** Where a grip sits on the current bounding box. */
+  private getGripPoint(side: GripSide, box: THREE.Box3 = this.bounds): THREE.Vector3 {
+    const center = box.getCenter(new THREE.Vector3());
+    const half = box.getSize(new THREE.Vector3()).multiplyScalar(0.5);
+    return center.add(half.multiply(new THREE.Vector3(...side)));
+  }
+
+  /** The point that stays put: the opposite grip, or the center while Ctrl is held. */
+  private getAnchor(side: GripSide): THREE.Vector3 {
+    if (this.aboutCenter) return this.bounds.getCenter(new THREE.Vector3());
+    return this.getGripPoint([-side[0], -side[1], -side[2]] as GripSide);
+  }
+
+  /** Draws a small cube on every corner, edge and face of the targets' bounding box. */
+  private updateGrips() {
+    this.removeGrips();
+    if (this.targets.length === 0) return;
+
+    this.bounds.makeEmpty();
+    this.targets.forEach(object => this.bounds.expandByObject(object));
+    if (this.bounds.isEmpty()) return;
+
+    const size = Math.max(this.bounds.getSize(new THREE.Vector3()).length() * 0.02, 0.05);
+    const geometry = new THREE.BoxGeometry(size, size, size);
+    const group = new THREE.Group();
+    group.add(new THREE.Box3Helper(this.bounds.clone(), 0xffff00));
+
+    for (let x = -1; x <= 1; x++) {
+      for (let y = -1; y <= 1; y++) {
+        for (let z = -1; z <= 1; z++) {
+          const side: GripSide = [x, y, z];
+          const count = side.filter(value => value !== 0).length;
+          if (count === 0) continue;
+
+          // Corners are white, edges cyan and faces orange
+          const color = count === 3 ? 0xffffff : count === 2 ? 0x00bcd4 : 0xffa500;
+          const grip = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ color, depthTest: false }));
+          grip.position.copy(this.getGripPoint(side));
+          grip.userData = { gripSide: side };
+          grip.renderOrder = 3;
+          group.add(grip);
+        }
+      }
+    }
+
+    this.grips = group;
+    this.scene.add(group);
+  }
+
+  private removeGrips() {
+    if (!this.grips) return;
+
+    this.scene.remove(this.grips);
+    this.grips.traverse((child) => {
+      if (child instanceof THREE.Mesh || child instanceof THREE.LineSegments) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+    this.grips = null;
+  }
+
+  private pickGrip(event: MouseEvent): GripSide | null {
+    if (!this.grips) return null;
+
+    const ray = getPointerRay(event, this.camera, this.renderer.domElement);
+    const raycaster = new THREE.Raycaster(ray.origin, ray.direction);
+    const gripMeshes = this.grips.children.filter(child => child instanceof THREE.Mesh);
+    const hit = raycaster.intersectObjects(gripMeshes, false)[0];
+    return hit ? hit.object.userData.gripSide as GripSide : null;
+  }
+
+  /**
+   * Where the mouse puts the grip: along its axis for a face grip, on a level
+   * plane for an edge grip that only changes X and Z, and otherwise on the plane
+   * facing the camera.
+   */
+  private getPointerGripPoint(event: MouseEvent, side: GripSide): THREE.Vector3 | null {
+    const ray = getPointerRay(event, this.camera, this.renderer.domElement);
+    const grip = this.getGripPoint(side);
+    const axes = AXES.filter((_, index) => side[index] !== 0);
+
+    if (axes.length === 1) return closestPointOnLine(ray, grip, AXIS_VECTORS[axes[0]]);
+
+    const normal = side[1] === 0
+      ? AXIS_VECTORS.y.clone()
+      : this.camera.getWorldDirection(new THREE.Vector3()).negate();
+    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(normal, grip);
+    return ray.intersectPlane(plane, new THREE.Vector3());
+  }
+
+  /** The factors that take the active grip to `point`, with the anchor staying put. */
+  private getFactorsTo(point: THREE.Vector3): THREE.Vector3 {
+    const side = this.activeGrip!;
+    const anchor = this.getAnchor(side);
+    const grip = this.getGripPoint(side);
+    const factors = new THREE.Vector3(1, 1, 1);
+
+    AXES.forEach((axis, index) => {
+      const reach = grip[axis] - anchor[axis];
+      if (side[index] === 0 || Math.abs(reach) < 1e-9) return;
+      factors[axis] = Math.max((point[axis] - anchor[axis]) / reach, MIN_FACTOR);
+    });
+    return this.uniform ? this.getUniformFactors(factors) : factors;
+  }
+
+  /** The same factor on every axis: the average of those the grip changes. */
+  private getUniformFactors(factors: THREE.Vector3): THREE.Vector3 {
+    const side = this.activeGrip!;
+    const changed = AXES.filter((_, index) => side[index] !== 0).map(axis => factors[axis]);
+    const factor = changed.reduce((sum, value) => sum + value, 0) / changed.length;
+    return new THREE.Vector3(factor, factor, factor);
+  }
+
+  /**
+   * The factors for the typed text: a plain number is a factor, and a number
+   * followed by "m" the size the box should have along the grip's longest axis.
+   */
+  private getTypedFactors(): THREE.Vector3 | null {
+    const match = /^(\d*\.?\d+)(m?)$/.exec(this.typed);
+    if (!match || !this.activeGrip) return null;
+
+    const side = this.activeGrip;
+    const size = this.bounds.getSize(new THREE.Vector3());
+    const axes = AXES.filter((_, index) => side[index] !== 0);
+    let factor = parseFloat(match[1]);
+    if (match[2]) {
+      const longest = axes.reduce((best, axis) => size[axis] > size[best] ? axis : best, axes[0]);
+      if (size[longest] < 1e-9) return null;
+      factor /= size[longest];
+    }
+    if (factor < MIN_FACTOR) return null;
+
+    const factors = new THREE.Vector3(1, 1, 1);
+    axes.forEach(axis => { factors[axis] = factor; });
+    return this.uniform ? new THREE.Vector3(factor, factor, factor) : factors;
+  }
+
+  /** Scales the objects by `factors` along the scene axes about the anchor, from how they started. */
+  private applyFactors(factors: THREE.Vector3) {
+    if (!this.activeGrip) return;
+
+    this.factors.copy(factors);
+    const anchor = this.getAnchor(this.activeGrip);
+    this.targets.forEach((object, index) => {
+      const world = this.startPositions[index].clone().sub(anchor).multiply(factors).add(anchor);
+      object.position.copy(object.parent ? object.parent.worldToLocal(world) : world);
+
+      // How much each of the object's own axes is stretched
+      const rotation = object.getWorldQuaternion(new THREE.Quaternion());
+      const local = new THREE.Vector3(...AXES.map(axis =>
+        AXIS_VECTORS[axis].clone().applyQuaternion(rotation).multiply(factors).length()
+      ));
+      object.scale.copy(this.startScales[index]).multiply(local);
+    });
+    this.notifyChange();
+  }
+
+  private startScaling(side: GripSide) {
+    this.marker.hide();
+    // Keep the camera still while scaling
+    if (this.controls) {
+      this.originalControlsEnabled = this.controls.enabled;
+      this.controls.enabled = false;
+    }
+
+    this.activeGrip = side;
+    this.startPositions = this.targets.map(object => object.getWorldPosition(new THREE.Vector3()));
+    this.startScales = this.targets.map(object => object.scale.clone());
+    this.factors.set(1, 1, 1);
+    this.typed = '';
+    this.notifyChange();
+  }
+
+  /** Ends the scaling at the current factors. */
+  private finishScaling() {
+    if (!this.activeGrip) return;
+
+    const operation: ScaleOperation = {
+      objects: [...this.targets],
+      fromPositions: [],
+      fromScales: this.startScales,
+      toPositions: this.targets.map(object => object.position.clone()),
+      toScales: this.targets.map(object => object.scale.clone())
+    };
+    this.applyFactors(new THREE.Vector3(1, 1, 1));
+    operation.fromPositions = this.targets.map(object => object.position.clone());
+    this.targets.forEach((object, index) => {
+      object.position.copy(operation.toPositions[index]);
+      object.scale.copy(operation.toScales[index]);
+    });
+
+    this.history = this.history.slice(0, this.historyIndex + 1);
+    this.history.push(operation);
+    this.historyIndex++;
+
+    this.resetScaling();
+    this.updateGrips();
+  }
+
+  private cancelScaling() {
+    this.applyFactors(new THREE.Vector3(1, 1, 1));
+    this.resetScaling();
+  }
+
+  private resetScaling() {
+    if (this.activeGrip && this.controls) {
+      this.controls.enabled = this.originalControlsEnabled;
+    }
+    this.activeGrip = null;
+    this.startPositions = [];
+    this.startScales = [];
+    this.factors.set(1, 1, 1);
+    this.typed = '';
+    this.notifyChange();
+  }
+
+  private onMouseDown = (event: MouseEvent) => {
+    if (event.button !== 0) return; // Only left click
+
+    if (this.activeGrip) {
+      this.finishScaling();
+      return;
+    }
+
+    const side = this.pickGrip(event);
+    if (side) {
+      this.aboutCenter = event.ctrlKey || event.metaKey;
+      this.uniform = event.shiftKey;
+      this.startScaling(side);
+      return;
+    }
+
+    // Without a selection, scale whatever is clicked
+    const snap = this.getSnap(event);
+    this.setTargets(snap?.object ? [getPickedRoot(snap.object, this.scene)] : []);
+  };
+
+  private onMouseMove = (event: MouseEvent) => {
+    if (!this.activeGrip) {
+      this.getSnap(event);
+      return;
+    }
+    if (this.typed) return;
+
+    this.aboutCenter = event.ctrlKey || event.metaKey;
+    this.uniform = event.shiftKey;
+    const point = this.getPointerGripPoint(event, this.activeGrip);
+    if (point) this.applyFactors(this.getFactorsTo(point));
+  };
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    // Leave typing in form fields alone
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+    if (event.key === 'Escape') {
+      if (this.activeGrip) {
+        this.cancelScaling();
+      } else {
+        this.onCancel?.();
+      }
+      return;
+    }
+    if (!this.activeGrip) return;
+
+    if (/^[0-9.m]$/.test(event.key)) {
+      this.typed += event.key;
+    } else if (event.key === 'Backspace') {
+      this.typed = this.typed.slice(0, -1);
+    } else if (event.key === 'Enter') {
+      this.aboutCenter = event.ctrlKey || event.metaKey;
+      this.uniform = event.shiftKey;
+      const factors = this.getTypedFactors();
+      if (factors) {
+        this.applyFactors(factors);
+        this.finishScaling();
+      }
+      return;
+    } else {
+      return;
+    }
+
+    event.preventDefault();
+    this.notifyChange();
+  };
+
+  public enable() {
+    this.renderer.domElement.addEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.addEventListener('mousemove', this.onMouseMove);
+    window.addEventListener('keydown', this.onKeyDown);
+    this.updateGrips();
+  }
+
+  public disable() {
+    this.renderer.domElement.removeEventListener('mousedown', this.onMouseDown);
+    this.renderer.domElement.removeEventListener('mousemove', this.onMouseMove);
+    window.removeEventListener('keydown', this.onKeyDown);
+    if (this.activeGrip) this.cancelScaling();
+    this.removeGrips();
+    this.targets = [];
+    this.marker.dispose();
+    clearSnapInference();
+  }
+
+  public undo() {
+    if (this.historyIndex < 0) return;
+
+    const operation = this.history[this.historyIndex];
+    operation.objects.forEach((object, index) => {
+      object.position.copy(operation.fromPositions[index]);
+      object.scale.copy(operation.fromScales[index]);
+    });
+    this.historyIndex--;
+    if (this.grips) this.updateGrips();
+  }
+
+  public redo() {
+    if (this.historyIndex >= this.history.length - 1) return;
+
+    this.historyIndex++;
+    const operation = this.history[this.historyIndex];
+    operation.objects.forEach((object, index) => {
+      object.position.copy(operation.toPositions[index]);
+      object.scale.copy(operation.toScales[index]);
+    });
+    if (this.grips) this.updateGrips();
+  }
+}
+
+export default ScaleTool;
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { getPickedRoot } from '../utils/picking';
 
 class SelectionRectangle {
   private element: HTMLDivElement;
@@ -75,6 +76,8 @@ export class SelectionTool {
   private startPoint: THREE.Vector2 = new THREE.Vector2();
   private controls?: {
     enabled: boolean;
+    target?: THREE.Vector3;
+    update?: () => void;
   };
   private originalControlsEnabled: boolean = true;
 
@@ -113,11 +116,9 @@ export class SelectionTool {
   };
 
   private selectObject(object: THREE.Object3D) {
-    // Find the top-most parent that's a direct child of the scene
-    let selectedObject = object;
-    while (selectedObject.parent && selectedObject.parent !== this.scene) {
-      selectedObject = selectedObject.parent;
-    }
+    // Find the top-most parent that's a direct child of the scene,
+    // stopping early at IFC elements so a model is not selected as a whole
+    const selectedObject = getPickedRoot(object, this.scene);
 
     // Check if the object is already selected
     const index = this.selectedObjects.indexOf(selectedObject);
@@ -194,7 +195,8 @@ export class SelectionTool {
         this.clearSelection();
       }
       
-      // Find all objects that intersect with the selection rectangle
+      // Find all objects that intersect with the selection rectangle, once each
+      // however many of their meshes are inside it
       const selectedObjects = new Set<THREE.Object3D>();
       
       // Check all objects in the scene
@@ -208,7 +210,7 @@ export class SelectionTool {
           
           // Check if point is inside selection rectangle
           if (ndcRect.containsPoint(new THREE.Vector2(position.x, position.y))) {
-            selectedObjects.add(object);
+            selectedObjects.add(getPickedRoot(object, this.scene));
           }
         }
       });
@@ -249,6 +251,52 @@ export class SelectionTool {
     return [...this.selectedObjects];
   }
 
+  /**
+   * Replaces the current selection, e.g. when picking elements from a panel.
+   */
+  public setSelection(objects: THREE.Object3D[]) {
+    this.selectedObjects.forEach(obj => {
+      this.removeHighlight(obj);
+    });
+
+    this.selectedObjects = [...objects];
+    this.selectedObjects.forEach(obj => {
+      this.highlightObject(obj);
+    });
+
+    this.onSelect([...this.selectedObjects]);
+  }
+
+  /**
+   * Moves the camera so the selected objects, or the given bounds, fill the view,
+   * keeping the current viewing direction.
+   */
+  public frameSelection(bounds?: THREE.Box3) {
+    const box = bounds?.clone() ?? new THREE.Box3();
+    if (!bounds) {
+      this.selectedObjects.forEach(obj => box.expandByObject(obj));
+    }
+    if (box.isEmpty()) return;
+
+    const sphere = box.getBoundingSphere(new THREE.Sphere());
+    const radius = Math.max(sphere.radius, 0.5);
+    const fov = this.camera instanceof THREE.PerspectiveCamera ? THREE.MathUtils.degToRad(this.camera.fov) : Math.PI / 3;
+    const distance = (radius / Math.sin(fov / 2)) * 1.2;
+
+    const target = this.controls?.target ?? new THREE.Vector3();
+    const direction = new THREE.Vector3().subVectors(this.camera.position, target).normalize();
+    if (direction.lengthSq() === 0) {
+      direction.set(1, 1, 1).normalize();
+    }
+
+    this.camera.position.copy(sphere.center).add(direction.multiplyScalar(distance));
+    this.camera.lookAt(sphere.center);
+    if (this.controls?.target) {
+      this.controls.target.copy(sphere.center);
+      this.controls.update?.();
+    }
+  }
+
   public dispose() {
     this.disable();
     this.clearSelection();
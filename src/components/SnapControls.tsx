@@ -0,0 +1,48 @@
+import { SNAP_CATEGORIES, SNAP_COLORS, SNAP_LABELS } from '../utils/snapping';
+import type { SnapCategory } from '../utils/snapping';
+
+interface SnapControlsProps {
+  settings: Record<SnapCategory, boolean>;
+  onToggle: (category: SnapCategory, enabled: boolean) => void;
+  visible: boolean;
+}
+
+export default function SnapControls({ settings, onToggle, visible }: SnapControlsProps) {
+  if (!visible) return null;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: '70px',
+      left: '80px',
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      padding: '10px 14px',
+      borderRadius: '4px',
+      color: 'white',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '6px',
+      zIndex: 1000,
+      boxShadow: '0 2px 10px rgba(0,0,0,0.2)'
+    }}>
+      <div style={{ fontSize: '0.8em', color: '#aaa' }}>Snap to</div>
+      {SNAP_CATEGORIES.map(category => (
+        <label key={category} style={{ fontSize: '0.9em', display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <input
+            type="checkbox"
+            checked={settings[category]}
+            onChange={(e) => onToggle(category, e.target.checked)}
+          />
+          <span style={{ ...swatchStyle, backgroundColor: `#${SNAP_COLORS[category].toString(16).padStart(6, '0')}` }}></span>
+          {SNAP_LABELS[category]}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+const swatchStyle = {
+  width: '8px',
+  height: '8px',
+  borderRadius: '50%'
+} as React.CSSProperties;
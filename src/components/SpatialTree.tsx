@@ -0,0 +1,259 @@
+import { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { Eye, EyeOff } from 'lucide-react';
+import type { IfcManager, IfcModel } from '../ifc/IfcManager';
+import type { IfcSpatialNode } from '../ifc/types';
+
+interface SpatialTreeProps {
+  ifcManager: IfcManager;
+  models: IfcModel[];
+  onSelectElements: (objects: THREE.Object3D[]) => void;
+}
+
+interface SpatialTreeNodeProps {
+  model: IfcModel;
+  node: IfcSpatialNode;
+  depth: number;
+  expandedNodes: Set<string>;
+  hiddenNodes: Set<string>;
+  onToggleExpanded: (key: string) => void;
+  onToggleVisibility: (model: IfcModel, node: IfcSpatialNode) => void;
+  onSelect: (model: IfcModel, node: IfcSpatialNode) => void;
+}
+
+function nodeKey(model: IfcModel, node: IfcSpatialNode): string {
+  return `${model.id}:${node.expressID}`;
+}
+
+/** Scene objects of a node and everything below it, e.g. all elements of a storey. */
+function collectElements(model: IfcModel, node: IfcSpatialNode, result: THREE.Object3D[] = []): THREE.Object3D[] {
+  const element = model.elements.get(node.expressID);
+  if (element) result.push(element);
+  node.children.forEach(child => collectElements(model, child, result));
+  return result;
+}
+
+function collectNodes(node: IfcSpatialNode, result: IfcSpatialNode[] = []): IfcSpatialNode[] {
+  result.push(node);
+  node.children.forEach(child => collectNodes(child, result));
+  return result;
+}
+
+function SpatialTreeNode({
+  model,
+  node,
+  depth,
+  expandedNodes,
+  hiddenNodes,
+  onToggleExpanded,
+  onToggleVisibility,
+  onSelect
+}: SpatialTreeNodeProps) {
+  const key = nodeKey(model, node);
+  const isExpanded = expandedNodes.has(key);
+  const isHidden = hiddenNodes.has(key);
+  const hasChildren = node.children.length > 0;
+
+  return (
+    <div>
+      <div
+        style={{ ...styles.row, paddingLeft: `${depth * 12 + 4}px`, opacity: isHidden ? 0.5 : 1 }}
+        onClick={() => onSelect(model, node)}
+        title={`${node.ifcType} #${node.expressID}`}
+      >
+        <span
+          style={styles.toggle}
+          onClick={(e) => {
+            e.stopPropagation();
+            if (hasChildren) onToggleExpanded(key);
+          }}
+        >
+          {hasChildren ? (isExpanded ? '▾' : '▸') : ''}
+        </span>
+        <span style={styles.name}>{node.name}</span>
+        <span style={styles.type}>{node.ifcType}</span>
+        <button
+          style={styles.visibility}
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleVisibility(model, node);
+          }}
+          title={isHidden ? 'Show' : 'Hide'}
+        >
+          {isHidden ? <EyeOff size={12} /> : <Eye size={12} />}
+        </button>
+      </div>
+      {isExpanded && node.children.map(child => (
+        <SpatialTreeNode
+          key={child.expressID}
+          model={model}
+          node={child}
+          depth={depth + 1}
+          expandedNodes={expandedNodes}
+          hiddenNodes={hiddenNodes}
+          onToggleExpanded={onToggleExpanded}
+          onToggleVisibility={onToggleVisibility}
+          onSelect={onSelect}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Shows the IfcProject → IfcSite → IfcBuilding → IfcBuildingStorey → element
+ * hierarchy of every loaded model. Clicking a node selects its elements,
+ * the eye button hides or shows a whole branch.
+ */
+export function SpatialTree({ ifcManager, models, onSelectElements }: SpatialTreeProps) {
+  const [trees, setTrees] = useState<Map<string, IfcSpatialNode>>(new Map());
+  const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
+  const [hiddenNodes, setHiddenNodes] = useState<Set<string>>(new Set());
+  // Models whose tree is read or being read, so each is only asked for once
+  const requestedModelIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    let cancelled = false;
+    const requested = requestedModelIds.current;
+    const pending = new Set<string>();
+
+    models
+      .filter(model => !requested.has(model.id))
+      .forEach((model) => {
+        requested.add(model.id);
+        pending.add(model.id);
+        ifcManager.getSpatialTree(model.id)
+          .then((tree) => {
+            pending.delete(model.id);
+            if (cancelled || !tree) return;
+            setTrees(prev => new Map(prev).set(model.id, tree));
+            // Open the project down to its storeys so elements are one click away
+            setExpandedNodes(prev => {
+              const next = new Set(prev);
+              collectNodes(tree)
+                .filter(node => node.ifcType !== 'IFCBUILDINGSTOREY' && !model.elements.has(node.expressID))
+                .forEach(node => next.add(nodeKey(model, node)));
+              return next;
+            });
+          })
+          .catch((error) => {
+            pending.delete(model.id);
+            console.error(`Failed to read spatial structure of ${model.name}:`, error);
+          });
+      });
+
+    return () => {
+      cancelled = true;
+      // Trees still being read are dropped, so the next run asks for them again
+      pending.forEach(id => requested.delete(id));
+    };
+  }, [ifcManager, models]);
+
+  const toggleExpanded = (key: string) => {
+    setExpandedNodes(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const toggleVisibility = (model: IfcModel, node: IfcSpatialNode) => {
+    const visible = hiddenNodes.has(nodeKey(model, node));
+    collectElements(model, node).forEach((element) => {
+      element.visible = visible;
+    });
+
+    // Showing or hiding a branch also applies to every node below it
+    setHiddenNodes(prev => {
+      const next = new Set(prev);
+      collectNodes(node).forEach((descendant) => {
+        if (visible) {
+          next.delete(nodeKey(model, descendant));
+        } else {
+          next.add(nodeKey(model, descendant));
+        }
+      });
+      return next;
+    });
+  };
+
+  const selectNode = (model: IfcModel, node: IfcSpatialNode) => {
+    onSelectElements(collectElements(model, node).filter(element => element.visible));
+  };
+
+  if (models.length === 0) {
+    return <div style={styles.message}>No IFC models loaded</div>;
+  }
+
+  return (
+    <div>
+      {models.map((model) => {
+        const tree = trees.get(model.id);
+        if (!tree) {
+          return <div key={model.id} style={styles.message}>Loading {model.name}...</div>;
+        }
+        return (
+          <SpatialTreeNode
+            key={model.id}
+            model={model}
+            node={tree}
+            depth={0}
+            expandedNodes={expandedNodes}
+            hiddenNodes={hiddenNodes}
+            onToggleExpanded={toggleExpanded}
+            onToggleVisibility={toggleVisibility}
+            onSelect={selectNode}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+const styles = {
+  message: {
+    padding: '6px 4px',
+    fontSize: '13px',
+    color: '#9e9e9e',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '4px',
+    fontSize: '12px',
+    color: '#e0e0e0',
+    cursor: 'pointer',
+    borderRadius: '3px',
+  },
+  toggle: {
+    width: '12px',
+    flexShrink: 0,
+    color: '#9e9e9e',
+  },
+  name: {
+    flex: 1,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  type: {
+    color: '#9e9e9e',
+    fontSize: '10px',
+    whiteSpace: 'nowrap',
+  },
+  visibility: {
+    background: 'none',
+    border: 'none',
+    color: '#9e9e9e',
+    cursor: 'pointer',
+    display: 'flex',
+    padding: '0 2px',
+  },
+} as const;
+
+export default SpatialTree;
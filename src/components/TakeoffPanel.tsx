@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import type * as THREE from 'three';
+import type { IfcManager } from '../ifc/IfcManager';
+import { computeTakeoff, formatNumber, groupTakeoff, takeoffToCsv } from '../takeoff/quantityTakeoff';
+import type { TakeoffGrouping, TakeoffRow } from '../takeoff/quantityTakeoff';
+import { downloadFile } from '../utils/download';
+
+interface TakeoffPanelProps {
+  scene: THREE.Scene;
+  ifcManager: IfcManager | null;
+  layers: Array<{ id: string; name: string }>;
+  onSelectObjects: (objects: THREE.Object3D[]) => void;
+  onStatusMessage: (message: string) => void;
+}
+
+/**
+ * Quantity takeoff of the drawn geometry and the open IFC models, grouped by
+ * layer or IFC class. The table is computed on demand and can be saved as CSV.
+ */
+export function TakeoffPanel({ scene, ifcManager, layers, onSelectObjects, onStatusMessage }: TakeoffPanelProps) {
+  const [rows, setRows] = useState<TakeoffRow[] | null>(null);
+  const [grouping, setGrouping] = useState<TakeoffGrouping>('layer');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [isComputing, setIsComputing] = useState(false);
+
+  const groups = rows ? groupTakeoff(rows, grouping) : [];
+
+  const handleCompute = async () => {
+    setIsComputing(true);
+    onStatusMessage('Computing quantities...');
+    try {
+      const layerNames = new Map(layers.map(layer => [layer.id, layer.name]));
+      const takeoff = await computeTakeoff(scene, ifcManager, layerNames);
+      setRows(takeoff);
+      onStatusMessage(`Measured ${takeoff.length} object${takeoff.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Quantity takeoff failed:', error);
+      onStatusMessage('Quantity takeoff failed');
+    } finally {
+      setIsComputing(false);
+    }
+  };
+
+  const handleExport = () => {
+    // The byte order mark makes spreadsheet apps read the units as UTF-8
+    downloadFile(`\uFEFF${takeoffToCsv(groups)}`, 'takeoff.csv', 'text/csv;charset=utf-8');
+  };
+
+  const toggleExpanded = (name: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div>
+      <div style={styles.toolbar}>
+        <button style={styles.button} onClick={handleCompute} disabled={isComputing}>
+          {isComputing ? 'Measuring...' : rows ? 'Refresh' : 'Compute'}
+        </button>
+        <button style={styles.button} onClick={handleExport} disabled={groups.length === 0}>Export CSV</button>
+        <select
+          style={styles.select}
+          value={grouping}
+          onChange={(e) => setGrouping(e.target.value as TakeoffGrouping)}
+        >
+          <option value="layer">By layer</option>
+          <option value="class">By IFC class</option>
+        </select>
+      </div>
+
+      {rows && groups.length === 0 && <div style={styles.message}>Nothing to measure</div>}
+
+      {groups.map(group => (
+        <div key={group.name} style={styles.group}>
+          <div style={styles.groupHeader} onClick={() => toggleExpanded(group.name)}>
+            <span style={styles.name}>{expanded.has(group.name) ? '▾' : '▸'} {group.name}</span>
+            <span style={styles.count}>{group.rows.length}</span>
+          </div>
+          {group.totals.map(total => (
+            <div key={`${total.name}|${total.unit}`} style={styles.row}>
+              <span style={styles.name}>{total.name}</span>
+              <span style={styles.value}>{formatNumber(total.value)} {total.unit}</span>
+            </div>
+          ))}
+
+          {expanded.has(group.name) && group.rows.map(row => (
+            <div key={row.object.uuid} style={styles.element} onClick={() => onSelectObjects([row.object])}>
+              <div style={styles.elementName}>{row.name}</div>
+              {row.quantities.map((quantity, index) => (
+                <div key={index} style={styles.row}>
+                  <span style={styles.name}>{quantity.name}</span>
+                  <span style={styles.value}>{formatNumber(quantity.value)} {quantity.unit}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const styles = {
+  toolbar: {
+    display: 'flex',
+    gap: '6px',
+    marginBottom: '8px',
+  },
+  button: {
+    padding: '4px 8px',
+    backgroundColor: '#3c3c3c',
+    color: '#e0e0e0',
+    border: '1px solid #4a4a4a',
+    borderRadius: '3px',
+    fontSize: '12px',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+  select: {
+    padding: '4px',
+    backgroundColor: '#1e1e1e',
+    color: '#e0e0e0',
+    border: '1px solid #3c3c3c',
+    borderRadius: '3px',
+    fontSize: '12px',
+  },
+  message: {
+    padding: '6px 4px',
+    fontSize: '13px',
+    color: '#9e9e9e',
+  },
+  group: {
+    borderBottom: '1px solid #3c3c3c',
+    paddingBottom: '4px',
+  },
+  groupHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '6px 4px',
+    fontSize: '12px',
+    color: '#e0e0e0',
+    cursor: 'pointer',
+  },
+  row: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '8px',
+    padding: '1px 4px 1px 16px',
+    fontSize: '11px',
+    color: '#9e9e9e',
+  },
+  name: {
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  value: {
+    color: '#e0e0e0',
+    whiteSpace: 'nowrap',
+  },
+  count: {
+    color: '#9e9e9e',
+    fontSize: '10px',
+  },
+  element: {
+    padding: '4px 0 4px 12px',
+    cursor: 'pointer',
+  },
+  elementName: {
+    padding: '0 4px',
+    fontSize: '11px',
+    color: '#e0e0e0',
+  },
+} as const;
+
+export default TakeoffPanel;
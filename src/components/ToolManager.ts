@@ -0,0 +1,53 @@
+import * as OBC from "@thatopen/components";
+
+/** Anything the toolbar can switch on and off. */
+export interface ManagedTool {
+  disable(): void;
+  dispose?(): void;
+}
+
+/**
+ * Keeps track of the drawing and editing tools so they are switched off and
+ * released together with the rest of the app when the components are disposed.
+ */
+export class ToolManager extends OBC.Component implements OBC.Disposable {
+  static readonly uuid = "5d7c2f1e-8a43-4b0e-9f6a-2c1d3e4b5a69";
+
+  readonly onDisposed: OBC.Event<undefined> = new OBC.Event();
+
+  enabled = true;
+
+  private tools = new Set<ManagedTool>();
+
+  constructor(components: OBC.Components) {
+    super(components);
+    components.add(ToolManager.uuid, this);
+  }
+
+  add<T extends ManagedTool>(tool: T): T {
+    this.tools.add(tool);
+    return tool;
+  }
+
+  remove(tool: ManagedTool) {
+    this.tools.delete(tool);
+  }
+
+  disableAll() {
+    this.tools.forEach(tool => tool.disable());
+  }
+
+  dispose() {
+    this.enabled = false;
+    this.tools.forEach((tool) => {
+      if (tool.dispose) {
+        tool.dispose();
+      } else {
+        tool.disable();
+      }
+    });
+    this.tools.clear();
+    this.onDisposed.trigger();
+    this.onDisposed.reset();
+  }
+}
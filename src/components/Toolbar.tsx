@@ -1,37 +1,108 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import type { Ref } from 'react';
 import { LineTool } from './LineTool';
 import { RectangleTool } from './RectangleTool';
+import { CircleTool } from './CircleTool';
+import { ArcTool } from './ArcTool';
+import { PolygonTool } from './PolygonTool';
+import type { PolygonMode } from './PolygonTool';
 import { ExtrudeTool } from './ExtrudeTool';
 import { ExtendTool } from './ExtendTool';
+import { MoveTool } from './MoveTool';
+import { RotateTool } from './RotateTool';
+import { ScaleTool } from './ScaleTool';
+import { MeasureTool } from './MeasureTool';
+import { DimensionTool } from './DimensionTool';
+import { DimensionManager } from './DimensionManager';
+import { DEFAULT_LABEL_SETTINGS, LabelTool } from './LabelTool';
+import type { LabelSettings } from './LabelTool';
 import { SelectionTool } from './SelectionTool';
 import { HandTool } from './HandTool';
 import ExtrusionControls from './ExtrusionControls';
+import CircleControls from './CircleControls';
+import PolygonControls from './PolygonControls';
+import MoveControls from './MoveControls';
+import RotateControls from './RotateControls';
+import ScaleControls from './ScaleControls';
+import MeasureControls from './MeasureControls';
+import DimensionControls from './DimensionControls';
+import LabelControls from './LabelControls';
+import SnapControls from './SnapControls';
+import { ToolManager } from './ToolManager';
 import * as THREE from 'three';
+import type * as OBC from '@thatopen/components';
+import type { Axis } from '../utils/axes';
+import { DEFAULT_DIMENSION_STYLE } from '../utils/dimensions';
+import type { DimensionKind, DimensionStyle } from '../utils/dimensions';
+import { getSnapSettings, setSnapEnabled } from '../utils/snapping';
+import type { SnapCategory } from '../utils/snapping';
 
-type Tool = 'hand' | 'select' | 'line' | 'rectangle' | 'extrude' | 'extend' | 'move' | 'rotate' | 'scale';
+export type Tool = 'hand' | 'select' | 'line' | 'rectangle' | 'circle' | 'arc' | 'polygon' | 'extrude' | 'extend' | 'move' | 'rotate' | 'scale' | 'measure' | 'dimension' | 'label';
 
 interface ToolbarProps {
+  components?: OBC.Components | null;
   scene: THREE.Scene | null;
   camera: THREE.Camera | null;
   renderer: THREE.WebGLRenderer | null;
   controls?: {
     enabled: boolean;
   };
+  activeLayerId?: string | null;
+  layers?: Array<{ id: string; name: string; visible: boolean }>;
   onToolChange?: (tool: Tool) => void;
+  onOpenIfc?: (file: File) => void;
+  onExportIfc?: () => void;
+  onSaveFragments?: () => void;
+  onSelectionChange?: (selected: THREE.Object3D[]) => void;
+  onSelectionToolReady?: (tool: SelectionTool) => void;
+  onStatusMessage?: (message: string) => void;
+  ref?: Ref<ToolbarHandle>;
 }
 
-export function Toolbar({ scene, camera, renderer, controls, onToolChange }: ToolbarProps) {
+/** Lets the command line pick tools the same way the toolbar buttons do. */
+export interface ToolbarHandle {
+  selectTool: (tool: Tool) => void;
+}
+
+export function Toolbar({ components, scene, camera, renderer, controls, activeLayerId, layers = [], onToolChange, onOpenIfc, onExportIfc, onSaveFragments, onSelectionChange, onSelectionToolReady, onStatusMessage, ref }: ToolbarProps) {
   const lineTool = useRef<LineTool | null>(null);
   const rectangleTool = useRef<RectangleTool | null>(null);
+  const circleTool = useRef<CircleTool | null>(null);
+  const arcTool = useRef<ArcTool | null>(null);
+  const polygonTool = useRef<PolygonTool | null>(null);
   const extrudeTool = useRef<ExtrudeTool | null>(null);
   const extendTool = useRef<ExtendTool | null>(null);
+  const moveTool = useRef<MoveTool | null>(null);
+  const rotateTool = useRef<RotateTool | null>(null);
+  const scaleTool = useRef<ScaleTool | null>(null);
+  const measureTool = useRef<MeasureTool | null>(null);
+  const dimensionTool = useRef<DimensionTool | null>(null);
+  const labelTool = useRef<LabelTool | null>(null);
   const selectionTool = useRef<SelectionTool | null>(null);
   const handTool = useRef<HandTool | null>(null);
+  const ifcFileInput = useRef<HTMLInputElement | null>(null);
   const [extrusionHeight, setExtrusionHeight] = useState(1);
   const [extendScale, setExtendScale] = useState(new THREE.Vector3(1, 1, 1));
   const [showExtrusionControls, setShowExtrusionControls] = useState(false);
   const [showExtendControls, setShowExtendControls] = useState(false);
+  const [circleRadius, setCircleRadius] = useState({ radius: 0, typed: '' });
+  const [circleSegments, setCircleSegments] = useState(24);
+  const [polygonState, setPolygonState] = useState({ radius: 0, typed: '', sides: 6 });
+  const [polygonMode, setPolygonMode] = useState<PolygonMode>('inscribed');
+  const [moveState, setMoveState] = useState<{ distance: number; typed: string; axis: Axis | null }>({ distance: 0, typed: '', axis: null });
+  const [rotateState, setRotateState] = useState<{ angle: number; typed: string; axis: Axis }>({ angle: 0, typed: '', axis: 'y' });
+  const [scaleState, setScaleState] = useState({ factors: new THREE.Vector3(1, 1, 1), typed: '' });
+  const [measurement, setMeasurement] = useState({ distance: 0, delta: new THREE.Vector3() });
+  const [keepDimensions, setKeepDimensions] = useState(false);
+  const [dimensionKind, setDimensionKind] = useState<DimensionKind>('aligned');
+  const [dimensionState, setDimensionState] = useState<{ status: string; style: DimensionStyle }>({ status: '', style: DEFAULT_DIMENSION_STYLE });
+  const [labelState, setLabelState] = useState<{ status: string; settings: LabelSettings; editing: boolean }>({ status: '', settings: DEFAULT_LABEL_SETTINGS, editing: false });
+  const [snapSettings, setSnapSettings] = useState(getSnapSettings);
+  const [showSnapControls, setShowSnapControls] = useState(false);
   const [activeTool, setActiveTool] = useState<Tool>('hand');
+  // Read by the undo/redo shortcut, which is set up once
+  const activeToolRef = useRef<Tool>('hand');
+  activeToolRef.current = activeTool;
   // Removed unused state variables
   // const [selectedObjects, setSelectedObjects] = useState<THREE.Object3D[]>([]);
 
@@ -46,8 +117,17 @@ export function Toolbar({ scene, camera, renderer, controls, onToolChange }: Too
     // Disable all tools first
     if (lineTool.current) lineTool.current.disable();
     if (rectangleTool.current) rectangleTool.current.disable();
+    if (circleTool.current) circleTool.current.disable();
+    if (arcTool.current) arcTool.current.disable();
+    if (polygonTool.current) polygonTool.current.disable();
     if (extrudeTool.current) extrudeTool.current.disable();
     if (extendTool.current) extendTool.current.disable();
+    if (moveTool.current) moveTool.current.disable();
+    if (rotateTool.current) rotateTool.current.disable();
+    if (scaleTool.current) scaleTool.current.disable();
+    if (measureTool.current) measureTool.current.disable();
+    if (dimensionTool.current) dimensionTool.current.disable();
+    if (labelTool.current) labelTool.current.disable();
     if (selectionTool.current) selectionTool.current.disable();
     if (handTool.current) handTool.current.disable();
     
@@ -59,12 +139,39 @@ export function Toolbar({ scene, camera, renderer, controls, onToolChange }: Too
       case 'rectangle':
         if (rectangleTool.current) rectangleTool.current.enable();
         break;
+      case 'circle':
+        if (circleTool.current) circleTool.current.enable();
+        break;
+      case 'arc':
+        if (arcTool.current) arcTool.current.enable();
+        break;
+      case 'polygon':
+        if (polygonTool.current) polygonTool.current.enable();
+        break;
       case 'extrude':
         if (extrudeTool.current) extrudeTool.current.enable();
         break;
       case 'extend':
         if (extendTool.current) extendTool.current.enable();
         break;
+      case 'move':
+        if (moveTool.current) moveTool.current.enable();
+        break;
+      case 'rotate':
+        if (rotateTool.current) rotateTool.current.enable();
+        break;
+      case 'scale':
+        if (scaleTool.current) scaleTool.current.enable();
+        break;
+      case 'measure':
+        if (measureTool.current) measureTool.current.enable();
+        break;
+      case 'dimension':
+        if (dimensionTool.current) dimensionTool.current.enable();
+        break;
+      case 'label':
+        if (labelTool.current) labelTool.current.enable();
+        break;
       case 'select':
         if (selectionTool.current) selectionTool.current.enable();
         break;
@@ -94,16 +201,34 @@ export function Toolbar({ scene, camera, renderer, controls, onToolChange }: Too
     // Cleanup tools
     if (lineTool.current) lineTool.current.disable();
     if (rectangleTool.current) rectangleTool.current.disable();
+    if (circleTool.current) circleTool.current.disable();
+    if (arcTool.current) arcTool.current.disable();
+    if (polygonTool.current) polygonTool.current.disable();
     if (extrudeTool.current) extrudeTool.current.disable();
     if (extendTool.current) extendTool.current.disable();
+    if (moveTool.current) moveTool.current.disable();
+    if (rotateTool.current) rotateTool.current.disable();
+    if (scaleTool.current) scaleTool.current.disable();
+    if (measureTool.current) measureTool.current.disable();
+    if (dimensionTool.current) dimensionTool.current.disable();
+    if (labelTool.current) labelTool.current.disable();
     if (selectionTool.current) selectionTool.current.disable();
     if (handTool.current) handTool.current.disable();
 
     // Initialize tools
     lineTool.current = new LineTool(scene, camera, renderer, handleCancelDrawing, controls);
     rectangleTool.current = new RectangleTool(scene, camera, renderer, handleCancelDrawing, controls);
+    circleTool.current = new CircleTool(scene, camera, renderer, handleCancelDrawing, controls);
+    arcTool.current = new ArcTool(scene, camera, renderer, handleCancelDrawing, controls);
+    polygonTool.current = new PolygonTool(scene, camera, renderer, handleCancelDrawing, controls);
     extrudeTool.current = new ExtrudeTool(scene, camera, renderer, handleCancelDrawing, controls);
     extendTool.current = new ExtendTool(scene, camera, renderer, handleCancelDrawing, controls);
+    moveTool.current = new MoveTool(scene, camera, renderer, handleCancelDrawing, controls);
+    rotateTool.current = new RotateTool(scene, camera, renderer, handleCancelDrawing, controls);
+    scaleTool.current = new ScaleTool(scene, camera, renderer, handleCancelDrawing, controls);
+    measureTool.current = new MeasureTool(scene, camera, renderer, handleCancelDrawing, controls);
+    dimensionTool.current = new DimensionTool(scene, camera, renderer, handleCancelDrawing, controls);
+    labelTool.current = new LabelTool(scene, camera, renderer, handleCancelDrawing, controls);
     // Initialize SelectionTool with proper parameters
     if (renderer) {
       selectionTool.current = new SelectionTool(
@@ -111,14 +236,35 @@ export function Toolbar({ scene, camera, renderer, controls, onToolChange }: Too
         camera, 
         renderer,
         (selected) => {
-          // Handle selection changes if needed
-          console.log('Selected objects:', selected);
+          onSelectionChange?.(selected);
         },
         controls
       );
+      onSelectionToolReady?.(selectionTool.current);
     }
     handTool.current = new HandTool(camera, renderer, controls);
 
+    // Register the tools so disposing the components also releases them
+    const toolManager = components?.get(ToolManager);
+    const tools = [
+      lineTool.current,
+      rectangleTool.current,
+      circleTool.current,
+      arcTool.current,
+      polygonTool.current,
+      extrudeTool.current,
+      extendTool.current,
+      moveTool.current,
+      rotateTool.current,
+      scaleTool.current,
+      measureTool.current,
+      dimensionTool.current,
+      labelTool.current,
+      selectionTool.current,
+      handTool.current
+    ].filter(tool => tool !== null);
+    tools.forEach(tool => toolManager?.add(tool));
+
     // Set up extrude tool callbacks
     if (extrudeTool.current) {
       extrudeTool.current.setOnExtrudeUpdate((height) => {
@@ -126,6 +272,84 @@ export function Toolbar({ scene, camera, renderer, controls, onToolChange }: Too
       });
     }
 
+    // Lengths and sizes typed while drawing show in the status bar
+    if (lineTool.current) {
+      lineTool.current.setOnTypedLengthChange((typed) => {
+        onStatusMessage?.(typed ? `Length: ${typed}_` : 'Ready');
+      });
+    }
+    if (rectangleTool.current) {
+      rectangleTool.current.setOnTypedDimensionsChange((typed) => {
+        onStatusMessage?.(typed ? `Dimensions: ${typed}_` : 'Ready');
+      });
+    }
+
+    // Set up circle tool callbacks
+    if (circleTool.current) {
+      circleTool.current.setSegments(circleSegments);
+      circleTool.current.setOnRadiusChange((radius, typed) => {
+        setCircleRadius({ radius, typed });
+      });
+    }
+
+    // Set up polygon tool callbacks
+    if (polygonTool.current) {
+      polygonTool.current.setMode(polygonMode);
+      polygonTool.current.setOnChange((radius, typed, sides) => {
+        setPolygonState({ radius, typed, sides });
+      });
+      polygonTool.current.setSides(polygonState.sides);
+    }
+
+    // Set up move tool callbacks
+    if (moveTool.current) {
+      moveTool.current.setOnChange((offset, typed, axis) => {
+        setMoveState({ distance: offset.length(), typed, axis });
+      });
+    }
+
+    // Set up rotate tool callbacks
+    if (rotateTool.current) {
+      rotateTool.current.setOnChange((angle, typed, axis) => {
+        setRotateState({ angle, typed, axis });
+      });
+    }
+
+    // Set up scale tool callbacks
+    if (scaleTool.current) {
+      scaleTool.current.setOnChange((factors, typed) => {
+        setScaleState({ factors, typed });
+      });
+    }
+
+    // Set up measure tool callbacks
+    if (measureTool.current) {
+      measureTool.current.setKeepDimensions(keepDimensions);
+      measureTool.current.setLayerId(activeLayerId ?? null);
+      measureTool.current.setOnMeasure((distance, delta) => {
+        setMeasurement({ distance, delta });
+      });
+    }
+
+    // Set up dimension tool callbacks; the dimension manager keeps dimensions on their geometry
+    if (dimensionTool.current) {
+      const dimensionManager = components?.get(DimensionManager);
+      dimensionTool.current.setKind(dimensionKind);
+      dimensionTool.current.setLayerId(activeLayerId ?? null);
+      dimensionTool.current.setOnCreate((dimension) => dimensionManager?.track(dimension));
+      dimensionTool.current.setOnStatus((status, style) => {
+        setDimensionState({ status, style });
+      });
+    }
+
+    // Set up label tool callbacks
+    if (labelTool.current) {
+      labelTool.current.setOnStatus((status, settings, editing) => {
+        setLabelState({ status, settings, editing });
+      });
+      labelTool.current.setLayerId(activeLayerId ?? null);
+    }
+
     // Set up extend tool callbacks
     if (extendTool.current) {
       extendTool.current.setOnExtendUpdate((scale) => {
@@ -133,17 +357,29 @@ export function Toolbar({ scene, camera, renderer, controls, onToolChange }: Too
       });
     }
 
-    // Set up keyboard shortcuts for undo/redo
+    // Set up keyboard shortcuts for undo/redo. Each tool keeps its own
+    // history, so only the active tool's steps are undone
     const handleKeyDown = (event: KeyboardEvent) => {
-      if (event.ctrlKey || event.metaKey) {
-        if (event.key === 'z') {
-          if (event.shiftKey) {
-            lineTool.current?.redo();
-            rectangleTool.current?.redo();
-          } else {
-            lineTool.current?.undo();
-            rectangleTool.current?.undo();
-          }
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z') {
+        const historyTools: Partial<Record<Tool, { current: { undo(): unknown; redo(): unknown } | null }>> = {
+          line: lineTool,
+          rectangle: rectangleTool,
+          circle: circleTool,
+          arc: arcTool,
+          polygon: polygonTool,
+          extrude: extrudeTool,
+          move: moveTool,
+          rotate: rotateTool,
+          scale: scaleTool,
+          measure: measureTool,
+          dimension: dimensionTool,
+          label: labelTool
+        };
+        const tool = historyTools[activeToolRef.current]?.current;
+        if (event.shiftKey) {
+          tool?.redo();
+        } else {
+          tool?.undo();
         }
       }
     };
@@ -153,17 +389,45 @@ export function Toolbar({ scene, camera, renderer, controls, onToolChange }: Too
       window.removeEventListener('keydown', handleKeyDown);
       lineTool.current?.disable();
       rectangleTool.current?.disable();
+      circleTool.current?.disable();
+      arcTool.current?.disable();
+      polygonTool.current?.disable();
+      moveTool.current?.disable();
+      rotateTool.current?.disable();
+      scaleTool.current?.disable();
+      measureTool.current?.disable();
+      dimensionTool.current?.disable();
+      labelTool.current?.disable();
+      tools.forEach(tool => toolManager?.remove(tool));
     };
-  }, [scene, camera, renderer]);
+  }, [components, scene, camera, renderer]);
+
+  useEffect(() => {
+    measureTool.current?.setLayerId(activeLayerId ?? null);
+    dimensionTool.current?.setLayerId(activeLayerId ?? null);
+    labelTool.current?.setLayerId(activeLayerId ?? null);
+  }, [activeLayerId]);
 
   const handleToolSelect = (tool: Tool) => {
+    // Disabling the selection tool clears the selection, so keep it for the move, rotate and scale tools
+    const selected = selectionTool.current?.getSelectedObjects() ?? [];
+
     // Disable all tools first
     handTool.current?.disable();
     selectionTool.current?.disable();
     lineTool.current?.disable();
     rectangleTool.current?.disable();
+    circleTool.current?.disable();
+    arcTool.current?.disable();
+    polygonTool.current?.disable();
     extrudeTool.current?.disable();
     extendTool.current?.disable();
+    moveTool.current?.disable();
+    rotateTool.current?.disable();
+    scaleTool.current?.disable();
+    measureTool.current?.disable();
+    dimensionTool.current?.disable();
+    labelTool.current?.disable();
     setShowExtrusionControls(false);
     setShowExtendControls(false);
 
@@ -180,6 +444,15 @@ export function Toolbar({ scene, camera, renderer, controls, onToolChange }: Too
       case 'rectangle':
         rectangleTool.current?.enable();
         break;
+      case 'circle':
+        circleTool.current?.enable();
+        break;
+      case 'arc':
+        arcTool.current?.enable();
+        break;
+      case 'polygon':
+        polygonTool.current?.enable();
+        break;
       case 'extrude':
         extrudeTool.current?.enable();
         setShowExtrusionControls(true);
@@ -189,9 +462,25 @@ export function Toolbar({ scene, camera, renderer, controls, onToolChange }: Too
         setShowExtendControls(true);
         break;
       case 'move':
+        moveTool.current?.setTargets(selected);
+        moveTool.current?.enable();
+        break;
       case 'rotate':
+        rotateTool.current?.setTargets(selected);
+        rotateTool.current?.enable();
+        break;
       case 'scale':
-        // Implement these tools as needed
+        scaleTool.current?.setTargets(selected);
+        scaleTool.current?.enable();
+        break;
+      case 'measure':
+        measureTool.current?.enable();
+        break;
+      case 'dimension':
+        dimensionTool.current?.enable();
+        break;
+      case 'label':
+        labelTool.current?.enable();
         break;
       default:
         break;
@@ -200,6 +489,38 @@ export function Toolbar({ scene, camera, renderer, controls, onToolChange }: Too
     if (onToolChange) onToolChange(tool);
   };
 
+  useImperativeHandle(ref, () => ({ selectTool: handleToolSelect }));
+
+  const handleSegmentsChange = useCallback((segments: number) => {
+    circleTool.current?.setSegments(segments);
+    setCircleSegments(circleTool.current?.getSegments() ?? segments);
+  }, []);
+
+  const handlePolygonModeChange = useCallback((mode: PolygonMode) => {
+    polygonTool.current?.setMode(mode);
+    setPolygonMode(mode);
+  }, []);
+
+  const handleKeepDimensionsChange = useCallback((keep: boolean) => {
+    measureTool.current?.setKeepDimensions(keep);
+    setKeepDimensions(keep);
+  }, []);
+
+  const handleDimensionKindChange = useCallback((kind: DimensionKind) => {
+    dimensionTool.current?.setKind(kind);
+    setDimensionKind(kind);
+  }, []);
+
+  const handleLabelLayerChange = useCallback((layerId: string) => {
+    const layer = layers.find(candidate => candidate.id === layerId);
+    labelTool.current?.setLabelLayer(layerId, layer?.visible ?? true);
+  }, [layers]);
+
+  const handleSnapToggle = useCallback((category: SnapCategory, enabled: boolean) => {
+    setSnapEnabled(category, enabled);
+    setSnapSettings(getSnapSettings());
+  }, []);
+
   const handleHeightChange = useCallback((height: number) => {
     setExtrusionHeight(height);
     extrudeTool.current?.setHeight(height);
@@ -226,7 +547,7 @@ export function Toolbar({ scene, camera, renderer, controls, onToolChange }: Too
     margin: '4px 0'
   };
 
-  const getButtonStyle = (tool: Tool): React.CSSProperties => ({
+  const getButtonStyle = (tool?: Tool): React.CSSProperties => ({
     width: '40px',
     height: '40px',
     backgroundColor: activeTool === tool ? '#007acc' : '#3c3c3c',
@@ -270,19 +591,46 @@ export function Toolbar({ scene, camera, renderer, controls, onToolChange }: Too
         <button
           style={getButtonStyle('line')}
           onClick={() => handleToolSelect('line')}
-          title="Line Tool (L)"
+          title="Line Tool (L) - A for an arc, Right/Left/Up lock to red/green/blue, Shift locks the inference, type a length and Enter"
         >
           <span>📏</span>
         </button>
         <button
           style={getButtonStyle('rectangle')}
           onClick={() => handleToolSelect('rectangle')}
-          title="Rectangle Tool (R)"
+          title="Rectangle Tool (R) - Draws on the face clicked, type width,depth and Enter"
         >
           <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
             <rect x="3" y="3" width="18" height="18" rx="2" ry="2"></rect>
           </svg>
         </button>
+        <button
+          style={getButtonStyle('circle')}
+          onClick={() => handleToolSelect('circle')}
+          title="Circle Tool (C)"
+        >
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <circle cx="12" cy="12" r="9"></circle>
+          </svg>
+        </button>
+        <button
+          style={getButtonStyle('arc')}
+          onClick={() => handleToolSelect('arc')}
+          title="Arc Tool (A) - Start, end, then bulge"
+        >
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M3 18a9 9 0 0 1 18 0"></path>
+          </svg>
+        </button>
+        <button
+          style={getButtonStyle('polygon')}
+          onClick={() => handleToolSelect('polygon')}
+          title="Polygon Tool (P) - Type 6s for six sides"
+        >
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M12 3l8 4.5v9L12 21l-8-4.5v-9z"></path>
+          </svg>
+        </button>
         <button
           style={getButtonStyle('extrude')}
           onClick={() => handleToolSelect('extrude')}
@@ -301,25 +649,117 @@ export function Toolbar({ scene, camera, renderer, controls, onToolChange }: Too
         <button
           style={getButtonStyle('move')}
           onClick={() => handleToolSelect('move')}
-          title="Move Tool (W)"
+          title="Move Tool (W) - Right/Left/Up lock to red/green/blue, Ctrl copies"
         >
           <span>✥</span>
         </button>
         <button
           style={getButtonStyle('rotate')}
           onClick={() => handleToolSelect('rotate')}
-          title="Rotate Tool (E)"
+          title="Rotate Tool (E) - Center, reference, then angle"
         >
           <span>🔄</span>
         </button>
         <button
           style={getButtonStyle('scale')}
           onClick={() => handleToolSelect('scale')}
-          title="Scale Tool (R)"
+          title="Scale Tool (R) - Click a grip, Ctrl about center, Shift uniform"
         >
           <span>⇲</span>
         </button>
+        <button
+          style={getButtonStyle('measure')}
+          onClick={() => handleToolSelect('measure')}
+          title="Measure Tool (T) - Snaps to vertices and edges"
+        >
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M3 17L17 3l4 4L7 21z"></path>
+            <path d="M7 13l2 2"></path>
+            <path d="M10 10l2 2"></path>
+            <path d="M13 7l2 2"></path>
+          </svg>
+        </button>
+        <button
+          style={getButtonStyle('dimension')}
+          onClick={() => handleToolSelect('dimension')}
+          title="Dimension Tool (D) - Linear, aligned, angular and radial"
+        >
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M4 6v12"></path>
+            <path d="M20 6v12"></path>
+            <path d="M4 12h16"></path>
+            <path d="M7 9l-3 3 3 3"></path>
+            <path d="M17 9l3 3-3 3"></path>
+          </svg>
+        </button>
+        <button
+          style={getButtonStyle('label')}
+          onClick={() => handleToolSelect('label')}
+          title="Label Tool (N) - Billboard or flat text, with an optional leader"
+        >
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M4 7V4h16v3"></path>
+            <path d="M12 4v16"></path>
+            <path d="M9 20h6"></path>
+          </svg>
+        </button>
+        <button
+          style={{ ...getButtonStyle(), backgroundColor: showSnapControls ? '#007acc' : '#3c3c3c' }}
+          onClick={() => setShowSnapControls(show => !show)}
+          title="Snap Settings - Choose what drawing tools snap to"
+        >
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M6 3v8a6 6 0 0 0 12 0V3"></path>
+            <path d="M6 7h4"></path>
+            <path d="M14 7h4"></path>
+          </svg>
+        </button>
         <div style={dividerStyle}></div>
+        <button
+          style={getButtonStyle()}
+          onClick={() => ifcFileInput.current?.click()}
+          title="Open IFC or Fragments"
+        >
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M3 7a2 2 0 0 1 2-2h4l2 2h8a2 2 0 0 1 2 2v8a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2z"></path>
+          </svg>
+        </button>
+        <input
+          ref={ifcFileInput}
+          type="file"
+          accept=".ifc,.frag"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file && onOpenIfc) {
+              onOpenIfc(file);
+            }
+            // Allow the same file to be opened again
+            e.target.value = '';
+          }}
+        />
+        <button
+          style={getButtonStyle()}
+          onClick={() => onExportIfc?.()}
+          title="Export IFC"
+        >
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+            <path d="M7 10l5 5 5-5"></path>
+            <path d="M12 15V3"></path>
+          </svg>
+        </button>
+        <button
+          style={getButtonStyle()}
+          onClick={() => onSaveFragments?.()}
+          title="Save as Fragments (.frag)"
+        >
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M12 2l9 5-9 5-9-5 9-5z"></path>
+            <path d="M3 12l9 5 9-5"></path>
+            <path d="M3 17l9 5 9-5"></path>
+          </svg>
+        </button>
         <div style={{ flexGrow: 1 }}></div>
       </div>
       
@@ -331,6 +771,82 @@ export function Toolbar({ scene, camera, renderer, controls, onToolChange }: Too
         />
       )}
       
+      <CircleControls
+        radius={circleRadius.radius}
+        typedRadius={circleRadius.typed}
+        segments={circleSegments}
+        onSegmentsChange={handleSegmentsChange}
+        visible={activeTool === 'circle'}
+      />
+
+      <PolygonControls
+        radius={polygonState.radius}
+        typed={polygonState.typed}
+        sides={polygonState.sides}
+        mode={polygonMode}
+        onSidesChange={(sides) => polygonTool.current?.setSides(sides)}
+        onModeChange={handlePolygonModeChange}
+        visible={activeTool === 'polygon'}
+      />
+
+      <MoveControls
+        distance={moveState.distance}
+        typed={moveState.typed}
+        axis={moveState.axis}
+        visible={activeTool === 'move'}
+      />
+
+      <RotateControls
+        angle={rotateState.angle}
+        typed={rotateState.typed}
+        axis={rotateState.axis}
+        visible={activeTool === 'rotate'}
+      />
+
+      <ScaleControls
+        factors={scaleState.factors}
+        typed={scaleState.typed}
+        visible={activeTool === 'scale'}
+      />
+
+      <MeasureControls
+        distance={measurement.distance}
+        delta={measurement.delta}
+        keepDimensions={keepDimensions}
+        onKeepDimensionsChange={handleKeepDimensionsChange}
+        visible={activeTool === 'measure'}
+      />
+
+      <DimensionControls
+        kind={dimensionKind}
+        status={dimensionState.status}
+        style={dimensionState.style}
+        onKindChange={handleDimensionKindChange}
+        onTextSizeChange={(textSize) => dimensionTool.current?.setTextSize(textSize)}
+        onArrowStyleChange={(arrowStyle) => dimensionTool.current?.setArrowStyle(arrowStyle)}
+        visible={activeTool === 'dimension'}
+      />
+
+      <LabelControls
+        status={labelState.status}
+        settings={labelState.settings}
+        editing={labelState.editing}
+        layers={layers}
+        onTextChange={(text) => labelTool.current?.setText(text)}
+        onKindChange={(kind) => labelTool.current?.setKind(kind)}
+        onColorChange={(color) => labelTool.current?.setColor(color)}
+        onSizeChange={(size) => labelTool.current?.setSize(size)}
+        onLeaderChange={(leader) => labelTool.current?.setLeader(leader)}
+        onLayerChange={handleLabelLayerChange}
+        visible={activeTool === 'label'}
+      />
+
+      <SnapControls
+        settings={snapSettings}
+        onToggle={handleSnapToggle}
+        visible={showSnapControls}
+      />
+
       {showExtendControls && (
         <div className="absolute top-16 right-4 bg-gray-800 p-4 rounded-lg shadow-lg">
           <h3 className="text-white mb-2">Extend Tool</h3>
@@ -0,0 +1,121 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import type { IfcManager } from '../ifc/IfcManager';
+import type { IfcElementProperties } from '../ifc/types';
+import { IdsValidator, matchesValue } from './IdsValidator';
+import type { IdsFacet, IdsSpecification, IdsValue } from './types';
+
+const simple = (value: string): IdsValue => ({ kind: 'simple', value });
+
+const restriction = (constraints: Partial<Extract<IdsValue, { kind: 'restriction' }>>): IdsValue => ({
+  kind: 'restriction',
+  enumeration: [],
+  patterns: [],
+  ...constraints
+});
+
+/** A wall of a loaded model with a fire rating, a material and no classification. */
+function createIfcManager(): IfcManager {
+  const wall = new THREE.Object3D();
+  wall.name = 'Wall 1';
+  wall.userData = { expressID: 7, ifcModelId: 'model', ifcType: 'IfcWall' };
+
+  const properties: IfcElementProperties = {
+    expressID: 7,
+    ifcType: 'IFCWALL',
+    attributes: [
+      { name: 'Name', value: 'Wall 1' },
+      { name: 'PredefinedType', value: 'SOLIDWALL' }
+    ],
+    propertySets: [{
+      expressID: 8,
+      name: 'Pset_WallCommon',
+      properties: [
+        { name: 'FireRating', value: 'REI60' },
+        { name: 'IsExternal', value: true }
+      ]
+    }],
+    quantitySets: [{
+      expressID: 9,
+      name: 'Qto_WallBaseQuantities',
+      properties: [{ name: 'Width', value: 0.2, unit: 'm' }]
+    }]
+  };
+
+  return {
+    getAllElements: () => [wall],
+    getElementProperties: async () => properties,
+    getElementMaterials: async () => ['Concrete'],
+    getElementClassifications: async () => []
+  } as unknown as IfcManager;
+}
+
+function createSpecification(requirements: IdsFacet[]): IdsSpecification {
+  return {
+    name: 'Walls',
+    description: '',
+    minOccurs: 0,
+    maxOccurs: null,
+    applicability: [{ type: 'entity', name: simple('IFCWALL'), cardinality: 'required' }],
+    requirements,
+    unsupportedFacets: []
+  };
+}
+
+async function getFailures(requirements: IdsFacet[]): Promise<string[]> {
+  const [result] = await new IdsValidator(createIfcManager()).validate({ title: 'Test', specifications: [createSpecification(requirements)] });
+  return result.elements.flatMap(element => element.failures);
+}
+
+describe('matchesValue', () => {
+  it('compares simple values exactly, numbers with a tolerance and booleans in any case', () => {
+    expect(matchesValue(simple('REI60'), 'REI60')).toBe(true);
+    expect(matchesValue(simple('rei60'), 'REI60')).toBe(false);
+    expect(matchesValue(simple('rei60'), 'REI60', true)).toBe(true);
+    expect(matchesValue(simple('0.2'), 0.2000000001)).toBe(true);
+    expect(matchesValue(simple('0.21'), 0.2)).toBe(false);
+    expect(matchesValue(simple('TRUE'), true)).toBe(true);
+    expect(matchesValue(simple(''), null)).toBe(false);
+  });
+
+  it('checks every constraint of a restriction', () => {
+    expect(matchesValue(restriction({ enumeration: ['REI30', 'REI60'] }), 'REI60')).toBe(true);
+    expect(matchesValue(restriction({ enumeration: ['REI30', 'REI60'] }), 'REI90')).toBe(false);
+    // Patterns match the whole value
+    expect(matchesValue(restriction({ patterns: ['REI[0-9]+'] }), 'REI120')).toBe(true);
+    expect(matchesValue(restriction({ patterns: ['REI'] }), 'REI120')).toBe(false);
+    expect(matchesValue(restriction({ minInclusive: 0.2, maxExclusive: 0.3 }), 0.2)).toBe(true);
+    expect(matchesValue(restriction({ minInclusive: 0.2, maxExclusive: 0.3 }), 0.3)).toBe(false);
+    expect(matchesValue(restriction({ minLength: 2, maxLength: 5 }), 'REI60')).toBe(true);
+    expect(matchesValue(restriction({ length: 4 }), 'REI60')).toBe(false);
+  });
+});
+
+describe('IdsValidator requirements', () => {
+  const fireRating = (value: IdsValue | undefined, cardinality: IdsFacet['cardinality']): IdsFacet =>
+    ({ type: 'property', propertySet: simple('Pset_WallCommon'), baseName: simple('FireRating'), value, cardinality });
+
+  it('tells missing required values from wrong ones', async () => {
+    expect(await getFailures([fireRating(simple('REI60'), 'required')])).toEqual([]);
+    expect(await getFailures([fireRating(simple('REI90'), 'required')])).toEqual(['Wrong property Pset_WallCommon.FireRating = REI90']);
+    expect(await getFailures([{ type: 'property', propertySet: simple('Pset_WallCommon'), baseName: simple('AcousticRating'), cardinality: 'required' }]))
+      .toEqual(['Missing property Pset_WallCommon.AcousticRating']);
+  });
+
+  it('lets optional values be missing but not wrong', async () => {
+    expect(await getFailures([{ type: 'classification', value: simple('Ss_25_10'), cardinality: 'optional' }])).toEqual([]);
+    expect(await getFailures([{ type: 'material', value: simple('Timber'), cardinality: 'optional' }])).toEqual(['Wrong material = Timber']);
+  });
+
+  it('fails prohibited values only when they match', async () => {
+    expect(await getFailures([fireRating(simple('REI90'), 'prohibited')])).toEqual([]);
+    expect(await getFailures([{ type: 'attribute', name: simple('Name'), cardinality: 'prohibited' }])).toEqual(['Prohibited attribute Name']);
+  });
+
+  it('reads quantities and predefined types', async () => {
+    expect(await getFailures([
+      { type: 'property', propertySet: simple('Qto_WallBaseQuantities'), baseName: simple('Width'), value: restriction({ maxInclusive: 0.25 }), cardinality: 'required' },
+      { type: 'entity', name: simple('IFCWALL'), predefinedType: simple('SOLIDWALL'), cardinality: 'required' }
+    ])).toEqual([]);
+  });
+});
@@ -0,0 +1,291 @@
+import type * as THREE from 'three';
+import type { IfcManager } from '../ifc/IfcManager';
+import type { IfcClassificationReference, IfcElementProperties, IfcPropertyValue } from '../ifc/types';
+import type { IdsDocument, IdsElementResult, IdsFacet, IdsSpecification, IdsSpecificationResult, IdsValue } from './types';
+
+type Value = IfcPropertyValue['value'];
+
+/** Relative tolerance IDS allows when comparing real numbers. */
+const NUMBER_TOLERANCE = 1e-6;
+
+/**
+ * The data of one element that the facets look at. Properties, materials and
+ * classifications are read on first use and kept, so an element is queried
+ * once however many specifications apply to it.
+ */
+class ElementFacts {
+  readonly element: THREE.Object3D;
+  private ifcManager: IfcManager;
+  private properties?: Promise<IfcElementProperties | null>;
+  private materials?: Promise<string[]>;
+  private classifications?: Promise<IfcClassificationReference[]>;
+
+  constructor(ifcManager: IfcManager, element: THREE.Object3D) {
+    this.ifcManager = ifcManager;
+    this.element = element;
+  }
+
+  get modelId(): string {
+    return this.element.userData.ifcModelId;
+  }
+
+  get expressID(): number {
+    return this.element.userData.expressID;
+  }
+
+  get ifcType(): string {
+    return String(this.element.userData.ifcType ?? '').toUpperCase();
+  }
+
+  getProperties() {
+    this.properties ??= this.ifcManager.getElementProperties(this.modelId, this.expressID);
+    return this.properties;
+  }
+
+  getMaterials() {
+    this.materials ??= this.ifcManager.getElementMaterials(this.modelId, this.expressID);
+    return this.materials;
+  }
+
+  getClassifications() {
+    this.classifications ??= this.ifcManager.getElementClassifications(this.modelId, this.expressID);
+    return this.classifications;
+  }
+}
+
+/** Whether the facet's subject exists on the element, and whether it matches the facet. */
+interface FacetCheck {
+  present: boolean;
+  matches: boolean;
+}
+
+/**
+ * Checks every element of the loaded IFC models against the specifications
+ * of an IDS document. An element is checked by a specification when it meets
+ * all of its applicability facets, and passes when it meets its requirements.
+ * The dataType of property facets is not checked, as property values are
+ * read without their IFC measure type.
+ */
+export class IdsValidator {
+  private ifcManager: IfcManager;
+
+  constructor(ifcManager: IfcManager) {
+    this.ifcManager = ifcManager;
+  }
+
+  public async validate(document: IdsDocument): Promise<IdsSpecificationResult[]> {
+    const facts = this.ifcManager.getAllElements()
+      .filter(element => element.userData.expressID !== undefined)
+      .map(element => new ElementFacts(this.ifcManager, element));
+
+    const results: IdsSpecificationResult[] = [];
+    for (const specification of document.specifications) {
+      results.push(await this.validateSpecification(specification, facts));
+    }
+    return results;
+  }
+
+  private async validateSpecification(specification: IdsSpecification, facts: ElementFacts[]): Promise<IdsSpecificationResult> {
+    const elements: IdsElementResult[] = [];
+
+    for (const element of facts) {
+      if (!await this.isApplicable(specification, element)) continue;
+
+      const failures: string[] = [];
+      // A specification with maxOccurs 0 forbids the applicable elements altogether
+      if (specification.maxOccurs === 0) {
+        failures.push('Element is not allowed by this specification');
+      }
+      for (const facet of specification.requirements) {
+        const failure = await this.checkRequirement(facet, element);
+        if (failure) failures.push(failure);
+      }
+
+      elements.push({
+        modelId: element.modelId,
+        expressID: element.expressID,
+        name: element.element.name,
+        ifcType: element.ifcType,
+        passed: failures.length === 0,
+        failures
+      });
+    }
+
+    const count = elements.length;
+    const countInBounds = count >= specification.minOccurs &&
+      (specification.maxOccurs === null || specification.maxOccurs === 0 || count <= specification.maxOccurs);
+
+    return {
+      specification,
+      elements,
+      passed: countInBounds && elements.every(element => element.passed)
+    };
+  }
+
+  private async isApplicable(specification: IdsSpecification, element: ElementFacts): Promise<boolean> {
+    if (specification.applicability.length === 0) return false;
+
+    for (const facet of specification.applicability) {
+      const { matches } = await this.checkFacet(facet, element);
+      if (!matches) return false;
+    }
+    return true;
+  }
+
+  /** Returns why the element fails the requirement, or null when it meets it. */
+  private async checkRequirement(facet: IdsFacet, element: ElementFacts): Promise<string | null> {
+    const { present, matches } = await this.checkFacet(facet, element);
+
+    switch (facet.cardinality) {
+      case 'required':
+        return matches ? null : `${present ? 'Wrong' : 'Missing'} ${describeFacet(facet)}`;
+      case 'optional':
+        return !present || matches ? null : `Wrong ${describeFacet(facet)}`;
+      case 'prohibited':
+        return matches ? `Prohibited ${describeFacet(facet)}` : null;
+    }
+  }
+
+  private async checkFacet(facet: IdsFacet, element: ElementFacts): Promise<FacetCheck> {
+    switch (facet.type) {
+      case 'entity': {
+        let matches = matchesValue(facet.name, element.ifcType, true);
+        if (matches && facet.predefinedType) {
+          const attributes = (await element.getProperties())?.attributes ?? [];
+          const predefinedType = findAttribute(attributes, 'PredefinedType');
+          // A USERDEFINED predefined type is spelled out in ObjectType
+          const actual = predefinedType === 'USERDEFINED' ? findAttribute(attributes, 'ObjectType') : predefinedType;
+          matches = matchesValue(facet.predefinedType, actual);
+        }
+        return { present: true, matches };
+      }
+
+      case 'attribute': {
+        const attributes = (await element.getProperties())?.attributes ?? [];
+        const values = attributes
+          .filter(attribute => matchesValue(facet.name, attribute.name) && !isEmpty(attribute.value))
+          .map(attribute => attribute.value);
+        return check(values, facet.value);
+      }
+
+      case 'property': {
+        const properties = await element.getProperties();
+        const groups = [...(properties?.propertySets ?? []), ...(properties?.quantitySets ?? [])];
+        const values = groups
+          .filter(group => matchesValue(facet.propertySet, group.name))
+          .flatMap(group => group.properties)
+          .filter(property => matchesValue(facet.baseName, property.name) && !isEmpty(property.value))
+          .map(property => property.value);
+        return check(values, facet.value);
+      }
+
+      case 'classification': {
+        const references = await element.getClassifications();
+        const matching = references.filter(reference =>
+          (!facet.system || matchesValue(facet.system, reference.system)) &&
+          (!facet.value || matchesValue(facet.value, reference.identification || reference.name))
+        );
+        return { present: references.length > 0, matches: matching.length > 0 };
+      }
+
+      case 'material': {
+        const materials = await element.getMaterials();
+        return check(materials, facet.value);
+      }
+    }
+  }
+}
+
+/** The subject is present when it has a value, and matches when any of the values does. */
+function check(values: Value[], expected: IdsValue | undefined): FacetCheck {
+  const present = values.length > 0;
+  return {
+    present,
+    matches: present && (!expected || values.some(value => matchesValue(expected, value)))
+  };
+}
+
+function findAttribute(attributes: IfcPropertyValue[], name: string): Value {
+  return attributes.find(attribute => attribute.name === name)?.value ?? null;
+}
+
+function isEmpty(value: Value): boolean {
+  return value === null || value === '';
+}
+
+/**
+ * Compares a value against an IDS value. Numbers are compared with a small
+ * tolerance and booleans case-insensitively; IFC entity names are compared
+ * case-insensitively when `ignoreCase` is set.
+ */
+export function matchesValue(expected: IdsValue, actual: Value, ignoreCase = false): boolean {
+  if (isEmpty(actual)) return false;
+
+  const equals = (candidate: string) => {
+    if (typeof actual === 'number') {
+      const number = Number(candidate);
+      return !Number.isNaN(number) && Math.abs(number - actual) <= NUMBER_TOLERANCE * Math.max(1, Math.abs(actual));
+    }
+    if (typeof actual === 'boolean' || ignoreCase) {
+      return candidate.toUpperCase() === String(actual).toUpperCase();
+    }
+    return candidate === actual;
+  };
+
+  if (expected.kind === 'simple') return equals(expected.value);
+
+  const text = String(actual);
+  const number = Number(actual);
+  if (expected.enumeration.length > 0 && !expected.enumeration.some(equals)) return false;
+  if (expected.patterns.length > 0 && !expected.patterns.some(pattern => matchesPattern(pattern, text))) return false;
+  if (expected.minInclusive !== undefined && !(number >= expected.minInclusive)) return false;
+  if (expected.maxInclusive !== undefined && !(number <= expected.maxInclusive)) return false;
+  if (expected.minExclusive !== undefined && !(number > expected.minExclusive)) return false;
+  if (expected.maxExclusive !== undefined && !(number < expected.maxExclusive)) return false;
+  if (expected.length !== undefined && text.length !== expected.length) return false;
+  if (expected.minLength !== undefined && text.length < expected.minLength) return false;
+  if (expected.maxLength !== undefined && text.length > expected.maxLength) return false;
+  return true;
+}
+
+/** XSD patterns always match the whole value. */
+function matchesPattern(pattern: string, text: string): boolean {
+  try {
+    return new RegExp(`^(?:${pattern})$`, 'u').test(text);
+  } catch {
+    console.warn(`Invalid IDS pattern: ${pattern}`);
+    return false;
+  }
+}
+
+function describeValue(value: IdsValue | undefined): string {
+  if (!value) return '';
+  if (value.kind === 'simple') return value.value;
+
+  const parts = [
+    ...(value.enumeration.length > 0 ? [value.enumeration.join(' | ')] : []),
+    ...value.patterns.map(pattern => `/${pattern}/`),
+    ...(value.minInclusive !== undefined ? [`≥ ${value.minInclusive}`] : []),
+    ...(value.minExclusive !== undefined ? [`> ${value.minExclusive}`] : []),
+    ...(value.maxInclusive !== undefined ? [`≤ ${value.maxInclusive}`] : []),
+    ...(value.maxExclusive !== undefined ? [`< ${value.maxExclusive}`] : [])
+  ];
+  return parts.join(', ') || 'restricted value';
+}
+
+function describeFacet(facet: IdsFacet): string {
+  const withValue = (value: IdsValue | undefined) => (value ? ` = ${describeValue(value)}` : '');
+
+  switch (facet.type) {
+    case 'entity':
+      return `entity ${describeValue(facet.name)}${facet.predefinedType ? `.${describeValue(facet.predefinedType)}` : ''}`;
+    case 'attribute':
+      return `attribute ${describeValue(facet.name)}${withValue(facet.value)}`;
+    case 'property':
+      return `property ${describeValue(facet.propertySet)}.${describeValue(facet.baseName)}${withValue(facet.value)}`;
+    case 'classification':
+      return `classification${facet.system ? ` ${describeValue(facet.system)}` : ''}${withValue(facet.value)}`;
+    case 'material':
+      return `material${withValue(facet.value)}`;
+  }
+}
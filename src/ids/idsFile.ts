@@ -0,0 +1,157 @@
+import type { IdsCardinality, IdsDocument, IdsFacet, IdsSpecification, IdsValue } from './types';
+
+/**
+ * Parses an Information Delivery Specification. Elements are matched by local
+ * name, so documents with or without the `ids:` and `xs:` prefixes are read
+ * alike, and the IDS 0.9 minOccurs/maxOccurs form is accepted next to the
+ * IDS 1.0 cardinality attribute.
+ */
+export function parseIdsFile(xml: string): IdsDocument {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const parserError = document.getElementsByTagName('parsererror')[0];
+  if (parserError) {
+    throw new Error(`Invalid IDS file: ${parserError.textContent ?? 'XML parse error'}`);
+  }
+
+  const root = document.documentElement;
+  if (root.localName !== 'ids') {
+    throw new Error(`Invalid IDS file: unexpected root element <${root.localName}>`);
+  }
+
+  const info = child(root, 'info');
+  const specifications = children(child(root, 'specifications'), 'specification').map(readSpecification);
+
+  return {
+    title: text(child(info, 'title')) || 'Untitled IDS',
+    specifications
+  };
+}
+
+function readSpecification(element: Element): IdsSpecification {
+  const applicability = child(element, 'applicability');
+  const requirements = child(element, 'requirements');
+
+  // IDS 1.0 puts the occurrence bounds on <applicability>, 0.9 on <specification>
+  const occurs = applicability && (applicability.hasAttribute('minOccurs') || applicability.hasAttribute('maxOccurs'))
+    ? applicability
+    : element;
+  const maxOccurs = occurs.getAttribute('maxOccurs');
+
+  const unsupportedFacets: string[] = [];
+  const readFacets = (parent: Element | undefined, isRequirement: boolean) =>
+    facetElements(parent).flatMap((facetElement) => {
+      const facet = readFacet(facetElement, isRequirement);
+      if (!facet) unsupportedFacets.push(facetElement.localName);
+      return facet ? [facet] : [];
+    });
+
+  return {
+    name: element.getAttribute('name') ?? 'Unnamed specification',
+    description: element.getAttribute('description') ?? element.getAttribute('instructions') ?? '',
+    minOccurs: Number(occurs.getAttribute('minOccurs') ?? 0) || 0,
+    maxOccurs: maxOccurs === null || maxOccurs === 'unbounded' ? null : Number(maxOccurs),
+    applicability: readFacets(applicability, false),
+    requirements: readFacets(requirements, true),
+    unsupportedFacets
+  };
+}
+
+function readFacet(element: Element, isRequirement: boolean): IdsFacet | null {
+  const cardinality = isRequirement ? readCardinality(element) : 'required';
+
+  switch (element.localName) {
+    case 'entity': {
+      const name = readValue(child(element, 'name'));
+      if (!name) return null;
+      return { type: 'entity', name, predefinedType: readValue(child(element, 'predefinedType')), cardinality: 'required' };
+    }
+    case 'attribute': {
+      const name = readValue(child(element, 'name'));
+      if (!name) return null;
+      return { type: 'attribute', name, value: readValue(child(element, 'value')), cardinality };
+    }
+    case 'property': {
+      const propertySet = readValue(child(element, 'propertySet'));
+      // IDS 0.9 called the property name <name>
+      const baseName = readValue(child(element, 'baseName') ?? child(element, 'name'));
+      if (!propertySet || !baseName) return null;
+      return {
+        type: 'property',
+        propertySet,
+        baseName,
+        value: readValue(child(element, 'value')),
+        dataType: element.getAttribute('dataType') ?? undefined,
+        cardinality
+      };
+    }
+    case 'classification':
+      return {
+        type: 'classification',
+        system: readValue(child(element, 'system')),
+        value: readValue(child(element, 'value')),
+        cardinality
+      };
+    case 'material':
+      return { type: 'material', value: readValue(child(element, 'value')), cardinality };
+    default:
+      return null;
+  }
+}
+
+function readCardinality(element: Element): IdsCardinality {
+  const cardinality = element.getAttribute('cardinality');
+  if (cardinality === 'optional' || cardinality === 'prohibited' || cardinality === 'required') {
+    return cardinality;
+  }
+
+  if (element.getAttribute('maxOccurs') === '0') return 'prohibited';
+  if (element.getAttribute('minOccurs') === '0') return 'optional';
+  return 'required';
+}
+
+function readValue(element: Element | undefined): IdsValue | undefined {
+  if (!element) return undefined;
+
+  const simpleValue = child(element, 'simpleValue');
+  if (simpleValue) return { kind: 'simple', value: text(simpleValue) };
+
+  const restriction = child(element, 'restriction');
+  if (!restriction) return undefined;
+
+  const values = (name: string) => children(restriction, name).map(facet => facet.getAttribute('value') ?? '');
+  const number = (name: string) => {
+    const [value] = values(name);
+    return value === undefined ? undefined : Number(value);
+  };
+
+  return {
+    kind: 'restriction',
+    enumeration: values('enumeration'),
+    patterns: values('pattern'),
+    minInclusive: number('minInclusive'),
+    maxInclusive: number('maxInclusive'),
+    minExclusive: number('minExclusive'),
+    maxExclusive: number('maxExclusive'),
+    length: number('length'),
+    minLength: number('minLength'),
+    maxLength: number('maxLength')
+  };
+}
+
+const FACET_NAMES = new Set(['entity', 'attribute', 'property', 'classification', 'material', 'partOf']);
+
+function facetElements(parent: Element | undefined): Element[] {
+  return parent ? Array.from(parent.children).filter(element => FACET_NAMES.has(element.localName)) : [];
+}
+
+function children(parent: Element | undefined, localName: string): Element[] {
+  return parent ? Array.from(parent.children).filter(element => element.localName === localName) : [];
+}
+
+function child(parent: Element | undefined, localName: string): Element | undefined {
+  return children(parent, localName)[0];
+}
+
+function text(element: Element | undefined): string {
+  return element?.textContent?.trim() ?? '';
+}
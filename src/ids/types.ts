@@ -0,0 +1,63 @@
+/**
+ * An IDS value: either a single expected value or an xs:restriction with
+ * any of enumeration, pattern, bounds and length constraints.
+ */
+export type IdsValue =
+  | { kind: 'simple'; value: string }
+  | {
+    kind: 'restriction';
+    enumeration: string[];
+    patterns: string[];
+    minInclusive?: number;
+    maxInclusive?: number;
+    minExclusive?: number;
+    maxExclusive?: number;
+    length?: number;
+    minLength?: number;
+    maxLength?: number;
+  };
+
+/** How a requirement facet must be met. Applicability facets are always 'required'. */
+export type IdsCardinality = 'required' | 'optional' | 'prohibited';
+
+export type IdsFacet =
+  | { type: 'entity'; name: IdsValue; predefinedType?: IdsValue; cardinality: IdsCardinality }
+  | { type: 'attribute'; name: IdsValue; value?: IdsValue; cardinality: IdsCardinality }
+  | { type: 'property'; propertySet: IdsValue; baseName: IdsValue; value?: IdsValue; dataType?: string; cardinality: IdsCardinality }
+  | { type: 'classification'; system?: IdsValue; value?: IdsValue; cardinality: IdsCardinality }
+  | { type: 'material'; value?: IdsValue; cardinality: IdsCardinality };
+
+export interface IdsSpecification {
+  name: string;
+  description: string;
+  /** Minimum and maximum number of applicable elements; maxOccurs null means unbounded. */
+  minOccurs: number;
+  maxOccurs: number | null;
+  applicability: IdsFacet[];
+  requirements: IdsFacet[];
+  /** Facet types this tool cannot check, such as partOf; they are reported and skipped. */
+  unsupportedFacets: string[];
+}
+
+export interface IdsDocument {
+  title: string;
+  specifications: IdsSpecification[];
+}
+
+/** Outcome of one specification for one applicable element. */
+export interface IdsElementResult {
+  modelId: string;
+  expressID: number;
+  name: string;
+  ifcType: string;
+  passed: boolean;
+  /** Why the element failed, one line per failed requirement. */
+  failures: string[];
+}
+
+export interface IdsSpecificationResult {
+  specification: IdsSpecification;
+  elements: IdsElementResult[];
+  /** False when an element fails or the number of applicable elements is out of bounds. */
+  passed: boolean;
+}
@@ -0,0 +1,108 @@
+import * as THREE from 'three';
+import * as WEBIFC from 'web-ifc';
+import { describe, expect, it } from 'vitest';
+import { IfcExporter } from './IfcExporter';
+import type { IfcManager } from './IfcManager';
+import { ExtrudeTool } from '../components/ExtrudeTool';
+import { LineTool } from '../components/LineTool';
+import { arcFromThreePoints, tessellateArc } from '../utils/arcs';
+import type { Arc } from '../utils/arcs';
+
+async function exportScene(scene: THREE.Scene): Promise<{ api: WEBIFC.IfcAPI; modelID: number; text: string }> {
+  const api = new WEBIFC.IfcAPI();
+  await api.Init();
+  const ifcManager = { getApi: async () => api } as unknown as IfcManager;
+
+  const data = await new IfcExporter(ifcManager).exportExtrusions(scene);
+  return { api, modelID: api.OpenModel(data), text: new TextDecoder().decode(data) };
+}
+
+/** A quarter circle of radius 2 on the ground, drawn the way ArcTool leaves it. */
+function createArcLine(): THREE.Line {
+  const arc = arcFromThreePoints(new THREE.Vector3(2, 0, 0), new THREE.Vector3(Math.SQRT2, 0, -Math.SQRT2), new THREE.Vector3(0, 0, -2))!;
+  const line = new THREE.Line(new THREE.BufferGeometry().setFromPoints(tessellateArc(arc)), new THREE.LineBasicMaterial());
+  line.name = 'Arc';
+  line.userData = { isArc: true, arc };
+  return line;
+}
+
+/** The tools only listen on the canvas, so any event target will do. */
+const renderer = { domElement: new EventTarget() } as unknown as THREE.WebGLRenderer;
+
+/**
+ * A face drawn with LineTool on the ground: a 4 m edge, a half circle of
+ * radius 2 bulging out to x = 6, and straight back.
+ */
+function createFaceWithArc(scene: THREE.Scene): THREE.Mesh {
+  const tool = new LineTool(scene, new THREE.PerspectiveCamera(), renderer, () => {});
+  const points = [new THREE.Vector3(0, 0, 0), new THREE.Vector3(4, 0, 0), new THREE.Vector3(4, 0, -4), new THREE.Vector3(0, 0, -4)];
+  const arc = arcFromThreePoints(points[1], new THREE.Vector3(6, 0, -2), points[2])!;
+  const group = (tool as unknown as { createMeshFromPoints(points: THREE.Vector3[], arcs: Array<Arc | null>): THREE.Object3D })
+    .createMeshFromPoints(points, [null, arc, null]);
+  scene.add(group);
+  return group.children.find((child): child is THREE.Mesh => child instanceof THREE.Mesh && child.userData.isFace)!;
+}
+
+describe('IfcExporter', () => {
+  it('keeps the arc segments of LineTool faces as trimmed circles in the profile', async () => {
+    const scene = new THREE.Scene();
+    const face = createFaceWithArc(scene);
+    new ExtrudeTool(scene, new THREE.PerspectiveCamera(), renderer, () => {}).extrudeFace(face, 2);
+
+    const { api, modelID } = await exportScene(scene);
+    const solids = api.GetLineIDsWithType(modelID, WEBIFC.IFCEXTRUDEDAREASOLID);
+    expect(solids.size()).toBe(1);
+    const solid = api.GetLine(modelID, solids.get(0));
+    expect(solid.Depth.value).toBeCloseTo(2);
+
+    // The straight edges as polylines either side of the arc, not a tessellated outline
+    const profileCurve = api.GetLine(modelID, solid.SweptArea.value).OuterCurve.value;
+    expect(api.GetLineType(modelID, profileCurve)).toBe(WEBIFC.IFCCOMPOSITECURVE);
+    const segmentTypes = api.GetLine(modelID, profileCurve).Segments.map((segment: { value: number }) =>
+      api.GetLineType(modelID, api.GetLine(modelID, segment.value).ParentCurve.value));
+    expect(segmentTypes).toEqual([WEBIFC.IFCPOLYLINE, WEBIFC.IFCTRIMMEDCURVE, WEBIFC.IFCPOLYLINE]);
+
+    const circles = api.GetLineIDsWithType(modelID, WEBIFC.IFCCIRCLE);
+    expect(circles.size()).toBe(1);
+    expect(api.GetLine(modelID, circles.get(0)).Radius.value).toBeCloseTo(2);
+    api.CloseModel(modelID);
+  });
+
+  it('writes arcs as trimmed circles where they were moved to', async () => {
+    const scene = new THREE.Scene();
+    const line = createArcLine();
+    line.position.set(5, 1, 0);
+    scene.add(line);
+
+    const { api, modelID, text } = await exportScene(scene);
+    expect(api.GetLineIDsWithType(modelID, WEBIFC.IFCANNOTATION).size()).toBe(1);
+
+    // Trimmed from 0 to 90 degrees, the project's plane angle unit
+    const trimmedCurves = text.split('\n').filter(line => line.includes('IFCTRIMMEDCURVE'));
+    expect(trimmedCurves).toHaveLength(1);
+    expect(trimmedCurves[0]).toMatch(/IFCPARAMETERVALUE\(0\.\).*IFCPARAMETERVALUE\(90\./);
+
+    const circles = api.GetLineIDsWithType(modelID, WEBIFC.IFCCIRCLE);
+    expect(circles.size()).toBe(1);
+    const circle = api.GetLine(modelID, circles.get(0), true);
+    expect(circle.Radius.value).toBeCloseTo(2);
+    // Scene (5, 1, 0) is IFC (5, 0, 1)
+    const [x, y, z] = circle.Position.Location.Coordinates.map((coordinate: { value: number }) => coordinate.value);
+    expect(x).toBeCloseTo(5);
+    expect(y).toBeCloseTo(0);
+    expect(z).toBeCloseTo(1);
+    api.CloseModel(modelID);
+  });
+
+  it('falls back to a polyline for unevenly scaled arcs', async () => {
+    const scene = new THREE.Scene();
+    const line = createArcLine();
+    line.scale.set(2, 1, 1);
+    scene.add(line);
+
+    const { api, modelID } = await exportScene(scene);
+    expect(api.GetLineIDsWithType(modelID, WEBIFC.IFCANNOTATION).size()).toBe(1);
+    expect(api.GetLineIDsWithType(modelID, WEBIFC.IFCTRIMMEDCURVE).size()).toBe(0);
+    api.CloseModel(modelID);
+  });
+});
@@ -0,0 +1,679 @@
+import * as THREE from 'three';
+import * as WEBIFC from 'web-ifc';
+import { IFC4 } from 'web-ifc';
+import type { IfcManager } from './IfcManager';
+import { getClassification, isClassifiable } from './classification';
+import type { IfcClassName, IfcClassification } from './classification';
+import { DEFAULT_LABEL_SIZES, getLabelData } from '../utils/labels';
+import type { LabelData } from '../utils/labels';
+import { pointOnArc, tessellateArc } from '../utils/arcs';
+import type { Arc } from '../utils/arcs';
+
+/** IFC classes a drawn extrusion can be exported as. */
+export type ExtrusionIfcClass = 'IfcWallStandardCase' | 'IfcSlab';
+
+/** How to pick the IFC class: from the extrusion's proportions, or forced for every extrusion. */
+export type ExtrusionExportMode = 'auto' | ExtrusionIfcClass;
+
+/** What an object is exported as: a stored classification, or the class guessed for an extrusion. */
+type ExportClassification = Omit<IfcClassification, 'ifcClass'> & { ifcClass: IfcClassName | ExtrusionIfcClass };
+
+/** Default element names, e.g. "Wall 3", for objects without a name. */
+const ELEMENT_LABELS: Record<ExportClassification['ifcClass'], string> = {
+  IfcWall: 'Wall',
+  IfcWallStandardCase: 'Wall',
+  IfcSlab: 'Slab',
+  IfcColumn: 'Column',
+  IfcBeam: 'Beam',
+  IfcRoof: 'Roof',
+  IfcMember: 'Member',
+  IfcPlate: 'Plate',
+  IfcCovering: 'Covering',
+  IfcFooting: 'Footing',
+  IfcRailing: 'Railing',
+  IfcStair: 'Stair',
+  IfcSpace: 'Space',
+  IfcBuildingElementProxy: 'Element'
+};
+
+/** The placement and body representation of one exported product. */
+interface ElementBody {
+  placement: IFC4.IfcLocalPlacement;
+  representation: IFC4.IfcProductDefinitionShape;
+}
+
+/** Objects shared by every element of one export. */
+interface ExportContext {
+  api: WEBIFC.IfcAPI;
+  modelID: number;
+  representationContext: IFC4.IfcGeometricRepresentationContext;
+  storey: IFC4.IfcBuildingStorey;
+  storeyPlacement: IFC4.IfcLocalPlacement;
+}
+
+/**
+ * Writes the sketched geometry to an IFC4 file, contained in a default
+ * Project/Site/Building/Storey hierarchy. Extrusions made with ExtrudeTool
+ * become an IfcExtrudedAreaSolid wrapped in a wall or slab; any other object
+ * is only exported once it has been classified, as a triangulated face set.
+ * Labels become annotations with their text and leader, and arcs from ArcTool
+ * annotations with their curve.
+ */
+export class IfcExporter {
+  private ifcManager: IfcManager;
+
+  constructor(ifcManager: IfcManager) {
+    this.ifcManager = ifcManager;
+  }
+
+  /**
+   * Collects every extrusion and classified object in the scene and returns the
+   * IFC file contents. Classified objects keep their own class; `mode` only
+   * decides the class of the extrusions that have none.
+   */
+  public async exportExtrusions(scene: THREE.Scene, mode: ExtrusionExportMode = 'auto', projectName: string = 'Project'): Promise<Uint8Array> {
+    const api = await this.ifcManager.getApi();
+    const modelID = api.CreateModel({ schema: WEBIFC.Schemas.IFC4, name: `${projectName}.ifc` });
+
+    const objects: THREE.Object3D[] = [];
+    const labels: THREE.Object3D[] = [];
+    const arcs: THREE.Line[] = [];
+    scene.traverse((object) => {
+      if (getLabelData(object)) {
+        labels.push(object);
+      } else if (object instanceof THREE.Line && object.userData.isArc) {
+        arcs.push(object);
+      } else if (object instanceof THREE.Mesh && object.userData.isExtrusion) {
+        objects.push(object);
+      } else if (object.parent === scene && getClassification(object) && isClassifiable(object)) {
+        objects.push(object);
+      }
+    });
+
+    const context = this.createSpatialStructure(api, modelID, projectName);
+    const elements: IFC4.IfcProduct[] = [];
+    const spaces: IFC4.IfcSpace[] = [];
+    objects.forEach((object, index) => {
+      const product = this.createElement(context, object, this.getClassification(object, mode), index + 1);
+      if (product instanceof IFC4.IfcSpace) {
+        spaces.push(product);
+      } else {
+        elements.push(product);
+      }
+    });
+    labels.forEach(label => elements.push(this.createAnnotation(context, label, getLabelData(label)!)));
+    arcs.forEach(line => elements.push(this.createArcAnnotation(context, line, line.userData.arc)));
+
+    if (elements.length > 0) {
+      api.WriteLine(modelID, new IFC4.IfcRelContainedInSpatialStructure(
+        api.CreateIFCGloballyUniqueId(modelID),
+        null,
+        null,
+        null,
+        elements,
+        context.storey
+      ));
+    }
+
+    // Spaces are part of the spatial structure, so they are aggregated rather than contained
+    if (spaces.length > 0) {
+      api.WriteLine(modelID, new IFC4.IfcRelAggregates(
+        api.CreateIFCGloballyUniqueId(modelID),
+        null,
+        null,
+        null,
+        context.storey,
+        spaces
+      ));
+    }
+
+    const data = api.SaveModel(modelID);
+    api.CloseModel(modelID);
+    return data;
+  }
+
+  /**
+   * The classification stored on the object, or one guessed for an
+   * unclassified extrusion.
+   */
+  private getClassification(object: THREE.Object3D, mode: ExtrusionExportMode): ExportClassification {
+    const classification = getClassification(object);
+    if (classification) return classification;
+
+    const ifcClass = this.getIfcClass(object, mode);
+    return { ifcClass, name: '', description: '', predefinedType: ifcClass === 'IfcSlab' ? 'FLOOR' : 'STANDARD' };
+  }
+
+  /**
+   * Walls stand upright: anything whose height is smaller than both of its
+   * plan dimensions is treated as a slab.
+   */
+  private getIfcClass(object: THREE.Object3D, mode: ExtrusionExportMode): ExtrusionIfcClass {
+    if (mode !== 'auto') return mode;
+
+    const size = new THREE.Box3().setFromObject(object).getSize(new THREE.Vector3());
+    return size.y < size.x && size.y < size.z ? 'IfcSlab' : 'IfcWallStandardCase';
+  }
+
+  /**
+   * Writes units, the representation context and the default spatial hierarchy.
+   */
+  private createSpatialStructure(api: WEBIFC.IfcAPI, modelID: number, projectName: string): ExportContext {
+    const worldPlacement = this.createAxisPlacement(new THREE.Vector3(), new THREE.Vector3(0, 0, 1), new THREE.Vector3(1, 0, 0));
+
+    const representationContext = new IFC4.IfcGeometricRepresentationContext(
+      null,
+      new IFC4.IfcLabel('Model'),
+      new IFC4.IfcDimensionCount(3),
+      new IFC4.IfcReal(1e-5),
+      worldPlacement,
+      null
+    );
+
+    const units = new IFC4.IfcUnitAssignment([
+      new IFC4.IfcSIUnit(IFC4.IfcUnitEnum.LENGTHUNIT, null, IFC4.IfcSIUnitName.METRE),
+      new IFC4.IfcSIUnit(IFC4.IfcUnitEnum.AREAUNIT, null, IFC4.IfcSIUnitName.SQUARE_METRE),
+      new IFC4.IfcSIUnit(IFC4.IfcUnitEnum.VOLUMEUNIT, null, IFC4.IfcSIUnitName.CUBIC_METRE),
+      // Angles are in degrees, which is what web-ifc reads arc trimming parameters in
+      new IFC4.IfcConversionBasedUnit(
+        new IFC4.IfcDimensionalExponents(0, 0, 0, 0, 0, 0, 0),
+        IFC4.IfcUnitEnum.PLANEANGLEUNIT,
+        new IFC4.IfcLabel('DEGREE'),
+        new IFC4.IfcMeasureWithUnit(
+          typedMeasure(new IFC4.IfcPlaneAngleMeasure(Math.PI / 180)),
+          new IFC4.IfcSIUnit(IFC4.IfcUnitEnum.PLANEANGLEUNIT, null, IFC4.IfcSIUnitName.RADIAN)
+        )
+      )
+    ]);
+
+    const project = new IFC4.IfcProject(
+      api.CreateIFCGloballyUniqueId(modelID),
+      null,
+      new IFC4.IfcLabel(projectName),
+      null,
+      null,
+      null,
+      null,
+      [representationContext],
+      units
+    );
+
+    const sitePlacement = new IFC4.IfcLocalPlacement(null, worldPlacement);
+    const site = new IFC4.IfcSite(
+      api.CreateIFCGloballyUniqueId(modelID),
+      null,
+      new IFC4.IfcLabel('Default Site'),
+      null,
+      null,
+      sitePlacement,
+      null,
+      null,
+      IFC4.IfcElementCompositionEnum.ELEMENT,
+      null,
+      null,
+      null,
+      null,
+      null
+    );
+
+    const buildingPlacement = new IFC4.IfcLocalPlacement(sitePlacement, worldPlacement);
+    const building = new IFC4.IfcBuilding(
+      api.CreateIFCGloballyUniqueId(modelID),
+      null,
+      new IFC4.IfcLabel('Default Building'),
+      null,
+      null,
+      buildingPlacement,
+      null,
+      null,
+      IFC4.IfcElementCompositionEnum.ELEMENT,
+      null,
+      null,
+      null
+    );
+
+    const storeyPlacement = new IFC4.IfcLocalPlacement(buildingPlacement, worldPlacement);
+    const storey = new IFC4.IfcBuildingStorey(
+      api.CreateIFCGloballyUniqueId(modelID),
+      null,
+      new IFC4.IfcLabel('Level 0'),
+      null,
+      null,
+      storeyPlacement,
+      null,
+      null,
+      IFC4.IfcElementCompositionEnum.ELEMENT,
+      new IFC4.IfcLengthMeasure(0)
+    );
+
+    api.WriteLine(modelID, project);
+    api.WriteLine(modelID, this.createAggregation(api, modelID, project, site));
+    api.WriteLine(modelID, this.createAggregation(api, modelID, site, building));
+    api.WriteLine(modelID, this.createAggregation(api, modelID, building, storey));
+
+    return { api, modelID, representationContext, storey, storeyPlacement };
+  }
+
+  private createAggregation(api: WEBIFC.IfcAPI, modelID: number, parent: IFC4.IfcObjectDefinition, child: IFC4.IfcObjectDefinition) {
+    return new IFC4.IfcRelAggregates(
+      api.CreateIFCGloballyUniqueId(modelID),
+      null,
+      null,
+      null,
+      parent,
+      [child]
+    );
+  }
+
+  /**
+   * Turns one object into an IFC product of its class with a body
+   * representation and a placement in the storey.
+   */
+  private createElement(context: ExportContext, object: THREE.Object3D, classification: ExportClassification, index: number): IFC4.IfcProduct {
+    const { api, modelID } = context;
+    const { placement, representation } = object instanceof THREE.Mesh && object.userData.isExtrusion
+      ? this.createSweptSolidBody(context, object)
+      : this.createTessellatedBody(context, object);
+
+    const { ifcClass, predefinedType } = classification;
+    const globalId = api.CreateIFCGloballyUniqueId(modelID);
+    const name = new IFC4.IfcLabel(classification.name || object.name || `${ELEMENT_LABELS[ifcClass]} ${index}`);
+    const description = classification.description ? new IFC4.IfcText(classification.description) : null;
+    // web-ifc enums are classes whose static members are the enum values
+    const enumValue = (enumType: object): object => {
+      const values = enumType as Record<string, object>;
+      return values[predefinedType] ?? values.NOTDEFINED;
+    };
+
+    switch (ifcClass) {
+      case 'IfcSpace':
+        return new IFC4.IfcSpace(globalId, null, name, description, null, placement, representation, null,
+          IFC4.IfcElementCompositionEnum.ELEMENT, enumValue(IFC4.IfcSpaceTypeEnum), null);
+      case 'IfcWallStandardCase':
+        return new IFC4.IfcWallStandardCase(globalId, null, name, description, null, placement, representation, null, enumValue(IFC4.IfcWallTypeEnum));
+      case 'IfcWall':
+        return new IFC4.IfcWall(globalId, null, name, description, null, placement, representation, null, enumValue(IFC4.IfcWallTypeEnum));
+      case 'IfcSlab':
+        return new IFC4.IfcSlab(globalId, null, name, description, null, placement, representation, null, enumValue(IFC4.IfcSlabTypeEnum));
+      case 'IfcColumn':
+        return new IFC4.IfcColumn(globalId, null, name, description, null, placement, representation, null, enumValue(IFC4.IfcColumnTypeEnum));
+      case 'IfcBeam':
+        return new IFC4.IfcBeam(globalId, null, name, description, null, placement, representation, null, enumValue(IFC4.IfcBeamTypeEnum));
+      case 'IfcRoof':
+        return new IFC4.IfcRoof(globalId, null, name, description, null, placement, representation, null, enumValue(IFC4.IfcRoofTypeEnum));
+      case 'IfcMember':
+        return new IFC4.IfcMember(globalId, null, name, description, null, placement, representation, null, enumValue(IFC4.IfcMemberTypeEnum));
+      case 'IfcPlate':
+        return new IFC4.IfcPlate(globalId, null, name, description, null, placement, representation, null, enumValue(IFC4.IfcPlateTypeEnum));
+      case 'IfcCovering':
+        return new IFC4.IfcCovering(globalId, null, name, description, null, placement, representation, null, enumValue(IFC4.IfcCoveringTypeEnum));
+      case 'IfcFooting':
+        return new IFC4.IfcFooting(globalId, null, name, description, null, placement, representation, null, enumValue(IFC4.IfcFootingTypeEnum));
+      case 'IfcRailing':
+        return new IFC4.IfcRailing(globalId, null, name, description, null, placement, representation, null, enumValue(IFC4.IfcRailingTypeEnum));
+      case 'IfcStair':
+        return new IFC4.IfcStair(globalId, null, name, description, null, placement, representation, null, enumValue(IFC4.IfcStairTypeEnum));
+      case 'IfcBuildingElementProxy':
+        return new IFC4.IfcBuildingElementProxy(globalId, null, name, description, null, placement, representation, null, enumValue(IFC4.IfcBuildingElementProxyTypeEnum));
+    }
+  }
+
+  /**
+   * An extrusion keeps its profile: the body is the base shape swept along the
+   * mesh's local Z axis.
+   */
+  private createSweptSolidBody(context: ExportContext, mesh: THREE.Mesh): ElementBody {
+    const { representationContext, storeyPlacement } = context;
+
+    mesh.updateWorldMatrix(true, false);
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    mesh.matrixWorld.decompose(position, quaternion, scale);
+
+    // The shape lies in the mesh's local XY plane and is extruded along local Z by
+    // a depth of 1, so the scale can be baked into the profile and the depth.
+    const shape: THREE.Shape = mesh.userData.baseShape;
+    const profile = new IFC4.IfcArbitraryClosedProfileDef(
+      IFC4.IfcProfileTypeEnum.AREA,
+      null,
+      this.createProfileCurve(shape, scale)
+    );
+
+    const solid = new IFC4.IfcExtrudedAreaSolid(
+      profile,
+      null,
+      new IFC4.IfcDirection([new IFC4.IfcReal(0), new IFC4.IfcReal(0), new IFC4.IfcReal(1)]),
+      new IFC4.IfcPositiveLengthMeasure(scale.z)
+    );
+
+    const representation = new IFC4.IfcProductDefinitionShape(null, null, [
+      new IFC4.IfcShapeRepresentation(
+        representationContext,
+        new IFC4.IfcLabel('Body'),
+        new IFC4.IfcLabel('SweptSolid'),
+        [solid]
+      )
+    ]);
+
+    const localZ = new THREE.Vector3(0, 0, 1).applyQuaternion(quaternion);
+    const localX = new THREE.Vector3(1, 0, 0).applyQuaternion(quaternion);
+    const placement = new IFC4.IfcLocalPlacement(
+      storeyPlacement,
+      this.createAxisPlacement(toIfcCoordinates(position), toIfcCoordinates(localZ), toIfcCoordinates(localX))
+    );
+
+    return { placement, representation };
+  }
+
+  /**
+   * The outline of an extrusion profile. Straight edges become an IfcPolyline;
+   * when the shape has arcs (from LineTool's arc mode) they are kept
+   * as trimmed circles in an IfcCompositeCurve, trimmed by their end points and
+   * by their angles in degrees. An uneven scale would turn the arcs into
+   * ellipses, so that case falls back to the tessellated outline.
+   */
+  private createProfileCurve(shape: THREE.Shape, scale: THREE.Vector3): IFC4.IfcPolyline | IFC4.IfcCompositeCurve {
+    const toProfilePoint = (point: THREE.Vector2) =>
+      new IFC4.IfcCartesianPoint([
+        new IFC4.IfcLengthMeasure(point.x * scale.x),
+        new IFC4.IfcLengthMeasure(point.y * scale.y)
+      ]);
+
+    const isArc = (curve: THREE.Curve<THREE.Vector2>): curve is THREE.EllipseCurve =>
+      curve instanceof THREE.EllipseCurve && curve.xRadius === curve.yRadius && curve.aRotation === 0;
+    const hasArcs = shape.curves.some(isArc);
+    if (!hasArcs || Math.abs(scale.x - scale.y) > 1e-9) {
+      const points = shape.getPoints();
+      if (points.length > 1 && points[0].equals(points[points.length - 1])) {
+        points.pop();
+      }
+      const profilePoints = points.map(toProfilePoint);
+      // IfcPolyline is closed by repeating its first point
+      return new IFC4.IfcPolyline([...profilePoints, profilePoints[0]]);
+    }
+
+    const segments: IFC4.IfcCompositeCurveSegment[] = [];
+    const addSegment = (curve: IFC4.IfcCurve) =>
+      segments.push(new IFC4.IfcCompositeCurveSegment(IFC4.IfcTransitionCode.CONTINUOUS, new IFC4.IfcBoolean('T'), curve));
+
+    // Runs of straight edges between arcs are written as one polyline each
+    let run: THREE.Vector2[] = [];
+    const flushRun = () => {
+      if (run.length > 1) addSegment(new IFC4.IfcPolyline(run.map(toProfilePoint)));
+      run = [];
+    };
+
+    shape.curves.forEach((curve) => {
+      if (isArc(curve)) {
+        flushRun();
+        const circle = new IFC4.IfcCircle(
+          new IFC4.IfcAxis2Placement2D(toProfilePoint(new THREE.Vector2(curve.aX, curve.aY)), null),
+          new IFC4.IfcPositiveLengthMeasure(curve.xRadius * scale.x)
+        );
+        addSegment(new IFC4.IfcTrimmedCurve(
+          circle,
+          [toProfilePoint(curve.getPoint(0)), typedMeasure(new IFC4.IfcParameterValue(THREE.MathUtils.radToDeg(curve.aStartAngle)))],
+          [toProfilePoint(curve.getPoint(1)), typedMeasure(new IFC4.IfcParameterValue(THREE.MathUtils.radToDeg(curve.aEndAngle)))],
+          new IFC4.IfcBoolean(curve.aClockwise ? 'F' : 'T'),
+          IFC4.IfcTrimmingPreference.PARAMETER
+        ));
+        return;
+      }
+
+      // Lines, and any other curve as its points; tiny joins between curves are skipped
+      const points = curve.getPoints(curve instanceof THREE.LineCurve ? 1 : 12);
+      if (points[0].distanceTo(points[points.length - 1]) < 1e-9) return;
+      if (run.length === 0) run.push(points[0]);
+      run.push(...points.slice(1));
+    });
+    flushRun();
+
+    return new IFC4.IfcCompositeCurve(segments, new IFC4.IfcLogical('F'));
+  }
+
+  /**
+   * Any other object (a face drawn with LineTool, for instance) has no profile
+   * to sweep, so its triangles are written in world coordinates instead.
+   */
+  private createTessellatedBody(context: ExportContext, object: THREE.Object3D): ElementBody {
+    const { representationContext, storeyPlacement } = context;
+
+    const coordinates: IFC4.IfcLengthMeasure[][] = [];
+    const triangles: IFC4.IfcPositiveInteger[][] = [];
+    object.updateWorldMatrix(true, true);
+    object.traverse((child) => {
+      if (!(child instanceof THREE.Mesh) || !child.visible) return;
+
+      const geometry: THREE.BufferGeometry = child.geometry;
+      const positions = geometry.getAttribute('position');
+      if (!positions) return;
+
+      // IfcTriangulatedFaceSet indices are 1-based
+      const offset = coordinates.length + 1;
+      const vertex = new THREE.Vector3();
+      for (let i = 0; i < positions.count; i++) {
+        vertex.fromBufferAttribute(positions, i).applyMatrix4(child.matrixWorld);
+        const point = toIfcCoordinates(vertex);
+        coordinates.push([
+          new IFC4.IfcLengthMeasure(point.x),
+          new IFC4.IfcLengthMeasure(point.y),
+          new IFC4.IfcLengthMeasure(point.z)
+        ]);
+      }
+
+      const index = geometry.getIndex();
+      const count = index ? index.count : positions.count;
+      for (let i = 0; i + 2 < count; i += 3) {
+        const [a, b, c] = [i, i + 1, i + 2].map(j => (index ? index.getX(j) : j) + offset);
+        triangles.push([new IFC4.IfcPositiveInteger(a), new IFC4.IfcPositiveInteger(b), new IFC4.IfcPositiveInteger(c)]);
+      }
+    });
+
+    const faceSet = new IFC4.IfcTriangulatedFaceSet(
+      new IFC4.IfcCartesianPointList3D(coordinates),
+      null,
+      null,
+      triangles,
+      null
+    );
+
+    const representation = new IFC4.IfcProductDefinitionShape(null, null, [
+      new IFC4.IfcShapeRepresentation(
+        representationContext,
+        new IFC4.IfcLabel('Body'),
+        new IFC4.IfcLabel('Tessellation'),
+        [faceSet]
+      )
+    ]);
+
+    const placement = new IFC4.IfcLocalPlacement(
+      storeyPlacement,
+      this.createAxisPlacement(new THREE.Vector3(), new THREE.Vector3(0, 0, 1), new THREE.Vector3(1, 0, 0))
+    );
+
+    return { placement, representation };
+  }
+
+  /**
+   * A label as an IfcAnnotation: its text as a text literal in the label's
+   * plane, coloured by a text style, and its leader as a polyline. Billboards
+   * face the camera rather than lying in a plane, so they are written level,
+   * at the default height of flat text.
+   */
+  private createAnnotation(context: ExportContext, label: THREE.Object3D, data: LabelData): IFC4.IfcAnnotation {
+    const { api, modelID, representationContext, storeyPlacement } = context;
+
+    label.updateWorldMatrix(true, false);
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    label.matrixWorld.decompose(position, quaternion, scale);
+
+    const flat = data.kind === 'flat';
+    const normal = flat ? new THREE.Vector3(0, 0, 1).applyQuaternion(quaternion) : new THREE.Vector3(0, 1, 0);
+    const direction = flat ? new THREE.Vector3(1, 0, 0).applyQuaternion(quaternion) : new THREE.Vector3(1, 0, 0);
+    const textPlacement = this.createAxisPlacement(toIfcCoordinates(position), toIfcCoordinates(normal), toIfcCoordinates(direction));
+    const height = flat ? data.size * scale.y : DEFAULT_LABEL_SIZES.flat;
+
+    const literal = new IFC4.IfcPresentableText(data.text);
+    const text = flat
+      ? new IFC4.IfcTextLiteralWithExtent(literal, textPlacement, IFC4.IfcTextPath.RIGHT,
+        new IFC4.IfcPlanarExtent(new IFC4.IfcLengthMeasure(this.getTextWidth(label) * scale.x), new IFC4.IfcLengthMeasure(height)),
+        new IFC4.IfcBoxAlignment('center'))
+      : new IFC4.IfcTextLiteral(literal, textPlacement, IFC4.IfcTextPath.RIGHT);
+
+    const color = new THREE.Color(data.color);
+    api.WriteLine(modelID, new IFC4.IfcStyledItem(text, [
+      new IFC4.IfcTextStyle(
+        null,
+        new IFC4.IfcTextStyleForDefinedFont(
+          new IFC4.IfcColourRgb(null, new IFC4.IfcNormalisedRatioMeasure(color.r), new IFC4.IfcNormalisedRatioMeasure(color.g), new IFC4.IfcNormalisedRatioMeasure(color.b)),
+          null
+        ),
+        null,
+        new IFC4.IfcTextStyleFontModel(new IFC4.IfcLabel('Arial'), [new IFC4.IfcTextFontName('Arial')], null, null,
+          new IFC4.IfcFontWeight('bold'), typedMeasure(new IFC4.IfcLengthMeasure(height))),
+        null
+      )
+    ], null));
+
+    const items: (IFC4.IfcTextLiteral | IFC4.IfcPolyline)[] = [text];
+    if (data.leader) {
+      const points = [new THREE.Vector3(), new THREE.Vector3().fromArray(data.leader)].map((point) => {
+        const world = toIfcCoordinates(point.applyMatrix4(label.matrixWorld));
+        return new IFC4.IfcCartesianPoint([
+          new IFC4.IfcLengthMeasure(world.x),
+          new IFC4.IfcLengthMeasure(world.y),
+          new IFC4.IfcLengthMeasure(world.z)
+        ]);
+      });
+      items.push(new IFC4.IfcPolyline(points));
+    }
+
+    // The text placement and the leader are in world coordinates, so the annotation sits at the storey's origin
+    const placement = new IFC4.IfcLocalPlacement(
+      storeyPlacement,
+      this.createAxisPlacement(new THREE.Vector3(), new THREE.Vector3(0, 0, 1), new THREE.Vector3(1, 0, 0))
+    );
+    const representation = new IFC4.IfcProductDefinitionShape(null, null, [
+      new IFC4.IfcShapeRepresentation(
+        representationContext,
+        new IFC4.IfcLabel('Annotation'),
+        new IFC4.IfcLabel('Annotation2D'),
+        items
+      )
+    ]);
+
+    return new IFC4.IfcAnnotation(
+      api.CreateIFCGloballyUniqueId(modelID),
+      null,
+      new IFC4.IfcLabel(data.text),
+      null,
+      null,
+      placement,
+      representation
+    );
+  }
+
+  /**
+   * An arc from ArcTool as an IfcAnnotation holding an IfcTrimmedCurve: the
+   * arc's circle, placed in the arc's plane and trimmed by its end points and
+   * by its angles in degrees. The arc is moved, turned and scaled with its
+   * line; an uneven scale would make it an ellipse, so that case is written as
+   * the tessellated polyline.
+   */
+  private createArcAnnotation(context: ExportContext, line: THREE.Line, arc: Arc): IFC4.IfcAnnotation {
+    const { api, modelID, representationContext, storeyPlacement } = context;
+
+    line.updateWorldMatrix(true, false);
+    const scale = new THREE.Vector3();
+    line.matrixWorld.decompose(new THREE.Vector3(), new THREE.Quaternion(), scale);
+    const toIfcPoint = (point: THREE.Vector3) => {
+      const world = toIfcCoordinates(point.clone().applyMatrix4(line.matrixWorld));
+      return new IFC4.IfcCartesianPoint([
+        new IFC4.IfcLengthMeasure(world.x),
+        new IFC4.IfcLengthMeasure(world.y),
+        new IFC4.IfcLengthMeasure(world.z)
+      ]);
+    };
+
+    let curve: IFC4.IfcTrimmedCurve | IFC4.IfcPolyline;
+    if (Math.abs(scale.x - scale.y) > 1e-9 || Math.abs(scale.x - scale.z) > 1e-9) {
+      curve = new IFC4.IfcPolyline(tessellateArc(arc).map(toIfcPoint));
+    } else {
+      const center = arc.center.clone().applyMatrix4(line.matrixWorld);
+      const normal = arc.normal.clone().transformDirection(line.matrixWorld);
+      const xAxis = arc.xAxis.clone().transformDirection(line.matrixWorld);
+      const circle = new IFC4.IfcCircle(
+        this.createAxisPlacement(toIfcCoordinates(center), toIfcCoordinates(normal), toIfcCoordinates(xAxis)),
+        new IFC4.IfcPositiveLengthMeasure(arc.radius * scale.x)
+      );
+      curve = new IFC4.IfcTrimmedCurve(
+        circle,
+        [toIfcPoint(pointOnArc(arc, arc.startAngle)), typedMeasure(new IFC4.IfcParameterValue(THREE.MathUtils.radToDeg(arc.startAngle)))],
+        [toIfcPoint(pointOnArc(arc, arc.endAngle)), typedMeasure(new IFC4.IfcParameterValue(THREE.MathUtils.radToDeg(arc.endAngle)))],
+        new IFC4.IfcBoolean('T'),
+        IFC4.IfcTrimmingPreference.PARAMETER
+      );
+    }
+
+    // The curve is in world coordinates, so the annotation sits at the storey's origin
+    const placement = new IFC4.IfcLocalPlacement(
+      storeyPlacement,
+      this.createAxisPlacement(new THREE.Vector3(), new THREE.Vector3(0, 0, 1), new THREE.Vector3(1, 0, 0))
+    );
+    const representation = new IFC4.IfcProductDefinitionShape(null, null, [
+      new IFC4.IfcShapeRepresentation(
+        representationContext,
+        new IFC4.IfcLabel('Annotation'),
+        new IFC4.IfcLabel('Curve3D'),
+        [curve]
+      )
+    ]);
+
+    return new IFC4.IfcAnnotation(
+      api.CreateIFCGloballyUniqueId(modelID),
+      null,
+      new IFC4.IfcLabel(line.name || 'Arc'),
+      null,
+      null,
+      placement,
+      representation
+    );
+  }
+
+  /** The width of a flat label's text in its own units. */
+  private getTextWidth(label: THREE.Object3D): number {
+    const text = label.children.find(child => child instanceof THREE.Mesh);
+    const geometry = text instanceof THREE.Mesh ? text.geometry : null;
+    return geometry instanceof THREE.PlaneGeometry ? geometry.parameters.width : 0;
+  }
+
+  private createAxisPlacement(location: THREE.Vector3, axis: THREE.Vector3, refDirection: THREE.Vector3): IFC4.IfcAxis2Placement3D {
+    return new IFC4.IfcAxis2Placement3D(
+      new IFC4.IfcCartesianPoint([
+        new IFC4.IfcLengthMeasure(location.x),
+        new IFC4.IfcLengthMeasure(location.y),
+        new IFC4.IfcLengthMeasure(location.z)
+      ]),
+      new IFC4.IfcDirection([new IFC4.IfcReal(axis.x), new IFC4.IfcReal(axis.y), new IFC4.IfcReal(axis.z)]),
+      new IFC4.IfcDirection([new IFC4.IfcReal(refDirection.x), new IFC4.IfcReal(refDirection.y), new IFC4.IfcReal(refDirection.z)])
+    );
+  }
+}
+
+/**
+ * web-ifc writes a measure used as a select value (a trimming parameter, a
+ * conversion factor, a font size) without its type name unless the value carries it.
+ */
+function typedMeasure<T extends IFC4.IfcParameterValue | IFC4.IfcPlaneAngleMeasure | IFC4.IfcLengthMeasure>(measure: T): T {
+  return Object.assign(measure, { label: measure.name, valueType: WEBIFC.REAL, type: WEBIFC.LABEL });
+}
+
+/**
+ * THREE is Y-up while IFC is Z-up: (x, y, z) in the scene is (x, -z, y) in IFC.
+ */
+function toIfcCoordinates(vector: THREE.Vector3): THREE.Vector3 {
+  return new THREE.Vector3(vector.x, -vector.z, vector.y);
+}
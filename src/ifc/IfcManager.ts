@@ -0,0 +1,714 @@
+import * as THREE from 'three';
+import * as OBC from '@thatopen/components';
+import * as WEBIFC from 'web-ifc';
+import * as FRAGS from '@thatopen/fragments';
+import webIfcWasmUrl from 'web-ifc/web-ifc.wasm?url';
+import fragmentsWorkerUrl from '@thatopen/fragments/dist/Worker/worker.mjs?url';
+import { readFragmentsMaterials, readFragmentsProperties, readFragmentsSpatialTree, readItemLabels } from './fragmentsData';
+import { QUANTITY_UNITS } from './types';
+import type { IfcClassificationReference, IfcElementProperties, IfcPropertyGroup, IfcPropertyValue, IfcSpatialNode } from './types';
+
+/** Number of items whose geometry is requested from the Fragments worker at once. */
+const FRAGMENTS_BATCH_SIZE = 500;
+
+/**
+ * A model that has been opened through web-ifc or from a .frag file and added
+ * to the scene. The source model stays open so properties can be read on demand.
+ */
+export interface IfcModel {
+  id: string;
+  name: string;
+  /** web-ifc model ID, or null for models opened from a .frag file. */
+  modelID: number | null;
+  /** Fragments model holding the properties of models opened from a .frag file. */
+  fragments: FRAGS.FragmentsModel | null;
+  group: THREE.Group;
+  elements: Map<number, THREE.Object3D>;
+}
+
+/**
+ * Loads IFC files with web-ifc and turns their geometry into THREE meshes.
+ * Every element becomes a group with one mesh per placed geometry, and keeps
+ * its ExpressID and IFC type in `userData` so the rest of the app can find it.
+ * Registered as a component so open models are closed when the app is disposed.
+ */
+export class IfcManager extends OBC.Component implements OBC.Disposable {
+  static readonly uuid = '9b6e4d2a-3f1c-4e8b-a7d5-6c0f2b9e1a34';
+
+  readonly onDisposed: OBC.Event<undefined> = new OBC.Event();
+
+  enabled = true;
+
+  private scene: THREE.Scene;
+  private camera: THREE.PerspectiveCamera;
+  private ifcApi: WEBIFC.IfcAPI | null = null;
+  private initPromise: Promise<WEBIFC.IfcAPI> | null = null;
+  private fragments: FRAGS.FragmentsModels | null = null;
+  private models: Map<string, IfcModel> = new Map();
+  /** Classification references by element, built per web-ifc model on first use. */
+  private classifications: Map<number, Map<number, IfcClassificationReference[]>> = new Map();
+
+  constructor(components: OBC.Components, scene: THREE.Scene, camera: THREE.PerspectiveCamera) {
+    super(components);
+    this.scene = scene;
+    this.camera = camera;
+    components.add(IfcManager.uuid, this);
+  }
+
+  /**
+   * Lazily initializes the web-ifc WASM module the first time it is needed.
+   */
+  public getApi(): Promise<WEBIFC.IfcAPI> {
+    if (!this.initPromise) {
+      const api = new WEBIFC.IfcAPI();
+      this.initPromise = api
+        .Init((path) => (path.endsWith('.wasm') ? webIfcWasmUrl : path), true)
+        .then(() => {
+          this.ifcApi = api;
+          return api;
+        });
+    }
+    return this.initPromise;
+  }
+
+  private getFragments(): FRAGS.FragmentsModels {
+    if (!this.fragments) {
+      this.fragments = new FRAGS.FragmentsModels(fragmentsWorkerUrl);
+    }
+    return this.fragments;
+  }
+
+  /**
+   * Opens an .ifc file with web-ifc, or a .frag file with the Fragments worker.
+   */
+  public async loadFile(file: File): Promise<IfcModel> {
+    const buffer = await file.arrayBuffer();
+    if (file.name.toLowerCase().endsWith('.frag')) {
+      return this.loadFragments(buffer, file.name);
+    }
+    return this.load(new Uint8Array(buffer), file.name);
+  }
+
+  public async load(data: Uint8Array, name: string): Promise<IfcModel> {
+    const api = await this.getApi();
+    const modelID = api.OpenModel(data, { COORDINATE_TO_ORIGIN: true });
+
+    const group = new THREE.Group();
+    group.name = name;
+
+    const geometries = new Map<number, THREE.BufferGeometry>();
+    const materials = new Map<string, THREE.MeshStandardMaterial>();
+    const elements = new Map<number, THREE.Object3D>();
+
+    api.StreamAllMeshes(modelID, (flatMesh) => {
+      const element = this.createElement(api, modelID, flatMesh, geometries, materials);
+      element.userData.ifcModelId = group.uuid;
+      elements.set(flatMesh.expressID, element);
+      group.add(element);
+    });
+
+    group.userData = {
+      isIfcModel: true,
+      ifcModelId: group.uuid
+    };
+
+    const model: IfcModel = {
+      id: group.uuid,
+      name,
+      modelID,
+      fragments: null,
+      group,
+      elements
+    };
+
+    this.models.set(model.id, model);
+    this.scene.add(group);
+    return model;
+  }
+
+  /**
+   * Opens a .frag file without web-ifc. Elements are added to the scene in
+   * batches as their geometry arrives from the worker, using the same
+   * group-per-element layout as `load` so selection and properties keep working.
+   */
+  public async loadFragments(buffer: ArrayBuffer, name: string): Promise<IfcModel> {
+    const group = new THREE.Group();
+    group.name = name;
+    group.userData = {
+      isIfcModel: true,
+      ifcModelId: group.uuid
+    };
+
+    const fragments = this.getFragments();
+    const fragmentsModel = await fragments.load(buffer, { modelId: group.uuid, camera: this.camera });
+    // The worker only builds geometry once the model has been updated with a view
+    await fragments.update(true);
+
+    const model: IfcModel = {
+      id: group.uuid,
+      name,
+      modelID: null,
+      fragments: fragmentsModel,
+      group,
+      elements: new Map()
+    };
+    this.models.set(model.id, model);
+    this.scene.add(group);
+
+    try {
+      const localIds = await fragmentsModel.getItemsIdsWithGeometry();
+      const materials = new Map<string, THREE.MeshStandardMaterial>();
+      for (let i = 0; i < localIds.length; i += FRAGMENTS_BATCH_SIZE) {
+        await this.addFragmentsBatch(model, fragmentsModel, localIds.slice(i, i + FRAGMENTS_BATCH_SIZE), materials);
+      }
+    } catch (error) {
+      this.unload(model.id);
+      throw error;
+    }
+
+    return model;
+  }
+
+  private async addFragmentsBatch(
+    model: IfcModel,
+    fragmentsModel: FRAGS.FragmentsModel,
+    localIds: number[],
+    materials: Map<string, THREE.MeshStandardMaterial>
+  ) {
+    const [labels, meshes, materialDefinitions] = await Promise.all([
+      readItemLabels(fragmentsModel, localIds),
+      fragmentsModel.getItemsGeometry(localIds),
+      fragmentsModel.getItemsMaterialDefinition(localIds)
+    ]);
+
+    const itemMaterials = new Map<number, THREE.MeshStandardMaterial>();
+    materialDefinitions.forEach(({ definition, localIds: ids }) => {
+      // Colors arrive from the worker as plain objects
+      const { r, g, b } = definition.color;
+      const material = this.getMaterial(materials, { x: r, y: g, z: b, w: definition.opacity });
+      ids.forEach(id => {
+        if (!itemMaterials.has(id)) itemMaterials.set(id, material);
+      });
+    });
+    const fallbackMaterial = this.getMaterial(materials, { x: 0.8, y: 0.8, z: 0.8, w: 1 });
+
+    localIds.forEach((localId, index) => {
+      const ifcType = labels.get(localId)?.ifcType ?? '';
+      const element = new THREE.Group();
+      element.name = labels.get(localId)?.name || `${ifcType} #${localId}`;
+      element.userData = {
+        expressID: localId,
+        ifcType,
+        ifcModelId: model.id
+      };
+
+      const material = itemMaterials.get(localId) ?? fallbackMaterial;
+      meshes[index]?.forEach((meshData) => {
+        if (!meshData.positions || !meshData.indices) return;
+
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(meshData.positions), 3));
+        if (meshData.normals) {
+          geometry.setAttribute('normal', new THREE.BufferAttribute(meshData.normals, 3, true));
+        } else {
+          geometry.computeVertexNormals();
+        }
+        geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(meshData.indices), 1));
+
+        const mesh = new THREE.Mesh(geometry, material);
+        mesh.matrix.fromArray(meshData.transform.elements);
+        mesh.matrix.decompose(mesh.position, mesh.quaternion, mesh.scale);
+        element.add(mesh);
+      });
+
+      model.elements.set(localId, element);
+      model.group.add(element);
+    });
+  }
+
+  /**
+   * Builds the group for one IFC element out of its placed geometries.
+   */
+  private createElement(
+    api: WEBIFC.IfcAPI,
+    modelID: number,
+    flatMesh: WEBIFC.FlatMesh,
+    geometries: Map<number, THREE.BufferGeometry>,
+    materials: Map<string, THREE.MeshStandardMaterial>
+  ): THREE.Group {
+    const expressID = flatMesh.expressID;
+    const ifcType = api.GetNameFromTypeCode(api.GetLineType(modelID, expressID));
+    const line = api.GetLine(modelID, expressID);
+
+    const element = new THREE.Group();
+    element.name = line?.Name?.value || `${ifcType} #${expressID}`;
+    element.userData = {
+      expressID,
+      ifcType
+    };
+
+    const placedGeometries = flatMesh.geometries;
+    for (let i = 0; i < placedGeometries.size(); i++) {
+      const placed = placedGeometries.get(i);
+
+      let geometry = geometries.get(placed.geometryExpressID);
+      if (!geometry) {
+        geometry = this.createGeometry(api, modelID, placed.geometryExpressID);
+        geometries.set(placed.geometryExpressID, geometry);
+      }
+
+      const mesh = new THREE.Mesh(geometry, this.getMaterial(materials, placed.color));
+      mesh.matrix.fromArray(placed.flatTransformation);
+      mesh.matrix.decompose(mesh.position, mesh.quaternion, mesh.scale);
+      element.add(mesh);
+    }
+
+    return element;
+  }
+
+  private createGeometry(api: WEBIFC.IfcAPI, modelID: number, geometryExpressID: number): THREE.BufferGeometry {
+    const ifcGeometry = api.GetGeometry(modelID, geometryExpressID);
+    const vertexData = api.GetVertexArray(ifcGeometry.GetVertexData(), ifcGeometry.GetVertexDataSize());
+    const indexData = api.GetIndexArray(ifcGeometry.GetIndexData(), ifcGeometry.GetIndexDataSize());
+
+    // web-ifc interleaves position and normal: [x, y, z, nx, ny, nz, ...]
+    const vertexCount = vertexData.length / 6;
+    const positions = new Float32Array(vertexCount * 3);
+    const normals = new Float32Array(vertexCount * 3);
+    for (let i = 0; i < vertexCount; i++) {
+      positions[i * 3] = vertexData[i * 6];
+      positions[i * 3 + 1] = vertexData[i * 6 + 1];
+      positions[i * 3 + 2] = vertexData[i * 6 + 2];
+      normals[i * 3] = vertexData[i * 6 + 3];
+      normals[i * 3 + 1] = vertexData[i * 6 + 4];
+      normals[i * 3 + 2] = vertexData[i * 6 + 5];
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+    // The index array is a view into the WASM heap, so it has to be copied
+    geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(indexData), 1));
+
+    ifcGeometry.delete();
+    return geometry;
+  }
+
+  private getMaterial(
+    materials: Map<string, THREE.MeshStandardMaterial>,
+    color: Pick<WEBIFC.Color, 'x' | 'y' | 'z' | 'w'>
+  ): THREE.MeshStandardMaterial {
+    const key = `${color.x}-${color.y}-${color.z}-${color.w}`;
+    let material = materials.get(key);
+    if (!material) {
+      material = new THREE.MeshStandardMaterial({
+        color: new THREE.Color(color.x, color.y, color.z),
+        transparent: color.w < 1,
+        opacity: color.w,
+        side: THREE.DoubleSide
+      });
+      materials.set(key, material);
+    }
+    return material;
+  }
+
+  /**
+   * Reads the attributes, property sets and quantity sets of one element.
+   * Property sets inherited from the element's type are included as well.
+   */
+  public async getElementProperties(modelId: string, expressID: number): Promise<IfcElementProperties | null> {
+    const model = this.models.get(modelId);
+    if (!model) return null;
+    if (model.fragments) return readFragmentsProperties(model.fragments, expressID);
+    if (model.modelID === null) return null;
+
+    const api = await this.getApi();
+    const line: RawIfcLine = api.GetLine(model.modelID, expressID);
+    const ifcType = api.GetNameFromTypeCode(api.GetLineType(model.modelID, expressID));
+
+    const attributes: IfcPropertyValue[] = [];
+    Object.entries(line).forEach(([name, raw]) => {
+      if (name === 'expressID' || name === 'type' || !isIfcValue(raw)) return;
+      attributes.push({ name, value: unwrapIfcValue(raw) });
+    });
+
+    const definitions: RawIfcLine[] = [
+      ...await api.properties.getPropertySets(model.modelID, expressID, true),
+      ...await api.properties.getPropertySets(model.modelID, expressID, true, true)
+    ];
+
+    const propertySets: IfcPropertyGroup[] = [];
+    const quantitySets: IfcPropertyGroup[] = [];
+    const seen = new Set<number>();
+    definitions.forEach((definition) => {
+      const definitionID = definition.expressID as number;
+      if (seen.has(definitionID)) return;
+      seen.add(definitionID);
+
+      const name = isIfcValue(definition.Name) ? String(unwrapIfcValue(definition.Name)) : `#${definitionID}`;
+      if (definition.type === WEBIFC.IFCELEMENTQUANTITY) {
+        quantitySets.push({
+          expressID: definitionID,
+          name,
+          properties: asLines(definition.Quantities).map(readQuantity)
+        });
+      } else if (definition.type === WEBIFC.IFCPROPERTYSET) {
+        propertySets.push({
+          expressID: definitionID,
+          name,
+          properties: asLines(definition.HasProperties).map(readProperty)
+        });
+      }
+    });
+
+    return { expressID, ifcType, attributes, propertySets, quantitySets };
+  }
+
+  /**
+   * Names and categories of the materials of an element and of its type,
+   * including the materials inside layer, profile and constituent sets.
+   */
+  public async getElementMaterials(modelId: string, expressID: number): Promise<string[]> {
+    const model = this.models.get(modelId);
+    if (!model) return [];
+    if (model.fragments) return readFragmentsMaterials(model.fragments, expressID);
+    if (model.modelID === null) return [];
+
+    const api = await this.getApi();
+    const materials: RawIfcLine[] = await api.properties.getMaterialsProperties(model.modelID, expressID, true, true);
+
+    const names = new Set<string>();
+    const visited = new Set<number>();
+    const collect = (line: RawIfcLine) => {
+      const lineID = line.expressID as number;
+      if (visited.has(lineID)) return;
+      visited.add(lineID);
+
+      ['Name', 'Category', 'LayerSetName'].forEach((key) => {
+        const raw = line[key];
+        if (isIfcValue(raw) && raw.value !== '') names.add(String(raw.value));
+      });
+      Object.values(line).forEach((raw) => {
+        if (Array.isArray(raw)) {
+          asLines(raw).forEach(collect);
+        } else if (typeof raw === 'object' && raw !== null && 'expressID' in raw) {
+          collect(raw as RawIfcLine);
+        }
+      });
+    };
+    materials.forEach(collect);
+    return [...names];
+  }
+
+  /**
+   * Classification references assigned to an element or to its type. Only
+   * available for IFC files: the Fragments format does not keep them.
+   */
+  public async getElementClassifications(modelId: string, expressID: number): Promise<IfcClassificationReference[]> {
+    const model = this.models.get(modelId);
+    if (!model || model.modelID === null) return [];
+
+    const api = await this.getApi();
+    const modelID = model.modelID;
+    let byElement = this.classifications.get(modelID);
+    if (!byElement) {
+      byElement = readClassifications(api, modelID);
+      this.classifications.set(modelID, byElement);
+    }
+
+    const types: RawIfcLine[] = await api.properties.getTypeProperties(modelID, expressID, false);
+    return [expressID, ...types.map(type => type.expressID as number)]
+      .flatMap(id => byElement.get(id) ?? []);
+  }
+
+  /**
+   * Builds the spatial structure of a model, from the IfcProject down to the
+   * elements contained in each storey.
+   */
+  public async getSpatialTree(modelId: string): Promise<IfcSpatialNode | null> {
+    const model = this.models.get(modelId);
+    if (!model) return null;
+    if (model.fragments) return readFragmentsSpatialTree(model.fragments);
+    if (model.modelID === null) return null;
+
+    const api = await this.getApi();
+    const root = await api.properties.getSpatialStructure(model.modelID);
+
+    const modelID = model.modelID;
+    const toSpatialNode = (node: RawSpatialNode): IfcSpatialNode => {
+      const line: RawIfcLine = api.GetLine(modelID, node.expressID);
+      const name = isIfcValue(line.Name) ? String(unwrapIfcValue(line.Name)) : '';
+      return {
+        expressID: node.expressID,
+        ifcType: node.type,
+        name: name || `${node.type} #${node.expressID}`,
+        children: node.children.map(toSpatialNode)
+      };
+    };
+
+    return toSpatialNode(root);
+  }
+
+  /**
+   * Converts a model to the Fragments format. The attributes and property
+   * relations are written into the same .frag binary, so it can be reopened
+   * with properties and without web-ifc.
+   */
+  public async exportFragments(modelId: string): Promise<Uint8Array> {
+    const model = this.models.get(modelId);
+    if (!model) throw new Error(`Model ${modelId} is not loaded`);
+
+    if (model.fragments) {
+      return new Uint8Array(await model.fragments.getBuffer(false));
+    }
+
+    if (model.modelID === null) throw new Error(`Model ${model.name} has no IFC data`);
+
+    const api = await this.getApi();
+    const bytes = api.SaveModel(model.modelID);
+
+    const importer = new FRAGS.IfcImporter();
+    // web-ifc appends "web-ifc.wasm" to this path; the hash keeps that from
+    // changing the fingerprinted URL Vite emits for the WASM file
+    importer.wasm = { path: `${webIfcWasmUrl}#`, absolute: true };
+    return importer.process({ bytes });
+  }
+
+  /**
+   * Returns the IFC GlobalId of each element, in the same order. Objects that
+   * are not IFC elements (sketched geometry, for instance) give null.
+   */
+  public async getElementGuids(elements: THREE.Object3D[]): Promise<(string | null)[]> {
+    return Promise.all(elements.map(async (element) => {
+      const model = this.models.get(element.userData.ifcModelId);
+      const expressID: number | undefined = element.userData.expressID;
+      if (!model || expressID === undefined) return null;
+
+      if (model.fragments) {
+        const [guid] = await model.fragments.getGuidsByLocalIds([expressID]);
+        return guid;
+      }
+      if (model.modelID === null || !this.ifcApi) return null;
+      const guid = this.ifcApi.GetGuidFromExpressId(model.modelID, expressID);
+      return guid === undefined ? null : String(guid);
+    }));
+  }
+
+  /**
+   * Finds the loaded elements with the given IFC GlobalIds, in every open model.
+   */
+  public async findElementsByGuid(guids: string[]): Promise<THREE.Object3D[]> {
+    const api = this.ifcApi;
+    const found: THREE.Object3D[] = [];
+    for (const model of this.models.values()) {
+      let expressIDs: (number | null)[];
+      if (model.fragments) {
+        expressIDs = await model.fragments.getLocalIdsByGuids(guids);
+      } else if (model.modelID !== null && api) {
+        const modelID = model.modelID;
+        expressIDs = guids.map((guid) => {
+          const expressID = api.GetExpressIdFromGuid(modelID, guid);
+          return expressID === undefined ? null : Number(expressID);
+        });
+      } else {
+        continue;
+      }
+
+      expressIDs.forEach((expressID) => {
+        const element = expressID === null ? undefined : model.elements.get(expressID);
+        if (element) found.push(element);
+      });
+    }
+    return found;
+  }
+
+  /**
+   * The transformation from IFC world coordinates to the scene. web-ifc moves
+   * every model to the origin when opening it, so the coordination matrix of the
+   * given model, or else of the first one, is used; otherwise only the Z-up to
+   * Y-up rotation applies.
+   */
+  public getCoordinationMatrix(modelId?: string): THREE.Matrix4 {
+    const model = modelId
+      ? this.models.get(modelId)
+      : [...this.models.values()].find(candidate => candidate.modelID !== null);
+    if (!model || model.modelID === null || !this.ifcApi) {
+      return new THREE.Matrix4().makeRotationX(-Math.PI / 2);
+    }
+    return new THREE.Matrix4().fromArray(this.ifcApi.GetCoordinationMatrix(model.modelID));
+  }
+
+  /** Every element of every open model. */
+  public getAllElements(): THREE.Object3D[] {
+    return [...this.models.values()].flatMap(model => [...model.elements.values()]);
+  }
+
+  public getModel(id: string): IfcModel | undefined {
+    return this.models.get(id);
+  }
+
+  public getModels(): IfcModel[] {
+    return [...this.models.values()];
+  }
+
+  /**
+   * Removes a model from the scene, frees its GPU resources and closes it in web-ifc.
+   */
+  public unload(id: string) {
+    const model = this.models.get(id);
+    if (!model) return;
+
+    this.scene.remove(model.group);
+
+    const geometries = new Set<THREE.BufferGeometry>();
+    const materials = new Set<THREE.Material>();
+    model.group.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        geometries.add(object.geometry);
+        materials.add(object.material as THREE.Material);
+      }
+    });
+    geometries.forEach(geometry => geometry.dispose());
+    materials.forEach(material => material.dispose());
+
+    if (model.fragments) {
+      this.fragments?.disposeModel(model.id).catch((error) => {
+        console.error(`Failed to dispose fragments model ${model.name}:`, error);
+      });
+    } else if (model.modelID !== null) {
+      this.classifications.delete(model.modelID);
+      this.ifcApi?.CloseModel(model.modelID);
+    }
+    this.models.delete(id);
+  }
+
+  public dispose() {
+    [...this.models.keys()].forEach(id => this.unload(id));
+    this.ifcApi?.Dispose();
+    this.ifcApi = null;
+    this.initPromise = null;
+    this.fragments?.dispose();
+    this.fragments = null;
+    this.enabled = false;
+    this.onDisposed.trigger();
+    this.onDisposed.reset();
+  }
+}
+
+type RawIfcLine = Record<string, unknown>;
+
+/** Node shape returned by web-ifc's getSpatialStructure. */
+interface RawSpatialNode {
+  expressID: number;
+  type: string;
+  children: RawSpatialNode[];
+}
+
+interface RawIfcValue {
+  type: number;
+  value: string | number | boolean;
+}
+
+/**
+ * True for inline values such as labels, numbers and enums; false for
+ * references to other lines, lists and empty attributes.
+ */
+function isIfcValue(raw: unknown): raw is RawIfcValue {
+  return typeof raw === 'object' &&
+    raw !== null &&
+    'value' in raw &&
+    (raw as RawIfcValue).type !== WEBIFC.REF;
+}
+
+function unwrapIfcValue(raw: RawIfcValue): IfcPropertyValue['value'] {
+  return raw.value ?? null;
+}
+
+/** Keeps only the expanded lines of a list, dropping unresolved references. */
+function asLines(raw: unknown): RawIfcLine[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((item): item is RawIfcLine => typeof item === 'object' && item !== null && 'expressID' in item);
+}
+
+function readProperty(property: RawIfcLine): IfcPropertyValue {
+  const name = isIfcValue(property.Name) ? String(unwrapIfcValue(property.Name)) : '';
+
+  if (isIfcValue(property.NominalValue)) {
+    return { name, value: unwrapIfcValue(property.NominalValue) };
+  }
+
+  const values = property.EnumerationValues ?? property.ListValues;
+  if (Array.isArray(values)) {
+    return { name, value: values.filter(isIfcValue).map(unwrapIfcValue).join(', ') };
+  }
+
+  return { name, value: null };
+}
+
+/** Quantities keep their number in LengthValue, AreaValue, VolumeValue, CountValue, etc. */
+function readQuantity(quantity: RawIfcLine): IfcPropertyValue {
+  const name = isIfcValue(quantity.Name) ? String(unwrapIfcValue(quantity.Name)) : '';
+  const valueKey = Object.keys(quantity).find(key => key.endsWith('Value') && isIfcValue(quantity[key]));
+  return {
+    name,
+    value: valueKey ? unwrapIfcValue(quantity[valueKey] as RawIfcValue) : null,
+    unit: valueKey ? QUANTITY_UNITS[valueKey] : undefined
+  };
+}
+
+/**
+ * Maps every object of a model to the classification references associated
+ * with it through IfcRelAssociatesClassification.
+ */
+function readClassifications(api: WEBIFC.IfcAPI, modelID: number): Map<number, IfcClassificationReference[]> {
+  const byElement = new Map<number, IfcClassificationReference[]>();
+  const relations = api.GetLineIDsWithType(modelID, WEBIFC.IFCRELASSOCIATESCLASSIFICATION);
+
+  for (let i = 0; i < relations.size(); i++) {
+    const relation: RawIfcLine = api.GetLine(modelID, relations.get(i));
+    const classificationID = (relation.RelatingClassification as RawIfcValue | null)?.value;
+    if (typeof classificationID !== 'number') continue;
+
+    const reference = readClassificationReference(api, modelID, classificationID);
+    const relatedObjects = Array.isArray(relation.RelatedObjects) ? relation.RelatedObjects as RawIfcValue[] : [];
+    relatedObjects.forEach(({ value }) => {
+      const objectID = Number(value);
+      byElement.set(objectID, [...(byElement.get(objectID) ?? []), reference]);
+    });
+  }
+
+  return byElement;
+}
+
+/**
+ * An IfcClassificationReference points to its system through ReferencedSource,
+ * possibly via parent references; an IfcClassification is a system on its own.
+ * IFC2X3 names the identification ItemReference instead of Identification.
+ */
+function readClassificationReference(api: WEBIFC.IfcAPI, modelID: number, expressID: number): IfcClassificationReference {
+  const line: RawIfcLine = api.GetLine(modelID, expressID);
+  const text = (raw: unknown) => (isIfcValue(raw) ? String(raw.value) : '');
+
+  if (line.type === WEBIFC.IFCCLASSIFICATION) {
+    return { system: text(line.Name), identification: '', name: text(line.Name) };
+  }
+
+  let system = '';
+  let sourceID = (line.ReferencedSource as RawIfcValue | null)?.value;
+  const visited = new Set<number>();
+  while (typeof sourceID === 'number' && !visited.has(sourceID)) {
+    visited.add(sourceID);
+    const source: RawIfcLine = api.GetLine(modelID, sourceID);
+    if (source.type === WEBIFC.IFCCLASSIFICATION) {
+      system = text(source.Name);
+      break;
+    }
+    sourceID = (source.ReferencedSource as RawIfcValue | null)?.value;
+  }
+
+  return {
+    system,
+    identification: text(line.Identification) || text(line.ItemReference),
+    name: text(line.Name)
+  };
+}
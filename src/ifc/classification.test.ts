@@ -0,0 +1,49 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { getClashCandidates } from '../clash/clashDetection';
+import { computeTakeoff } from '../takeoff/quantityTakeoff';
+import { isClassifiable } from './classification';
+
+function createFace(): THREE.Mesh {
+  const face = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), new THREE.MeshBasicMaterial());
+  face.userData = { isFace: true };
+  return face;
+}
+
+/** A label laid flat on a face: its text is drawn on a plane mesh, as labels.ts does. */
+function createFlatLabel(): THREE.Group {
+  const label = new THREE.Group();
+  label.userData = { isLabel: true, label: { kind: 'flat', text: 'Note' } };
+  label.add(new THREE.Mesh(new THREE.PlaneGeometry(1, 0.2), new THREE.MeshBasicMaterial()));
+  return label;
+}
+
+describe('isClassifiable', () => {
+  it('accepts drawn meshes', () => {
+    expect(isClassifiable(createFace())).toBe(true);
+  });
+
+  it('leaves out lines, IFC elements, labels and dimensions', () => {
+    const line = new THREE.Line(new THREE.BufferGeometry(), new THREE.LineBasicMaterial());
+    const element = createFace();
+    element.userData = { expressID: 12, ifcModelId: 'model' };
+    const dimension = new THREE.Group();
+    dimension.userData = { isDimension: true };
+    dimension.add(new THREE.Mesh(new THREE.ConeGeometry(0.05, 0.1), new THREE.MeshBasicMaterial()));
+
+    expect(isClassifiable(line)).toBe(false);
+    expect(isClassifiable(element)).toBe(false);
+    expect(isClassifiable(createFlatLabel())).toBe(false);
+    expect(isClassifiable(dimension)).toBe(false);
+  });
+
+  it('keeps flat labels out of the takeoff and clash runs', async () => {
+    const scene = new THREE.Scene();
+    const face = createFace();
+    scene.add(face, createFlatLabel());
+
+    const rows = await computeTakeoff(scene, null, new Map());
+    expect(rows.map(row => row.object)).toEqual([face]);
+    expect(getClashCandidates(scene, null)).toEqual([face]);
+  });
+});
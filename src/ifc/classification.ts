@@ -0,0 +1,58 @@
+import * as THREE from 'three';
+
+/** IFC4 classes sketched geometry can be classified as, with the predefined types each one allows. */
+export const IFC_CLASS_PREDEFINED_TYPES = {
+  IfcWall: ['STANDARD', 'MOVABLE', 'PARAPET', 'PARTITIONING', 'PLUMBINGWALL', 'SHEAR', 'SOLIDWALL', 'POLYGONAL', 'ELEMENTEDWALL', 'USERDEFINED', 'NOTDEFINED'],
+  IfcSlab: ['FLOOR', 'ROOF', 'LANDING', 'BASESLAB', 'USERDEFINED', 'NOTDEFINED'],
+  IfcColumn: ['COLUMN', 'PILASTER', 'USERDEFINED', 'NOTDEFINED'],
+  IfcBeam: ['BEAM', 'JOIST', 'HOLLOWCORE', 'LINTEL', 'SPANDREL', 'T_BEAM', 'USERDEFINED', 'NOTDEFINED'],
+  IfcRoof: ['FLAT_ROOF', 'SHED_ROOF', 'GABLE_ROOF', 'HIP_ROOF', 'HIPPED_GABLE_ROOF', 'GAMBREL_ROOF', 'MANSARD_ROOF', 'BARREL_ROOF', 'RAINBOW_ROOF', 'BUTTERFLY_ROOF', 'PAVILION_ROOF', 'DOME_ROOF', 'FREEFORM', 'USERDEFINED', 'NOTDEFINED'],
+  IfcMember: ['MEMBER', 'BRACE', 'CHORD', 'COLLAR', 'MULLION', 'PLATE', 'POST', 'PURLIN', 'RAFTER', 'STRINGER', 'STRUT', 'STUD', 'USERDEFINED', 'NOTDEFINED'],
+  IfcPlate: ['SHEET', 'CURTAIN_PANEL', 'USERDEFINED', 'NOTDEFINED'],
+  IfcCovering: ['CEILING', 'FLOORING', 'CLADDING', 'ROOFING', 'MOLDING', 'SKIRTINGBOARD', 'INSULATION', 'MEMBRANE', 'SLEEVING', 'WRAPPING', 'USERDEFINED', 'NOTDEFINED'],
+  IfcFooting: ['PAD_FOOTING', 'STRIP_FOOTING', 'PILE_CAP', 'FOOTING_BEAM', 'CAISSON_FOUNDATION', 'USERDEFINED', 'NOTDEFINED'],
+  IfcRailing: ['HANDRAIL', 'GUARDRAIL', 'BALUSTRADE', 'USERDEFINED', 'NOTDEFINED'],
+  IfcStair: ['STRAIGHT_RUN_STAIR', 'TWO_STRAIGHT_RUN_STAIR', 'QUARTER_TURN_STAIR', 'HALF_TURN_STAIR', 'SPIRAL_STAIR', 'CURVED_RUN_STAIR', 'USERDEFINED', 'NOTDEFINED'],
+  IfcSpace: ['SPACE', 'PARKING', 'GFA', 'INTERNAL', 'EXTERNAL', 'USERDEFINED', 'NOTDEFINED'],
+  IfcBuildingElementProxy: ['ELEMENT', 'COMPLEX', 'PARTIAL', 'PROVISIONFORVOID', 'PROVISIONFORSPACE', 'USERDEFINED', 'NOTDEFINED'],
+} as const;
+
+export type IfcClassName = keyof typeof IFC_CLASS_PREDEFINED_TYPES;
+
+export const IFC_CLASS_NAMES = Object.keys(IFC_CLASS_PREDEFINED_TYPES) as IfcClassName[];
+
+/** The semantic meaning given to a sketched object, kept in `userData.ifcClassification`. */
+export interface IfcClassification {
+  ifcClass: IfcClassName;
+  name: string;
+  description: string;
+  predefinedType: string;
+}
+
+export function getClassification(object: THREE.Object3D): IfcClassification | null {
+  return object.userData.ifcClassification ?? null;
+}
+
+export function setClassification(object: THREE.Object3D, classification: IfcClassification | null) {
+  if (classification) {
+    object.userData.ifcClassification = classification;
+  } else {
+    delete object.userData.ifcClassification;
+  }
+}
+
+/**
+ * Only drawn geometry can be classified: elements of loaded IFC models already
+ * have a class, plain lines have no body to export, and labels and dimensions
+ * are annotations even when their text is a flat mesh.
+ */
+export function isClassifiable(object: THREE.Object3D): boolean {
+  if (object.userData.expressID !== undefined || object.userData.ifcModelId !== undefined) return false;
+  if (object.userData.isLabel || object.userData.isDimension) return false;
+
+  let hasMesh = false;
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh) hasMesh = true;
+  });
+  return hasMesh;
+}
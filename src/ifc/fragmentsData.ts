@@ -0,0 +1,178 @@
+import type * as FRAGS from '@thatopen/fragments';
+import { QUANTITY_UNITS } from './types';
+import type { IfcElementProperties, IfcPropertyGroup, IfcPropertyValue, IfcSpatialNode } from './types';
+
+/**
+ * Reads the attributes, property sets and quantity sets of one item of a
+ * Fragments model. IfcImporter keeps the IsDefinedBy relation in the .frag,
+ * so the result matches what web-ifc gives for the original IFC element.
+ */
+export async function readFragmentsProperties(
+  model: FRAGS.FragmentsModel,
+  localId: number
+): Promise<IfcElementProperties | null> {
+  const [data] = await model.getItemsData([localId], {
+    attributesDefault: true,
+    relations: {
+      IsDefinedBy: { attributes: true, relations: true },
+      // Otherwise every property set lists all the elements it is shared with
+      DefinesOcurrence: { attributes: false, relations: false }
+    }
+  });
+  if (!data) return null;
+
+  const attributes: IfcPropertyValue[] = [];
+  const guid = readAttribute(data._guid);
+  if (guid !== null) {
+    attributes.push({ name: 'GlobalId', value: guid });
+  }
+  Object.entries(data).forEach(([name, raw]) => {
+    if (name.startsWith('_') || Array.isArray(raw)) return;
+    attributes.push({ name, value: readAttribute(raw) });
+  });
+
+  const propertySets: IfcPropertyGroup[] = [];
+  const quantitySets: IfcPropertyGroup[] = [];
+  asItems(data.IsDefinedBy).forEach((definition) => {
+    const definitionID = Number(readAttribute(definition._localId));
+    const name = String(readAttribute(definition.Name) ?? `#${definitionID}`);
+    const category = readAttribute(definition._category);
+
+    if (category === 'IFCELEMENTQUANTITY') {
+      quantitySets.push({
+        expressID: definitionID,
+        name,
+        properties: asItems(definition.Quantities).map(readQuantity)
+      });
+    } else if (category === 'IFCPROPERTYSET') {
+      propertySets.push({
+        expressID: definitionID,
+        name,
+        properties: asItems(definition.HasProperties).map(readProperty)
+      });
+    }
+  });
+
+  return {
+    expressID: localId,
+    ifcType: String(readAttribute(data._category) ?? ''),
+    attributes,
+    propertySets,
+    quantitySets
+  };
+}
+
+/**
+ * Converts the Fragments spatial structure into the same tree web-ifc builds.
+ * Fragments groups the children of every node by category, so those
+ * grouping nodes are folded away and their category becomes the IFC type.
+ */
+export async function readFragmentsSpatialTree(model: FRAGS.FragmentsModel): Promise<IfcSpatialNode | null> {
+  const root = await model.getSpatialStructure();
+
+  const localIds: number[] = [];
+  const collectIds = (item: FRAGS.SpatialTreeItem) => {
+    if (item.localId !== null) localIds.push(item.localId);
+    item.children?.forEach(collectIds);
+  };
+  collectIds(root);
+
+  const labels = await readItemLabels(model, localIds);
+
+  const toNodes = (item: FRAGS.SpatialTreeItem, category: string | null): IfcSpatialNode[] => {
+    const children = item.children ?? [];
+    if (item.localId === null) {
+      return children.flatMap(child => toNodes(child, item.category ?? category));
+    }
+
+    const ifcType = category ?? '';
+    return [{
+      expressID: item.localId,
+      ifcType,
+      name: labels.get(item.localId)?.name || `${ifcType} #${item.localId}`,
+      children: children.flatMap(child => toNodes(child, null))
+    }];
+  };
+
+  return toNodes(root, null)[0] ?? null;
+}
+
+/** Looks up the IFC type and Name attribute of many items in one request. */
+export async function readItemLabels(
+  model: FRAGS.FragmentsModel,
+  localIds: number[]
+): Promise<Map<number, { ifcType: string; name: string }>> {
+  const items = await model.getItemsData(localIds, { attributesDefault: false, attributes: ['Name'] });
+  const labels = new Map<number, { ifcType: string; name: string }>();
+  items.forEach((item) => {
+    labels.set(Number(readAttribute(item._localId)), {
+      ifcType: String(readAttribute(item._category) ?? ''),
+      name: String(readAttribute(item.Name) ?? '')
+    });
+  });
+  return labels;
+}
+
+/**
+ * Names and categories of the materials associated with an item. IfcImporter
+ * keeps the HasAssociations relation only for IfcRelAssociatesMaterial.
+ */
+export async function readFragmentsMaterials(model: FRAGS.FragmentsModel, localId: number): Promise<string[]> {
+  const [data] = await model.getItemsData([localId], {
+    attributesDefault: true,
+    relations: {
+      HasAssociations: { attributes: true, relations: true },
+      AssociatedTo: { attributes: false, relations: false }
+    }
+  });
+  if (!data) return [];
+
+  const names = new Set<string>();
+  const collect = (item: FRAGS.ItemData) => {
+    ['Name', 'Category', 'LayerSetName'].forEach((key) => {
+      const value = readAttribute(item[key]);
+      if (value !== null && value !== '') names.add(String(value));
+    });
+    Object.values(item).forEach(raw => asItems(raw).forEach(collect));
+  };
+  asItems(data.HasAssociations).forEach(collect);
+  return [...names];
+}
+
+function isAttribute(raw: unknown): raw is FRAGS.ItemAttribute {
+  return typeof raw === 'object' && raw !== null && !Array.isArray(raw) && 'value' in raw;
+}
+
+function readAttribute(raw: unknown): IfcPropertyValue['value'] {
+  if (!isAttribute(raw)) return null;
+
+  const value: unknown = raw.value;
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return null;
+}
+
+function asItems(raw: unknown): FRAGS.ItemData[] {
+  return Array.isArray(raw) ? raw : [];
+}
+
+function readProperty(property: FRAGS.ItemData): IfcPropertyValue {
+  const name = String(readAttribute(property.Name) ?? '');
+
+  if (isAttribute(property.NominalValue)) {
+    return { name, value: readAttribute(property.NominalValue) };
+  }
+
+  return { name, value: readAttribute(property.EnumerationValues ?? property.ListValues) };
+}
+
+/** Quantities keep their number in LengthValue, AreaValue, VolumeValue, CountValue, etc. */
+function readQuantity(quantity: FRAGS.ItemData): IfcPropertyValue {
+  const name = String(readAttribute(quantity.Name) ?? '');
+  const valueKey = Object.keys(quantity).find(key => key.endsWith('Value') && isAttribute(quantity[key]));
+  return {
+    name,
+    value: valueKey ? readAttribute(quantity[valueKey]) : null,
+    unit: valueKey ? QUANTITY_UNITS[valueKey] : undefined
+  };
+}
@@ -0,0 +1,48 @@
+/** A single named value shown in the Properties panel. */
+export interface IfcPropertyValue {
+  name: string;
+  value: string | number | boolean | null;
+  /** Unit of an IfcPhysicalSimpleQuantity value, in SI units. */
+  unit?: string;
+}
+
+/** An IfcPropertySet or IfcElementQuantity with its values. */
+export interface IfcPropertyGroup {
+  expressID: number;
+  name: string;
+  properties: IfcPropertyValue[];
+}
+
+/** Everything the Properties panel lists for one IFC element. */
+export interface IfcElementProperties {
+  expressID: number;
+  ifcType: string;
+  attributes: IfcPropertyValue[];
+  propertySets: IfcPropertyGroup[];
+  quantitySets: IfcPropertyGroup[];
+}
+
+/** A node of the IfcProject → IfcSite → IfcBuilding → IfcBuildingStorey → element tree. */
+export interface IfcSpatialNode {
+  expressID: number;
+  ifcType: string;
+  name: string;
+  children: IfcSpatialNode[];
+}
+
+/** An entry of an external classification system (Uniclass, OmniClass, ...) assigned to an element. */
+export interface IfcClassificationReference {
+  system: string;
+  identification: string;
+  name: string;
+}
+
+/** Units of the IfcPhysicalSimpleQuantity subtypes, by the attribute that holds their value. */
+export const QUANTITY_UNITS: Record<string, string> = {
+  LengthValue: 'm',
+  AreaValue: 'm²',
+  VolumeValue: 'm³',
+  WeightValue: 'kg',
+  TimeValue: 's',
+  CountValue: ''
+};
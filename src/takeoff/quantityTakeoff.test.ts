@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { groupTakeoff, takeoffToCsv } from './quantityTakeoff';
+import type { TakeoffQuantity, TakeoffRow } from './quantityTakeoff';
+
+function createRow(name: string, layer: string, ifcClass: string, quantities: TakeoffQuantity[]): TakeoffRow {
+  return { object: new THREE.Object3D(), name, layer, ifcClass, quantities };
+}
+
+const rows = [
+  createRow('Wall A', 'Walls', 'IfcWall', [
+    { name: 'NetVolume', value: 1.5, unit: 'm³' },
+    { name: 'Height', value: 3, unit: 'm' }
+  ]),
+  createRow('Slab', 'Floors', 'IfcSlab', [{ name: 'NetVolume', value: 4, unit: 'm³' }]),
+  createRow('Wall B', 'Walls', 'IfcWall', [
+    { name: 'NetVolume', value: 0.25, unit: 'm³' },
+    { name: 'Height', value: 2.5, unit: 'm' },
+    // The same name in another unit is totalled apart
+    { name: 'Height', value: 2500, unit: 'mm' }
+  ]),
+  createRow('Sketch', 'Walls', 'Unclassified', [{ name: 'Area', value: 2, unit: 'm²' }])
+];
+
+describe('groupTakeoff', () => {
+  it('groups rows by layer, sorted by name, and totals quantities by name and unit', () => {
+    const groups = groupTakeoff(rows, 'layer');
+    expect(groups.map(group => group.name)).toEqual(['Floors', 'Walls']);
+
+    const walls = groups[1];
+    expect(walls.rows.map(row => row.name)).toEqual(['Wall A', 'Wall B', 'Sketch']);
+    expect(walls.totals).toEqual([
+      { name: 'NetVolume', value: 1.75, unit: 'm³' },
+      { name: 'Height', value: 5.5, unit: 'm' },
+      { name: 'Height', value: 2500, unit: 'mm' },
+      { name: 'Area', value: 2, unit: 'm²' }
+    ]);
+  });
+
+  it('groups rows by class without changing the rows', () => {
+    const groups = groupTakeoff(rows, 'class');
+    expect(groups.map(group => [group.name, group.rows.length])).toEqual([['IfcSlab', 1], ['IfcWall', 2], ['Unclassified', 1]]);
+    expect(rows[0].quantities[0].value).toBe(1.5);
+  });
+});
+
+describe('takeoffToCsv', () => {
+  it('writes one line per quantity with three decimals for fractions', () => {
+    const csv = takeoffToCsv(groupTakeoff(rows.slice(0, 2), 'class'));
+    expect(csv.split('\r\n')).toEqual([
+      'Group,Element,Class,Layer,Quantity,Value,Unit',
+      'IfcSlab,Slab,IfcSlab,Floors,NetVolume,4,m³',
+      'IfcWall,Wall A,IfcWall,Walls,NetVolume,1.500,m³',
+      'IfcWall,Wall A,IfcWall,Walls,Height,3,m'
+    ]);
+  });
+
+  it('quotes fields with commas, quotes or line breaks', () => {
+    const csv = takeoffToCsv(groupTakeoff([
+      createRow('Wall "north", level 1', 'Walls\nexisting', 'IfcWall', [{ name: 'Height', value: 3, unit: 'm' }])
+    ], 'class'));
+    expect(csv.split('\r\n')[1]).toBe('IfcWall,"Wall ""north"", level 1",IfcWall,"Walls\nexisting",Height,3,m');
+  });
+});
@@ -0,0 +1,210 @@
+import * as THREE from 'three';
+import type { IfcManager } from '../ifc/IfcManager';
+import { getClassification, isClassifiable } from '../ifc/classification';
+import { getObjectLayerId } from '../utils/layers';
+import { getWorldTriangles } from '../utils/geometry';
+
+/** How takeoff rows are grouped. */
+export type TakeoffGrouping = 'layer' | 'class';
+
+export interface TakeoffQuantity {
+  name: string;
+  value: number;
+  unit: string;
+}
+
+/** The quantities of one drawn object or IFC element. */
+export interface TakeoffRow {
+  object: THREE.Object3D;
+  name: string;
+  layer: string;
+  ifcClass: string;
+  quantities: TakeoffQuantity[];
+}
+
+export interface TakeoffGroup {
+  name: string;
+  rows: TakeoffRow[];
+  /** Sum of every quantity the rows have in common, by name and unit. */
+  totals: TakeoffQuantity[];
+}
+
+/** Name of the layer that objects without a layer belong to. */
+const DEFAULT_LAYER_NAME = 'Layer 0';
+
+/**
+ * Measures every drawn object in the scene and collects the IfcElementQuantity
+ * values of the elements of the open IFC models. Extrusions, also those made
+ * from a face inside a drawn group, are measured from their profile, so their
+ * volume is net of the holes in it; any other drawn mesh is measured by the
+ * area of its triangles and its open edges.
+ */
+export async function computeTakeoff(
+  scene: THREE.Scene,
+  ifcManager: IfcManager | null,
+  layerNames: Map<string, string>
+): Promise<TakeoffRow[]> {
+  const rows: TakeoffRow[] = [];
+  const layerOf = (object: THREE.Object3D) => {
+    const layerId = getObjectLayerId(object);
+    return layerId ? layerNames.get(layerId) ?? layerId : DEFAULT_LAYER_NAME;
+  };
+
+  scene.children.forEach((object) => {
+    if (!isClassifiable(object)) return;
+
+    const extrusion = findExtrusion(object);
+    const quantities = extrusion ? measureExtrusion(extrusion) : measureFaces(object);
+    rows.push({
+      object,
+      name: object.name || (extrusion ? 'Extrusion' : 'Face'),
+      layer: layerOf(object),
+      ifcClass: getClassification(object)?.ifcClass ?? 'Unclassified',
+      quantities
+    });
+  });
+
+  if (ifcManager) {
+    for (const element of ifcManager.getAllElements()) {
+      const properties = await ifcManager.getElementProperties(element.userData.ifcModelId, element.userData.expressID);
+      const quantities = (properties?.quantitySets ?? []).flatMap(set =>
+        set.properties
+          .filter(quantity => typeof quantity.value === 'number')
+          .map(quantity => ({ name: quantity.name, value: quantity.value as number, unit: quantity.unit ?? '' }))
+      );
+      if (quantities.length === 0) continue;
+
+      rows.push({
+        object: element,
+        name: element.name,
+        layer: layerOf(element),
+        ifcClass: properties?.ifcType || String(element.userData.ifcType ?? ''),
+        quantities
+      });
+    }
+  }
+
+  return rows;
+}
+
+/** Groups rows by layer or class and totals their quantities. */
+export function groupTakeoff(rows: TakeoffRow[], grouping: TakeoffGrouping): TakeoffGroup[] {
+  const groups = new Map<string, TakeoffRow[]>();
+  rows.forEach((row) => {
+    const key = grouping === 'layer' ? row.layer : row.ifcClass;
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  });
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, groupRows]) => {
+      const totals = new Map<string, TakeoffQuantity>();
+      groupRows.forEach(row => row.quantities.forEach((quantity) => {
+        const key = `${quantity.name}|${quantity.unit}`;
+        const total = totals.get(key);
+        if (total) {
+          total.value += quantity.value;
+        } else {
+          totals.set(key, { ...quantity });
+        }
+      }));
+      return { name, rows: groupRows, totals: [...totals.values()] };
+    });
+}
+
+/**
+ * Writes the grouped takeoff as CSV, one line per quantity of every row,
+ * so it can be pivoted in a spreadsheet.
+ */
+export function takeoffToCsv(groups: TakeoffGroup[]): string {
+  const lines = [['Group', 'Element', 'Class', 'Layer', 'Quantity', 'Value', 'Unit']];
+  groups.forEach(group => group.rows.forEach(row => row.quantities.forEach((quantity) => {
+    lines.push([group.name, row.name, row.ifcClass, row.layer, quantity.name, formatNumber(quantity.value), quantity.unit]);
+  })));
+  return lines.map(line => line.map(escapeCsv).join(',')).join('\r\n');
+}
+
+/** The object if it is an extrusion, or else the first extrusion inside it. */
+function findExtrusion(object: THREE.Object3D): THREE.Mesh | null {
+  let extrusion: THREE.Mesh | null = null;
+  object.traverse((child) => {
+    if (!extrusion && child instanceof THREE.Mesh && child.userData.isExtrusion) extrusion = child;
+  });
+  return extrusion;
+}
+
+function measureExtrusion(mesh: THREE.Mesh): TakeoffQuantity[] {
+  mesh.updateWorldMatrix(true, false);
+  const scale = new THREE.Vector3();
+  mesh.matrixWorld.decompose(new THREE.Vector3(), new THREE.Quaternion(), scale);
+
+  // Like the IFC export: the shape lies in the local XY plane and is swept along local Z
+  const shape: THREE.Shape = mesh.userData.baseShape;
+  const depth: number = (mesh.geometry as THREE.ExtrudeGeometry).parameters?.options?.depth ?? 1;
+  const toProfile = (points: THREE.Vector2[]) => points.map(point => new THREE.Vector2(point.x * scale.x, point.y * scale.y));
+  const { shape: points, holes } = shape.extractPoints(12);
+  const outline = toProfile(points);
+  const openings = holes.map(toProfile);
+
+  const height = depth * scale.z;
+  const area = Math.abs(THREE.ShapeUtils.area(outline)) -
+    openings.reduce((sum, hole) => sum + Math.abs(THREE.ShapeUtils.area(hole)), 0);
+  const perimeter = [outline, ...openings].reduce((sum, loop) => sum + loopLength(loop), 0);
+
+  return [
+    { name: 'NetVolume', value: area * height, unit: 'm³' },
+    { name: 'NetSideArea', value: perimeter * height, unit: 'm²' },
+    { name: 'Height', value: height, unit: 'm' }
+  ];
+}
+
+function measureFaces(object: THREE.Object3D): TakeoffQuantity[] {
+  object.updateWorldMatrix(true, true);
+
+  let area = 0;
+  let perimeter = 0;
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return;
+
+    const triangles = getWorldTriangles(child);
+    // Edges used by a single triangle lie on the outline of the face
+    const edges = new Map<string, { start: THREE.Vector3; end: THREE.Vector3; count: number }>();
+    const keyOf = (point: THREE.Vector3) => `${point.x.toFixed(5)},${point.y.toFixed(5)},${point.z.toFixed(5)}`;
+
+    triangles.forEach((triangle) => {
+      area += triangle.getArea();
+      [[triangle.a, triangle.b], [triangle.b, triangle.c], [triangle.c, triangle.a]].forEach(([start, end]) => {
+        const [startKey, endKey] = [keyOf(start), keyOf(end)];
+        if (startKey === endKey) return;
+        const key = startKey < endKey ? `${startKey}|${endKey}` : `${endKey}|${startKey}`;
+        const edge = edges.get(key);
+        if (edge) {
+          edge.count++;
+        } else {
+          edges.set(key, { start, end, count: 1 });
+        }
+      });
+    });
+
+    edges.forEach((edge) => {
+      if (edge.count === 1) perimeter += edge.start.distanceTo(edge.end);
+    });
+  });
+
+  return [
+    { name: 'Area', value: area, unit: 'm²' },
+    { name: 'Perimeter', value: perimeter, unit: 'm' }
+  ];
+}
+
+function loopLength(points: THREE.Vector2[]): number {
+  return points.reduce((sum, point, i) => sum + point.distanceTo(points[(i + 1) % points.length]), 0);
+}
+
+export function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(3);
+}
+
+function escapeCsv(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
@@ -0,0 +1,50 @@
+import * as OBC from "@thatopen/components";
+import * as THREE from "three";
+import { OrbitControls } from "three/examples/jsm/Addons.js";
+
+/**
+ * World camera driven by three's OrbitControls instead of camera-controls,
+ * because the drawing tools switch `controls.enabled` and read `controls.target`.
+ * It has no `controls`, so OBC features treat it as a non-controllable camera.
+ */
+export class OrbitCamera extends OBC.BaseCamera implements OBC.Updateable, OBC.Disposable {
+  readonly onBeforeUpdate: OBC.Event<OrbitCamera> = new OBC.Event();
+  readonly onAfterUpdate: OBC.Event<OrbitCamera> = new OBC.Event();
+  readonly onDisposed: OBC.Event<undefined> = new OBC.Event();
+
+  enabled = true;
+  // Only declared: OBC checks `"controls" in camera` to decide whether it is controllable
+  declare controls?: undefined;
+  three: THREE.PerspectiveCamera;
+  orbitControls: OrbitControls;
+
+  constructor(components: OBC.Components, domElement: HTMLElement) {
+    super(components);
+    this.three = new THREE.PerspectiveCamera(60, window.innerWidth / window.innerHeight, 0.1, 1000);
+    this.three.position.set(5, 5, 5);
+    this.orbitControls = new OrbitControls(this.three, domElement);
+  }
+
+  /** Keeps the aspect ratio in sync with the renderer, e.g. from `renderer.onResize`. */
+  updateAspect(size: THREE.Vector2) {
+    if (size.x === 0 || size.y === 0) return;
+    this.three.aspect = size.x / size.y;
+    this.three.updateProjectionMatrix();
+  }
+
+  update() {
+    if (!this.enabled) return;
+    this.onBeforeUpdate.trigger(this);
+    this.orbitControls.update();
+    this.onAfterUpdate.trigger(this);
+  }
+
+  dispose() {
+    this.enabled = false;
+    this.orbitControls.dispose();
+    this.onBeforeUpdate.reset();
+    this.onAfterUpdate.reset();
+    this.onDisposed.trigger();
+    this.onDisposed.reset();
+  }
+}
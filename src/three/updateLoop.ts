@@ -1,21 +1,14 @@
 import * as OBC from "@thatopen/components";
-import * as THREE from "three";
 
-import { HelloWorldComponents } from "../components/HelloWorldComponent";
+/**
+ * Starts the one animation loop of the app. Every frame, OBC updates each
+ * Updateable component; the world updates its camera controls and renders.
+ * Returns a function that stops the loop and disposes every component.
+ */
+export function startUpdateLoop(components: OBC.Components) {
+  components.init();
 
-export function startUpdateLoop(
-  components: OBC.Components,
-  renderer: THREE.WebGLRenderer,
-  scene: THREE.Scene,
-  camera: THREE.Camera,
-  controls?: any
-) {
-  const animate = (time: number) => {
-    requestAnimationFrame(animate);
-    const delta = time * 0.0001;
-    
-    controls.update(delta);
-    renderer.render(scene, camera);
-  }
-  animate(0);
-}
\ No newline at end of file
+  return () => {
+    components.dispose();
+  };
+}
@@ -0,0 +1,86 @@
+import * as THREE from 'three';
+
+export interface TextSpriteOptions {
+  color?: string;
+  background?: string;
+  /** Height of the text as a share of the view's height. */
+  size?: number;
+}
+
+const FONT_PIXELS = 48;
+const DIMENSION_COLOR = 0xffeb3b;
+
+/**
+ * The text drawn on a canvas like the axes helper's labels, and the width of
+ * the canvas as a multiple of its height.
+ */
+export function createTextTexture(text: string, color: string, background: string): { texture: THREE.CanvasTexture; aspect: number } {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  const font = `Bold ${FONT_PIXELS}px Arial`;
+  if (context) context.font = font;
+  const textWidth = context ? context.measureText(text).width : text.length * FONT_PIXELS * 0.6;
+  canvas.width = Math.ceil(textWidth + FONT_PIXELS * 0.6);
+  canvas.height = Math.ceil(FONT_PIXELS * 1.4);
+
+  if (context) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.font = font;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillStyle = color;
+    context.fillText(text, canvas.width / 2, canvas.height / 2);
+  }
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return { texture, aspect: canvas.width / canvas.height };
+}
+
+/**
+ * A label that always faces the camera and keeps the same size on screen
+ * however far away it is.
+ */
+export function createTextSprite(text: string, { color = '#ffffff', background = 'rgba(0, 0, 0, 0.6)', size = 0.035 }: TextSpriteOptions = {}): THREE.Sprite {
+  const { texture, aspect } = createTextTexture(text, color, background);
+  const material = new THREE.SpriteMaterial({ map: texture, transparent: true, sizeAttenuation: false, depthTest: false });
+  const sprite = new THREE.Sprite(material);
+  sprite.scale.set(size * aspect, size, 1);
+  sprite.renderOrder = 4;
+  return sprite;
+}
+
+export function formatLength(length: number): string {
+  return `${length.toFixed(2)} m`;
+}
+
+/**
+ * A dimension left by the measure tool: a line between the two points with a
+ * dot at each end and the distance written at its middle. The points are kept
+ * in `userData` as plain arrays so the annotation can be saved, and unlike other
+ * dimensions its line can be snapped to.
+ */
+export function createMeasurementAnnotation(start: THREE.Vector3, end: THREE.Vector3): THREE.Group {
+  const group = new THREE.Group();
+  group.name = 'Dimension';
+  group.userData = { isDimension: true, isMeasurement: true, start: start.toArray(), end: end.toArray() };
+
+  const material = new THREE.LineBasicMaterial({ color: DIMENSION_COLOR, depthTest: false });
+  const line = new THREE.Line(new THREE.BufferGeometry().setFromPoints([start, end]), material);
+  line.renderOrder = 4;
+  group.add(line);
+
+  const ends = new THREE.Points(
+    new THREE.BufferGeometry().setFromPoints([start, end]),
+    new THREE.PointsMaterial({ color: DIMENSION_COLOR, size: 6, sizeAttenuation: false, depthTest: false })
+  );
+  ends.renderOrder = 4;
+  group.add(ends);
+
+  const label = createTextSprite(formatLength(start.distanceTo(end)));
+  label.position.copy(start).lerp(end, 0.5);
+  group.add(label);
+
+  return group;
+}
@@ -0,0 +1,93 @@
+import * as THREE from 'three';
+
+/**
+ * A circular arc kept analytically rather than as points. It lies in the plane
+ * through `center` with normal `normal`, and runs counterclockwise about the
+ * normal from `startAngle` to `endAngle`, with angles measured from `xAxis`.
+ */
+export interface Arc {
+  center: THREE.Vector3;
+  normal: THREE.Vector3;
+  xAxis: THREE.Vector3;
+  radius: number;
+  startAngle: number;
+  endAngle: number;
+}
+
+/** Number of straight pieces a full circle is drawn with. */
+const SEGMENTS_PER_TURN = 64;
+
+/**
+ * The arc that starts at `start`, passes through `through` and ends at `end`,
+ * or null when the three points are (nearly) on one line.
+ */
+export function arcFromThreePoints(start: THREE.Vector3, through: THREE.Vector3, end: THREE.Vector3): Arc | null {
+  const u = new THREE.Vector3().subVectors(through, start);
+  const v = new THREE.Vector3().subVectors(end, start);
+  const w = new THREE.Vector3().crossVectors(u, v);
+  const scale = Math.max(u.lengthSq(), v.lengthSq());
+  if (scale === 0 || w.lengthSq() < 1e-12 * scale * scale) return null;
+
+  // Circumcenter of the triangle start, through, end
+  const offset = new THREE.Vector3()
+    .subVectors(v.clone().multiplyScalar(u.lengthSq()), u.clone().multiplyScalar(v.lengthSq()))
+    .cross(w)
+    .divideScalar(2 * w.lengthSq());
+  const center = start.clone().add(offset);
+
+  // Going counterclockwise about start × through × end passes through the middle point
+  const normal = w.normalize();
+  const xAxis = offset.clone().negate().normalize();
+  const arc: Arc = { center, normal, xAxis, radius: offset.length(), startAngle: 0, endAngle: 0 };
+  let endAngle = angleOnArc(arc, end);
+  if (endAngle <= 0) endAngle += Math.PI * 2;
+  arc.endAngle = endAngle;
+  return arc;
+}
+
+/** The angle of a point around the arc's center, between -π and π. */
+export function angleOnArc(arc: Arc, point: THREE.Vector3): number {
+  const radial = new THREE.Vector3().subVectors(point, arc.center);
+  const yAxis = new THREE.Vector3().crossVectors(arc.normal, arc.xAxis);
+  return Math.atan2(radial.dot(yAxis), radial.dot(arc.xAxis));
+}
+
+export function pointOnArc(arc: Arc, angle: number): THREE.Vector3 {
+  const yAxis = new THREE.Vector3().crossVectors(arc.normal, arc.xAxis);
+  return arc.center.clone()
+    .addScaledVector(arc.xAxis, Math.cos(angle) * arc.radius)
+    .addScaledVector(yAxis, Math.sin(angle) * arc.radius);
+}
+
+export function arcLength(arc: Arc): number {
+  return Math.abs(arc.endAngle - arc.startAngle) * arc.radius;
+}
+
+/** Points along the arc for drawing, including both ends. */
+export function tessellateArc(arc: Arc): THREE.Vector3[] {
+  const sweep = arc.endAngle - arc.startAngle;
+  const count = Math.max(2, Math.ceil(Math.abs(sweep) / (Math.PI * 2) * SEGMENTS_PER_TURN));
+  const points: THREE.Vector3[] = [];
+  for (let i = 0; i <= count; i++) {
+    points.push(pointOnArc(arc, arc.startAngle + sweep * (i / count)));
+  }
+  return points;
+}
+
+/**
+ * Appends the arc to a 2D path whose plane is given by an origin and two axes,
+ * keeping it an arc curve so the path's shape still knows it is one.
+ */
+export function appendArcToPath(path: THREE.Path, arc: Arc, origin: THREE.Vector3, xAxis: THREE.Vector3, yAxis: THREE.Vector3) {
+  const project = (point: THREE.Vector3) => {
+    const relative = new THREE.Vector3().subVectors(point, origin);
+    return new THREE.Vector2(relative.dot(xAxis), relative.dot(yAxis));
+  };
+  const center = project(arc.center);
+  const start = project(pointOnArc(arc, arc.startAngle)).sub(center);
+  const end = project(pointOnArc(arc, arc.endAngle)).sub(center);
+
+  // The arc turns the other way when its normal faces away from the path's plane
+  const clockwise = new THREE.Vector3().crossVectors(xAxis, yAxis).dot(arc.normal) < 0;
+  path.absarc(center.x, center.y, arc.radius, Math.atan2(start.y, start.x), Math.atan2(end.y, end.x), clockwise);
+}
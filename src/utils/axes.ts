@@ -0,0 +1,40 @@
+import * as THREE from 'three';
+
+/** A scene axis a tool can be locked to. Y is up. */
+export type Axis = 'x' | 'y' | 'z';
+
+export const AXIS_VECTORS: Record<Axis, THREE.Vector3> = {
+  x: new THREE.Vector3(1, 0, 0),
+  y: new THREE.Vector3(0, 1, 0),
+  z: new THREE.Vector3(0, 0, 1)
+};
+
+/**
+ * Colours of the axes as every tool shows its arrow-key lock, the way SketchUp
+ * does: red and green on the ground and blue for the vertical Y. Free movement
+ * is grey.
+ */
+export const AXIS_COLORS: Record<Axis, number> = {
+  x: 0xff0000,
+  y: 0x0000ff,
+  z: 0x00ff00
+};
+
+export const FREE_COLOR = 0x9e9e9e;
+
+/**
+ * The axis an arrow key locks to: right for X, up for the vertical Y and left
+ * for Z. Any other key gives null.
+ */
+export function axisFromArrowKey(key: string): Axis | null {
+  switch (key) {
+    case 'ArrowRight':
+      return 'x';
+    case 'ArrowUp':
+      return 'y';
+    case 'ArrowLeft':
+      return 'z';
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,293 @@
+import * as THREE from 'three';
+import { AXIS_VECTORS } from './axes';
+import type { Axis } from './axes';
+import { createTextSprite, formatLength } from './annotations';
+
+/**
+ * Linear dimensions measure along one scene axis, aligned ones along the line
+ * between their points, angular ones the angle at a vertex and radial ones the
+ * distance from a center to a rim.
+ */
+export type DimensionKind = 'linear' | 'aligned' | 'angular' | 'radial';
+
+export type ArrowStyle = 'arrow' | 'tick' | 'dot';
+
+/**
+ * A point a dimension measures, kept in the local space of the object it was
+ * picked on so the dimension follows the object when it moves or is resized.
+ * Points picked on nothing are kept in world space.
+ */
+export interface DimensionAnchor {
+  object: THREE.Object3D | null;
+  local: THREE.Vector3;
+}
+
+export interface DimensionStyle {
+  /** Height of the text as a share of the view's height. */
+  textSize: number;
+  arrowStyle: ArrowStyle;
+}
+
+/**
+ * Everything a dimension is drawn from. The anchors are the start and end for
+ * linear and aligned dimensions, the vertex and a point on each side for
+ * angular ones, and the center and a point on the rim for radial ones.
+ */
+export interface DimensionModel {
+  kind: DimensionKind;
+  anchors: DimensionAnchor[];
+  /** The axis a linear dimension measures along. */
+  axis: Axis;
+  /**
+   * How far the dimension line sits from what it measures: along
+   * `offsetDirection` for linear and aligned dimensions, the arc's radius for
+   * angular ones and how far the leader runs past the rim for radial ones.
+   */
+  offset: number;
+  offsetDirection: THREE.Vector3;
+  style: DimensionStyle;
+}
+
+export const DEFAULT_DIMENSION_STYLE: DimensionStyle = { textSize: 0.03, arrowStyle: 'arrow' };
+
+const DIMENSION_COLOR = 0xffeb3b;
+const ARC_SEGMENTS = 32;
+
+// Kept outside userData so the scene can still be written out as JSON
+const models = new WeakMap<THREE.Group, DimensionModel>();
+const drawnFrom = new WeakMap<THREE.Group, string>();
+
+export function anchorAt(point: THREE.Vector3, object: THREE.Object3D | null): DimensionAnchor {
+  if (!object) return { object: null, local: point.clone() };
+
+  object.updateWorldMatrix(true, false);
+  return { object, local: object.worldToLocal(point.clone()) };
+}
+
+export function resolveAnchor(anchor: DimensionAnchor): THREE.Vector3 {
+  const object = anchor.object;
+  if (!object) return anchor.local.clone();
+
+  object.updateWorldMatrix(true, false);
+  return object.localToWorld(anchor.local.clone());
+}
+
+/** A direction across `direction`, level where possible. */
+export function perpendicularTo(direction: THREE.Vector3): THREE.Vector3 {
+  const across = new THREE.Vector3().crossVectors(direction, AXIS_VECTORS.y);
+  if (across.lengthSq() < 1e-9) across.crossVectors(direction, AXIS_VECTORS.x);
+  return across.normalize();
+}
+
+/** What the dimension is drawn with: line segments as pairs of points, dots and the label. */
+interface DimensionDrawing {
+  segments: THREE.Vector3[];
+  dots: THREE.Vector3[];
+  text: string;
+  textPosition: THREE.Vector3;
+}
+
+/** Adds an arrowhead, tick or dot at `tip`, pointing along `direction`. */
+function addArrow(drawing: DimensionDrawing, tip: THREE.Vector3, direction: THREE.Vector3, side: THREE.Vector3, size: number, style: ArrowStyle) {
+  switch (style) {
+    case 'arrow':
+      drawing.segments.push(
+        tip, tip.clone().addScaledVector(direction, -size).addScaledVector(side, size * 0.35),
+        tip, tip.clone().addScaledVector(direction, -size).addScaledVector(side, -size * 0.35)
+      );
+      break;
+    case 'tick': {
+      const slash = direction.clone().add(side).normalize().multiplyScalar(size * 0.5);
+      drawing.segments.push(tip.clone().sub(slash), tip.clone().add(slash));
+      break;
+    }
+    case 'dot':
+      drawing.dots.push(tip.clone());
+      break;
+  }
+}
+
+function arrowSize(length: number): number {
+  return THREE.MathUtils.clamp(length * 0.08, 0.03, 0.25);
+}
+
+/** Linear and aligned dimensions: extension lines out to a dimension line with arrows at both ends. */
+function drawLength(model: DimensionModel, [start, end]: THREE.Vector3[]): DimensionDrawing {
+  const along = model.kind === 'linear'
+    ? AXIS_VECTORS[model.axis].clone().multiplyScalar(end.clone().sub(start).dot(AXIS_VECTORS[model.axis]))
+    : end.clone().sub(start);
+  const across = model.offsetDirection.clone().normalize();
+  const lineStart = start.clone().addScaledVector(across, model.offset);
+  const lineEnd = lineStart.clone().add(along);
+  const length = along.length();
+  const size = arrowSize(length);
+
+  const drawing: DimensionDrawing = {
+    segments: [],
+    dots: [],
+    text: formatLength(length),
+    textPosition: lineStart.clone().lerp(lineEnd, 0.5).addScaledVector(across, size)
+  };
+
+  // Extension lines run a little past the dimension line
+  [[start, lineStart], [end, lineEnd]].forEach(([from, to]) => {
+    const overshoot = to.clone().sub(from);
+    if (overshoot.lengthSq() > 1e-12) overshoot.normalize().multiplyScalar(size * 0.5);
+    drawing.segments.push(from.clone(), to.clone().add(overshoot));
+  });
+  drawing.segments.push(lineStart, lineEnd);
+
+  if (length > 1e-9) {
+    const direction = along.clone().normalize();
+    addArrow(drawing, lineEnd, direction, across, size, model.style.arrowStyle);
+    addArrow(drawing, lineStart, direction.clone().negate(), across, size, model.style.arrowStyle);
+  }
+  return drawing;
+}
+
+/** Angular dimensions: an arc between the two sides with the angle in degrees. */
+function drawAngle(model: DimensionModel, [vertex, first, second]: THREE.Vector3[]): DimensionDrawing {
+  const firstSide = first.clone().sub(vertex);
+  const secondSide = second.clone().sub(vertex);
+  const angle = firstSide.angleTo(secondSide);
+  const normal = new THREE.Vector3().crossVectors(firstSide, secondSide);
+  if (normal.lengthSq() < 1e-12) normal.copy(perpendicularTo(firstSide));
+  normal.normalize();
+
+  const radius = model.offset > 0 ? model.offset : Math.min(firstSide.length(), secondSide.length()) * 0.5;
+  const size = arrowSize(radius * 2);
+  const startDirection = firstSide.clone().normalize();
+  const endDirection = startDirection.clone().applyAxisAngle(normal, angle);
+  const middle = startDirection.clone().applyAxisAngle(normal, angle / 2);
+
+  const drawing: DimensionDrawing = {
+    segments: [],
+    dots: [],
+    text: `${THREE.MathUtils.radToDeg(angle).toFixed(1)}°`,
+    textPosition: vertex.clone().addScaledVector(middle, radius + size * 1.5)
+  };
+
+  // The sides reach at least as far as the arc
+  drawing.segments.push(vertex, vertex.clone().addScaledVector(startDirection, Math.max(firstSide.length(), radius + size * 0.5)));
+  drawing.segments.push(vertex, vertex.clone().addScaledVector(endDirection, Math.max(secondSide.length(), radius + size * 0.5)));
+
+  let previous = vertex.clone().addScaledVector(startDirection, radius);
+  for (let i = 1; i <= ARC_SEGMENTS; i++) {
+    const point = vertex.clone().addScaledVector(startDirection.clone().applyAxisAngle(normal, angle * i / ARC_SEGMENTS), radius);
+    drawing.segments.push(previous, point);
+    previous = point;
+  }
+
+  const startTangent = new THREE.Vector3().crossVectors(normal, startDirection);
+  const endTangent = new THREE.Vector3().crossVectors(normal, endDirection);
+  addArrow(drawing, vertex.clone().addScaledVector(startDirection, radius), startTangent.negate(), startDirection, size, model.style.arrowStyle);
+  addArrow(drawing, vertex.clone().addScaledVector(endDirection, radius), endTangent, endDirection, size, model.style.arrowStyle);
+  return drawing;
+}
+
+/** Radial dimensions: a leader from the center through the rim, with the radius. */
+function drawRadius(model: DimensionModel, [center, rim]: THREE.Vector3[]): DimensionDrawing {
+  const radial = rim.clone().sub(center);
+  const radius = radial.length();
+  const direction = radius > 1e-9 ? radial.clone().normalize() : AXIS_VECTORS.x.clone();
+  const size = arrowSize(radius);
+  const end = rim.clone().addScaledVector(direction, Math.max(model.offset, 0));
+
+  const drawing: DimensionDrawing = {
+    segments: [center.clone(), end],
+    dots: [],
+    text: `R ${formatLength(radius)}`,
+    textPosition: end.clone().addScaledVector(direction, size * 2)
+  };
+  addArrow(drawing, rim, direction, perpendicularTo(direction), size, model.style.arrowStyle);
+  return drawing;
+}
+
+function draw(model: DimensionModel, points: THREE.Vector3[]): DimensionDrawing {
+  switch (model.kind) {
+    case 'linear':
+    case 'aligned':
+      return drawLength(model, points);
+    case 'angular':
+      return drawAngle(model, points);
+    case 'radial':
+      return drawRadius(model, points);
+  }
+}
+
+function clearDrawing(group: THREE.Group) {
+  [...group.children].forEach((child) => {
+    group.remove(child);
+    if (child instanceof THREE.LineSegments || child instanceof THREE.Points) {
+      child.geometry.dispose();
+      (child.material as THREE.Material).dispose();
+    } else if (child instanceof THREE.Sprite) {
+      child.material.map?.dispose();
+      child.material.dispose();
+    }
+  });
+}
+
+/** Redraws the dimension from where its anchors are now. */
+function redraw(group: THREE.Group, model: DimensionModel, points: THREE.Vector3[]) {
+  clearDrawing(group);
+  const drawing = draw(model, points);
+
+  const lines = new THREE.LineSegments(
+    new THREE.BufferGeometry().setFromPoints(drawing.segments),
+    new THREE.LineBasicMaterial({ color: DIMENSION_COLOR, depthTest: false })
+  );
+  lines.renderOrder = 4;
+  group.add(lines);
+
+  if (drawing.dots.length > 0) {
+    const dots = new THREE.Points(
+      new THREE.BufferGeometry().setFromPoints(drawing.dots),
+      new THREE.PointsMaterial({ color: DIMENSION_COLOR, size: 7, sizeAttenuation: false, depthTest: false })
+    );
+    dots.renderOrder = 4;
+    group.add(dots);
+  }
+
+  const label = createTextSprite(drawing.text, { size: model.style.textSize });
+  label.position.copy(drawing.textPosition);
+  group.add(label);
+}
+
+/** A dimension object, drawn in world space, that `updateDimension` keeps attached to its anchors. */
+export function createDimension(model: DimensionModel): THREE.Group {
+  const group = new THREE.Group();
+  group.name = 'Dimension';
+  group.userData = { isDimension: true, kind: model.kind };
+  models.set(group, model);
+  updateDimension(group, true);
+  return group;
+}
+
+/** Frees what the dimension is drawn with. */
+export function disposeDimension(group: THREE.Group) {
+  clearDrawing(group);
+  models.delete(group);
+  drawnFrom.delete(group);
+}
+
+export function getDimensionModel(group: THREE.Object3D): DimensionModel | null {
+  return group instanceof THREE.Group ? models.get(group) ?? null : null;
+}
+
+/**
+ * Redraws the dimension when what it is attached to has moved or been resized,
+ * or always when `force` is set. Returns whether it was redrawn.
+ */
+export function updateDimension(group: THREE.Group, force: boolean = false): boolean {
+  const model = models.get(group);
+  if (!model) return false;
+
+  const points = model.anchors.map(resolveAnchor);
+  const key = points.map(point => point.toArray().map(value => value.toFixed(6)).join(',')).join(';');
+  if (!force && drawnFrom.get(group) === key) return false;
+
+  drawnFrom.set(group, key);
+  redraw(group, model, points);
+  return true;
+}
@@ -0,0 +1,18 @@
+/**
+ * Saves data to the user's machine by clicking a temporary object URL link.
+ */
+export function downloadFile(data: BlobPart | Uint8Array, fileName: string, mimeType: string = 'application/octet-stream') {
+  // Typed arrays may be views into shared or WASM memory, so copy them first
+  const part = data instanceof Uint8Array ? new Uint8Array(data) : data;
+  const blob = new Blob([part], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,141 @@
+import * as THREE from 'three';
+import * as WEBIFC from 'web-ifc';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MoveTool } from '../components/MoveTool';
+import { IfcExporter } from '../ifc/IfcExporter';
+import type { IfcManager } from '../ifc/IfcManager';
+import { computeTakeoff } from '../takeoff/quantityTakeoff';
+import { copyObject } from './geometry';
+
+function createExtrusion(): THREE.Mesh {
+  const shape = new THREE.Shape();
+  shape.moveTo(0, 0);
+  shape.lineTo(4, 0);
+  shape.lineTo(4, 0.2);
+  shape.lineTo(0, 0.2);
+  shape.closePath();
+
+  const mesh = new THREE.Mesh(new THREE.ExtrudeGeometry(shape, { depth: 1, bevelEnabled: false }), new THREE.MeshStandardMaterial());
+  // Swept upwards into a 3 m high wall
+  mesh.rotation.x = -Math.PI / 2;
+  mesh.scale.set(1, 1, 3);
+  mesh.userData = { isExtrusion: true, baseShape: shape, originalHeight: 3 };
+  return mesh;
+}
+
+/** A mesh standing for an element of a loaded IFC model, selected and classified. */
+function createIfcElement(scene: THREE.Scene, model?: THREE.Group): THREE.Group {
+  const element = new THREE.Group();
+  element.add(new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), new THREE.MeshStandardMaterial()));
+  element.userData = {
+    expressID: 42,
+    ifcModelId: 'model',
+    ifcClassification: { ifcClass: 'IfcColumn', name: 'Column', description: '', predefinedType: 'COLUMN' }
+  };
+  const selectionHelper = new THREE.BoxHelper(element);
+  scene.add(selectionHelper);
+  element.userData.selectionHelper = selectionHelper;
+  model?.add(element);
+  return element;
+}
+
+/** A loaded IFC model, laid out the way IfcManager adds it to the scene. */
+function createIfcModel(scene: THREE.Scene): THREE.Group {
+  const model = new THREE.Group();
+  model.userData = { isIfcModel: true, ifcModelId: 'model' };
+  model.position.set(0, 0, 10);
+  scene.add(model);
+  return model;
+}
+
+const VIEW_SIZE = 100;
+
+/** A MoveTool looking straight down on the scene, with a canvas that only takes events. */
+function createMoveTool(scene: THREE.Scene): MoveTool {
+  vi.stubGlobal('window', new EventTarget());
+  // The snap marker's tooltips draw on canvases that have no 2D context here
+  vi.stubGlobal('document', { createElement: () => ({ getContext: () => null }) });
+  const domElement = Object.assign(new EventTarget(), {
+    style: {},
+    getBoundingClientRect: () => ({ left: 0, top: 0, width: VIEW_SIZE, height: VIEW_SIZE })
+  });
+  const camera = new THREE.OrthographicCamera(-20, 20, 20, -20, 0.1, 100);
+  camera.position.set(0, 50, 0);
+  camera.up.set(0, 0, -1);
+  camera.lookAt(0, 0, 0);
+  camera.updateMatrixWorld();
+
+  const tool = new MoveTool(scene, camera, { domElement } as unknown as THREE.WebGLRenderer, () => {});
+  tool.enable();
+  return tool;
+}
+
+function click(tool: MoveTool, x: number, y: number, ctrlKey = false) {
+  const domElement = (tool as unknown as { renderer: THREE.WebGLRenderer }).renderer.domElement;
+  domElement.dispatchEvent(Object.assign(new Event('mousemove'), { clientX: x, clientY: y }));
+  domElement.dispatchEvent(Object.assign(new Event('mousedown'), { button: 0, clientX: x, clientY: y, ctrlKey }));
+}
+
+async function exportScene(scene: THREE.Scene): Promise<{ api: WEBIFC.IfcAPI; modelID: number }> {
+  const api = new WEBIFC.IfcAPI();
+  await api.Init();
+  const ifcManager = { getApi: async () => api } as unknown as IfcManager;
+
+  const data = await new IfcExporter(ifcManager).exportExtrusions(scene);
+  return { api, modelID: api.OpenModel(data) };
+}
+
+describe('copyObject', () => {
+  it('gives copied extrusions their own shape', () => {
+    const extrusion = createExtrusion();
+    const copy = copyObject(extrusion);
+
+    expect(copy.userData.baseShape).toBeInstanceOf(THREE.Shape);
+    expect(copy.userData.baseShape).not.toBe(extrusion.userData.baseShape);
+    expect(copy.userData.baseShape.getPoints()).toEqual(extrusion.userData.baseShape.getPoints());
+  });
+
+  it('makes copies of IFC elements into drawn objects', () => {
+    const copy = copyObject(createIfcElement(new THREE.Scene()));
+
+    expect(copy.userData.expressID).toBeUndefined();
+    expect(copy.userData.ifcModelId).toBeUndefined();
+    expect(copy.userData.selectionHelper).toBeUndefined();
+    expect(copy.userData.ifcClassification.ifcClass).toBe('IfcColumn');
+  });
+
+  it('keeps the scene exportable and measurable after a Ctrl-copy with MoveTool', async () => {
+    const scene = new THREE.Scene();
+    const extrusion = createExtrusion();
+    scene.add(extrusion);
+    const element = createIfcElement(scene, createIfcModel(scene));
+    const before = [...scene.children];
+
+    // Copy both 10 m to the right, from the middle of the view
+    const tool = createMoveTool(scene);
+    tool.setTargets([extrusion, element]);
+    click(tool, VIEW_SIZE / 2, VIEW_SIZE / 2);
+    click(tool, VIEW_SIZE * 3 / 4, VIEW_SIZE / 2, true);
+    tool.disable();
+
+    const copies = scene.children.filter(child => !before.includes(child) && child.name !== 'selectionHelper');
+    expect(copies).toHaveLength(2);
+    // The copied element leaves the IFC model for the scene, keeping where it was put
+    const elementCopy = copies.find(copy => copy.userData.ifcClassification)!;
+    expect(elementCopy.parent).toBe(scene);
+    expect(elementCopy.position.distanceTo(new THREE.Vector3(10, 0, 10))).toBeCloseTo(0);
+    expect(element.getWorldPosition(new THREE.Vector3()).distanceTo(new THREE.Vector3(0, 0, 10))).toBeCloseTo(0);
+
+    const { api, modelID } = await exportScene(scene);
+    expect(api.GetLineIDsWithType(modelID, WEBIFC.IFCWALLSTANDARDCASE).size()).toBe(2);
+    expect(api.GetLineIDsWithType(modelID, WEBIFC.IFCCOLUMN).size()).toBe(1);
+    api.CloseModel(modelID);
+
+    const rows = await computeTakeoff(scene, null, new Map());
+    expect(rows.map(row => row.object)).toEqual([extrusion, ...copies]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+});
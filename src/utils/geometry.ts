@@ -0,0 +1,60 @@
+import * as THREE from 'three';
+import type { Arc } from './arcs';
+
+/**
+ * The triangles of a mesh in world coordinates. The mesh's world matrix is
+ * expected to be up to date.
+ */
+export function getWorldTriangles(mesh: THREE.Mesh): THREE.Triangle[] {
+  const position = mesh.geometry.getAttribute('position');
+  if (!position) return [];
+
+  const index = mesh.geometry.getIndex();
+  const count = index ? index.count : position.count;
+  const vertex = (i: number) =>
+    new THREE.Vector3().fromBufferAttribute(position, index ? index.getX(i) : i).applyMatrix4(mesh.matrixWorld);
+
+  const triangles: THREE.Triangle[] = [];
+  for (let i = 0; i + 2 < count; i += 3) {
+    triangles.push(new THREE.Triangle(vertex(i), vertex(i + 1), vertex(i + 2)));
+  }
+  return triangles;
+}
+
+function cloneArc(arc: Arc): Arc {
+  return { ...arc, center: arc.center.clone(), normal: arc.normal.clone(), xAxis: arc.xAxis.clone() };
+}
+
+/**
+ * A copy of a drawn object, as made by Ctrl-copy in MoveTool. `clone()` copies
+ * `userData` through JSON, so the shapes, polylines and arcs the exporter and
+ * the takeoff read are rebuilt from the original's. The copy is a new drawn
+ * object: it is not selected and no longer stands for an IFC element.
+ */
+export function copyObject(object: THREE.Object3D): THREE.Object3D {
+  const copy = object.clone();
+
+  const sources: THREE.Object3D[] = [];
+  object.traverse(source => sources.push(source));
+  const copies: THREE.Object3D[] = [];
+  copy.traverse(target => copies.push(target));
+
+  sources.forEach((source, index) => {
+    const { baseShape, polyline, arc } = source.userData;
+    const userData = copies[index].userData;
+    if (baseShape instanceof THREE.Shape) userData.baseShape = baseShape.clone();
+    if (polyline) {
+      userData.polyline = {
+        points: polyline.points.map((point: THREE.Vector3) => point.clone()),
+        arcs: polyline.arcs.map((segmentArc: Arc | null) => segmentArc && cloneArc(segmentArc))
+      };
+    }
+    if (arc) userData.arc = cloneArc(arc);
+
+    delete userData.selectionHelper;
+    delete userData.expressID;
+    delete userData.ifcModelId;
+  });
+
+  return copy;
+}
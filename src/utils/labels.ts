@@ -0,0 +1,138 @@
+import * as THREE from 'three';
+import { createTextSprite, createTextTexture } from './annotations';
+
+/**
+ * Billboard labels face the camera and keep their size on screen; flat labels
+ * lie on the face they were placed on and are sized in metres.
+ */
+export type LabelKind = 'billboard' | 'flat';
+
+/**
+ * Everything a label is drawn from, kept as plain values in `userData.label`
+ * so the label is saved and loaded with the scene like any other object.
+ */
+export interface LabelData {
+  text: string;
+  kind: LabelKind;
+  /** CSS colour of the text and the leader. */
+  color: string;
+  /** Height of the text: a share of the view's height for billboards, metres for flat text. */
+  size: number;
+  /** The point the leader line points to, in the label's local space, or null without a leader. */
+  leader: number[] | null;
+}
+
+export const DEFAULT_LABEL_SIZES: Record<LabelKind, number> = { billboard: 0.035, flat: 0.25 };
+
+// Flat text sits just above its face so the face does not hide it
+const FLAT_LIFT = 0.002;
+
+/** The label data of a label object, or null for anything else. */
+export function getLabelData(object: THREE.Object3D): LabelData | null {
+  return object.userData.isLabel ? object.userData.label : null;
+}
+
+/** The label `object` is part of, if any. */
+export function findLabel(object: THREE.Object3D): THREE.Group | null {
+  for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+    if (current instanceof THREE.Group && current.userData.isLabel) return current;
+  }
+  return null;
+}
+
+/**
+ * Turns `group` so flat text on a face with the given normal reads upright:
+ * along the face on walls, and across the view on floors and ceilings.
+ */
+export function orientLabel(group: THREE.Object3D, normal: THREE.Vector3, camera: THREE.Camera) {
+  const up = new THREE.Vector3(0, 1, 0);
+  const right = Math.abs(normal.dot(up)) > 0.9
+    ? new THREE.Vector3(1, 0, 0).applyQuaternion(camera.quaternion)
+    : new THREE.Vector3().crossVectors(up, normal);
+  right.addScaledVector(normal, -right.dot(normal));
+  if (right.lengthSq() < 1e-9) right.set(1, 0, 0).addScaledVector(normal, -normal.x);
+  right.normalize();
+
+  const textUp = new THREE.Vector3().crossVectors(normal, right);
+  group.quaternion.setFromRotationMatrix(new THREE.Matrix4().makeBasis(right, textUp, normal));
+}
+
+function clearLabel(group: THREE.Group) {
+  [...group.children].forEach((child) => {
+    group.remove(child);
+    if (child instanceof THREE.Sprite || child instanceof THREE.Mesh || child instanceof THREE.Line || child instanceof THREE.Points) {
+      const material = child.material as THREE.Material & { map?: THREE.Texture | null };
+      material.map?.dispose();
+      material.dispose();
+      child.geometry.dispose();
+    }
+  });
+}
+
+function drawLabel(group: THREE.Group) {
+  clearLabel(group);
+  const data = getLabelData(group);
+  if (!data) return;
+
+  if (data.kind === 'billboard') {
+    group.add(createTextSprite(data.text, { color: data.color, size: data.size }));
+  } else {
+    const { texture, aspect } = createTextTexture(data.text, data.color, 'rgba(0, 0, 0, 0)');
+    const text = new THREE.Mesh(
+      new THREE.PlaneGeometry(data.size * aspect, data.size),
+      new THREE.MeshBasicMaterial({ map: texture, transparent: true, side: THREE.DoubleSide, depthWrite: false })
+    );
+    text.position.z = FLAT_LIFT;
+    group.add(text);
+  }
+
+  if (data.leader) {
+    const target = new THREE.Vector3().fromArray(data.leader);
+    const leader = new THREE.Line(
+      new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(), target]),
+      new THREE.LineBasicMaterial({ color: data.color, depthTest: false })
+    );
+    leader.renderOrder = 3;
+    group.add(leader);
+
+    const tip = new THREE.Points(
+      new THREE.BufferGeometry().setFromPoints([target]),
+      new THREE.PointsMaterial({ color: data.color, size: 6, sizeAttenuation: false, depthTest: false })
+    );
+    tip.renderOrder = 3;
+    group.add(tip);
+  }
+}
+
+/** A label object drawn from `data`, with its text at the group's origin. */
+export function createLabel(data: LabelData): THREE.Group {
+  const group = new THREE.Group();
+  group.name = 'Label';
+  group.userData = { isLabel: true, label: { ...data } };
+  drawLabel(group);
+  return group;
+}
+
+/** Changes what the label shows and redraws it. */
+export function updateLabel(group: THREE.Group, changes: Partial<LabelData>) {
+  const data = getLabelData(group);
+  if (!data) return;
+
+  group.userData.label = { ...data, ...changes };
+  drawLabel(group);
+}
+
+/** Points the leader at `point`, given in world space, or removes it. */
+export function setLabelLeader(group: THREE.Group, point: THREE.Vector3 | null) {
+  if (!point) {
+    updateLabel(group, { leader: null });
+    return;
+  }
+  group.updateWorldMatrix(true, false);
+  updateLabel(group, { leader: group.worldToLocal(point.clone()).toArray() });
+}
+
+/** Frees what the label is drawn with. */
+export function disposeLabel(group: THREE.Group) {
+  clearLabel(group);
+}
@@ -0,0 +1,18 @@
+import type * as THREE from 'three';
+
+/** Layer that drawn objects are on until they are moved to another one. */
+export const DEFAULT_LAYER_ID = 'layer-0';
+
+/**
+ * The layer an object was put on, or that one of its parents was put on, as
+ * imported models assign their layer to the model group only.
+ */
+export function getObjectLayerId(object: THREE.Object3D): string | null {
+  let current: THREE.Object3D | null = object;
+  while (current) {
+    const layerId: string | undefined = current.userData.layerId;
+    if (layerId) return layerId;
+    current = current.parent;
+  }
+  return null;
+}
@@ -0,0 +1,80 @@
+import * as THREE from 'three';
+
+/** A point picked in the scene and the mesh it lies on, if any. */
+export interface PickResult {
+  point: THREE.Vector3;
+  object: THREE.Object3D | null;
+  /** The world-space normal of the face or ground picked, turned towards the camera. */
+  normal: THREE.Vector3;
+}
+
+export function getPointerRay(event: MouseEvent, camera: THREE.Camera, domElement: HTMLElement): THREE.Ray {
+  const rect = domElement.getBoundingClientRect();
+  const mouse = new THREE.Vector2(
+    ((event.clientX - rect.left) / rect.width) * 2 - 1,
+    -((event.clientY - rect.top) / rect.height) * 2 + 1
+  );
+
+  const raycaster = new THREE.Raycaster();
+  raycaster.setFromCamera(mouse, camera);
+  return raycaster.ray;
+}
+
+/**
+ * The point under the mouse on the nearest visible mesh among `objects`, or on
+ * the ground plane when no mesh is hit.
+ */
+export function pickPoint(event: MouseEvent, camera: THREE.Camera, domElement: HTMLElement, objects: THREE.Object3D[]): PickResult | null {
+  const ray = getPointerRay(event, camera, domElement);
+  const raycaster = new THREE.Raycaster(ray.origin, ray.direction);
+  raycaster.camera = camera;
+
+  const hit = raycaster.intersectObjects(objects, true).find(intersection =>
+    intersection.object instanceof THREE.Mesh && isVisible(intersection.object)
+  );
+  if (hit) {
+    const normal = hit.face
+      ? hit.face.normal.clone().applyMatrix3(new THREE.Matrix3().getNormalMatrix(hit.object.matrixWorld)).normalize()
+      : ray.direction.clone().negate();
+    if (normal.dot(ray.direction) > 0) normal.negate();
+    return { point: hit.point.clone(), object: hit.object, normal };
+  }
+
+  const groundPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+  const point = ray.intersectPlane(groundPlane, new THREE.Vector3());
+  return point ? { point, object: null, normal: groundPlane.normal.clone() } : null;
+}
+
+/**
+ * The object a click on `object` is about, the same one SelectionTool selects:
+ * its ancestor directly under the scene, or the IFC element it belongs to.
+ */
+export function getPickedRoot(object: THREE.Object3D, scene: THREE.Scene): THREE.Object3D {
+  let root = object;
+  while (root.parent && root.parent !== scene && root.userData.expressID === undefined) {
+    root = root.parent;
+  }
+  return root;
+}
+
+/** The point on the line through `origin` along `direction` closest to the ray. */
+export function closestPointOnLine(ray: THREE.Ray, origin: THREE.Vector3, direction: THREE.Vector3): THREE.Vector3 {
+  const w = new THREE.Vector3().subVectors(origin, ray.origin);
+  const b = direction.dot(ray.direction);
+  const d = direction.dot(w);
+  const e = ray.direction.dot(w);
+  const denominator = 1 - b * b;
+
+  // A line seen end-on gives no better answer than its origin
+  if (denominator < 1e-6) return origin.clone();
+  const t = (b * e - d) / denominator;
+  return origin.clone().addScaledVector(direction, t);
+}
+
+/** Whether the object and all its parents are shown. */
+export function isVisible(object: THREE.Object3D): boolean {
+  for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+    if (!current.visible) return false;
+  }
+  return true;
+}
@@ -0,0 +1,94 @@
+import * as THREE from 'three';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { clearSnapInference, setSnapEnabled, snapPoint } from './snapping';
+import type { SnapResult } from './snapping';
+
+const VIEW_SIZE = 200;
+
+/** Looking straight down on 10 × 10 m, so a metre is 20 pixels. */
+function createCamera(): THREE.OrthographicCamera {
+  const camera = new THREE.OrthographicCamera(-5, 5, 5, -5, 0.1, 100);
+  camera.position.set(0, 50, 0);
+  camera.up.set(0, 0, -1);
+  camera.lookAt(0, 0, 0);
+  camera.updateMatrixWorld();
+  return camera;
+}
+
+const camera = createCamera();
+const domElement = { getBoundingClientRect: () => ({ left: 0, top: 0, width: VIEW_SIZE, height: VIEW_SIZE }) } as unknown as HTMLElement;
+
+/** A 4 × 4 m box, 1 m high, centred on the origin. */
+function createBox(): THREE.Mesh {
+  const box = new THREE.Mesh(new THREE.BoxGeometry(4, 1, 4), new THREE.MeshStandardMaterial());
+  box.updateMatrixWorld();
+  return box;
+}
+
+/** Snaps with the mouse over the world point (x, y, z). */
+function snapAt(x: number, y: number, z: number, objects: THREE.Object3D[], options = {}): SnapResult | null {
+  const ndc = new THREE.Vector3(x, y, z).project(camera);
+  const event = { clientX: (ndc.x + 1) / 2 * VIEW_SIZE, clientY: (1 - ndc.y) / 2 * VIEW_SIZE } as MouseEvent;
+  return snapPoint(event, camera, domElement, objects, options);
+}
+
+function expectSnap(snap: SnapResult | null, kind: string, point: [number, number, number]) {
+  expect(snap?.kind).toBe(kind);
+  expect(snap!.point.distanceTo(new THREE.Vector3(...point))).toBeCloseTo(0);
+}
+
+beforeEach(() => {
+  clearSnapInference();
+});
+
+describe('snapPoint', () => {
+  it('snaps to corners, edge midpoints, face centres and edges of meshes', () => {
+    const box = createBox();
+    expectSnap(snapAt(1.8, 0.5, 1.9, [box]), 'vertex', [2, 0.5, 2]);
+    expectSnap(snapAt(1.9, 0.5, 0.2, [box]), 'midpoint', [2, 0.5, 0]);
+    expectSnap(snapAt(0.2, 0.5, -0.1, [box]), 'center', [0, 0.5, 0]);
+    expectSnap(snapAt(1.9, 0.5, 1, [box]), 'edge', [2, 0.5, 1]);
+    expectSnap(snapAt(1, 0.5, 1, [box]), 'face', [1, 0.5, 1]);
+  });
+
+  it('snaps off the meshes to grid crossings, or else to the ground', () => {
+    expectSnap(snapAt(3.1, 0, -3.1, []), 'grid', [3, 0, -3]);
+    expectSnap(snapAt(3.5, 0, -3.5, []), 'ground', [3.5, 0, -3.5]);
+  });
+
+  it('leaves out the snaps that are switched off', () => {
+    setSnapEnabled('midpoint', false);
+    try {
+      expectSnap(snapAt(1.9, 0.5, 0.2, [createBox()]), 'edge', [2, 0.5, 0.2]);
+    } finally {
+      setSnapEnabled('midpoint', true);
+    }
+  });
+
+  it('infers parallel and perpendicular directions from the last edge hovered', () => {
+    const box = createBox();
+    const from = new THREE.Vector3(3, 0, 3);
+    // The box's edge along Z at x = 2
+    expectSnap(snapAt(1.9, 0.5, 1, [box], { from }), 'edge', [2, 0.5, 1]);
+
+    const parallel = snapAt(3.2, 0, 4.5, [box], { from });
+    expectSnap(parallel, 'parallel', [3, 0, 4.5]);
+    expect(parallel!.from).toEqual(from);
+    expectSnap(snapAt(4.5, 0, 3.2, [box], { from }), 'perpendicular', [4.5, 0, 3]);
+
+    clearSnapInference();
+    expectSnap(snapAt(4.5, 0, 3.2, [box], { from }), 'ground', [4.5, 0, 3.2]);
+  });
+
+  it('infers directions from reference edges, and forgets the hovered edge without a point to draw from', () => {
+    const box = createBox();
+    const from = new THREE.Vector3(3, 0, 3);
+    expectSnap(snapAt(1.9, 0.5, 1, [box], { from }), 'edge', [2, 0.5, 1]);
+    // Moving on before the first point of the next shape
+    expectSnap(snapAt(-3.5, 0, -3.5, [box]), 'ground', [-3.5, 0, -3.5]);
+    expectSnap(snapAt(3.2, 0, 4.5, [box], { from }), 'ground', [3.2, 0, 4.5]);
+
+    const references = [new THREE.Line3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(1, 0, 0))];
+    expectSnap(snapAt(4.5, 0, 3.2, [box], { from, references }), 'parallel', [4.5, 0, 3]);
+  });
+});
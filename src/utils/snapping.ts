@@ -0,0 +1,470 @@
+import * as THREE from 'three';
+import { createTextSprite } from './annotations';
+import { pointOnArc } from './arcs';
+import type { Arc } from './arcs';
+import { getPointerRay, isVisible } from './picking';
+
+/** The snaps that can be switched on and off. */
+export type SnapCategory = 'vertex' | 'midpoint' | 'edge' | 'center' | 'grid' | 'parallel' | 'perpendicular';
+
+/** What a snapped point lies on. Faces and the ground are what is left when nothing else snaps. */
+export type SnapKind = SnapCategory | 'face' | 'ground';
+
+export interface SnapResult {
+  point: THREE.Vector3;
+  kind: SnapKind;
+  object: THREE.Object3D | null;
+  /** For parallel and perpendicular snaps, the point the inference line runs from. */
+  from?: THREE.Vector3;
+}
+
+export interface SnapOptions {
+  /** The point being drawn from, which parallel and perpendicular snaps run through. */
+  from?: THREE.Vector3 | null;
+  /** Where the point falls off the meshes; the ground plane by default. */
+  plane?: THREE.Plane;
+  /** Edges to infer directions from besides the last one hovered, e.g. the segments already drawn. */
+  references?: THREE.Line3[];
+}
+
+export const SNAP_CATEGORIES: SnapCategory[] = ['vertex', 'midpoint', 'edge', 'center', 'grid', 'parallel', 'perpendicular'];
+
+/** The tooltip shown at each kind of snap. */
+export const SNAP_LABELS: Record<SnapKind, string> = {
+  vertex: 'Endpoint',
+  midpoint: 'Midpoint',
+  edge: 'On Edge',
+  center: 'Center',
+  grid: 'Grid',
+  parallel: 'Parallel',
+  perpendicular: 'Perpendicular',
+  face: 'On Face',
+  ground: 'On Ground'
+};
+
+/** Marker colours, as SketchUp uses them: green ends, cyan midpoints, red edges, blue faces and magenta inferences. */
+export const SNAP_COLORS: Record<SnapKind, number> = {
+  vertex: 0x00ff00,
+  midpoint: 0x00e5ff,
+  edge: 0xff0000,
+  center: 0xff9800,
+  grid: 0xffffff,
+  parallel: 0xff00ff,
+  perpendicular: 0xff00ff,
+  face: 0x2196f3,
+  ground: 0x9e9e9e
+};
+
+/** How close, in pixels, the mouse must be to a point, an edge, a grid crossing or an inference line to snap to it. */
+const POINT_SNAP_PIXELS = 12;
+const EDGE_SNAP_PIXELS = 8;
+const GRID_SNAP_PIXELS = 10;
+const INFERENCE_SNAP_PIXELS = 10;
+
+/** The spacing of the grid drawn on the ground, in metres. */
+const GRID_SIZE = 1;
+
+/** Meshes with more triangles than this are only snapped to on their faces. */
+const MAX_EDGE_TRIANGLES = 20000;
+
+const GROUND_PLANE = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+
+// Shared by every tool, so switching a snap off applies to all of them
+const enabledCategories: Record<SnapCategory, boolean> = {
+  vertex: true,
+  midpoint: true,
+  edge: true,
+  center: true,
+  grid: true,
+  parallel: true,
+  perpendicular: true
+};
+
+/** The edge the mouse was last over, which parallel and perpendicular snaps are inferred from. */
+let lastEdge: THREE.Line3 | null = null;
+
+const edgeCache = new WeakMap<THREE.BufferGeometry, THREE.EdgesGeometry>();
+const faceCenterCache = new WeakMap<THREE.BufferGeometry, Map<number, THREE.Vector3 | null>>();
+
+export function getSnapSettings(): Record<SnapCategory, boolean> {
+  return { ...enabledCategories };
+}
+
+export function setSnapEnabled(category: SnapCategory, enabled: boolean) {
+  enabledCategories[category] = enabled;
+}
+
+/** Forgets the edge parallel and perpendicular snaps are inferred from, e.g. when a tool is put down. */
+export function clearSnapInference() {
+  lastEdge = null;
+}
+
+/**
+ * What can be snapped to: the scene's objects but the grid, annotations other
+ * than measurements, markers and the given previews.
+ */
+export function getSnapTargets(scene: THREE.Scene, exclude: Array<THREE.Object3D | null> = []): THREE.Object3D[] {
+  return scene.children.filter(child =>
+    !exclude.includes(child) &&
+    !(child instanceof THREE.GridHelper) &&
+    !(child instanceof THREE.AxesHelper) &&
+    !child.userData.isSnapMarker &&
+    (!child.userData.isDimension || child.userData.isMeasurement) &&
+    !child.userData.isLabel &&
+    child.name !== 'selectionHelper'
+  );
+}
+
+/** The visible edges of a mesh's geometry, worked out once per geometry. */
+export function getEdges(geometry: THREE.BufferGeometry): THREE.EdgesGeometry | null {
+  const triangles = (geometry.index?.count ?? geometry.attributes.position.count) / 3;
+  if (triangles > MAX_EDGE_TRIANGLES) return null;
+
+  let edges = edgeCache.get(geometry);
+  if (!edges) {
+    edges = new THREE.EdgesGeometry(geometry, 30);
+    edgeCache.set(geometry, edges);
+  }
+  return edges;
+}
+
+/**
+ * The center of the flat face a triangle belongs to, in the geometry's own
+ * space: the area-weighted center of every triangle in the same plane.
+ */
+function getFaceCenter(geometry: THREE.BufferGeometry, faceIndex: number): THREE.Vector3 | null {
+  let centers = faceCenterCache.get(geometry);
+  if (!centers) {
+    centers = new Map();
+    faceCenterCache.set(geometry, centers);
+  }
+  const cached = centers.get(faceIndex);
+  if (cached !== undefined) return cached;
+
+  const positions = geometry.attributes.position;
+  const index = geometry.index;
+  const count = index ? index.count : positions.count;
+  const triangle = new THREE.Triangle();
+  const setTriangle = (first: number) => triangle.set(
+    triangle.a.fromBufferAttribute(positions, index ? index.getX(first) : first),
+    triangle.b.fromBufferAttribute(positions, index ? index.getX(first + 1) : first + 1),
+    triangle.c.fromBufferAttribute(positions, index ? index.getX(first + 2) : first + 2)
+  );
+
+  setTriangle(faceIndex * 3);
+  const plane = triangle.getPlane(new THREE.Plane());
+  const normal = new THREE.Vector3();
+  const midpoint = new THREE.Vector3();
+  const center = new THREE.Vector3();
+  let area = 0;
+  for (let i = 0; i + 2 < count; i += 3) {
+    setTriangle(i);
+    const inPlane = [triangle.a, triangle.b, triangle.c].every(point => Math.abs(plane.distanceToPoint(point)) < 1e-4);
+    if (!inPlane || triangle.getNormal(normal).dot(plane.normal) < 0.999) continue;
+
+    const triangleArea = triangle.getArea();
+    center.addScaledVector(triangle.getMidpoint(midpoint), triangleArea);
+    area += triangleArea;
+  }
+
+  const result = area > 0 ? center.divideScalar(area) : null;
+  centers.set(faceIndex, result);
+  return result;
+}
+
+function toScreen(point: THREE.Vector3, camera: THREE.Camera, rect: DOMRect): THREE.Vector2 {
+  const ndc = point.clone().project(camera);
+  return new THREE.Vector2((ndc.x + 1) / 2 * rect.width, (1 - ndc.y) / 2 * rect.height);
+}
+
+/** How long a pixel on screen is in the world at a point. */
+function pixelSize(point: THREE.Vector3, camera: THREE.Camera, rect: DOMRect): number {
+  const ndc = point.clone().project(camera);
+  const above = ndc.clone().setY(ndc.y + 2 / rect.height).unproject(camera);
+  return above.distanceTo(point);
+}
+
+/** Ranks snaps so that points beat edges and edges beat faces. */
+function snapRank(kind: SnapKind): number {
+  if (kind === 'face' || kind === 'ground') return 0;
+  return kind === 'edge' ? 1 : 2;
+}
+
+/**
+ * Snaps a point on a mesh to the nearest of its corners, edge midpoints and
+ * face center within a few pixels, then to its nearest edge.
+ */
+function snapToMesh(hit: THREE.Intersection, camera: THREE.Camera, rect: DOMRect, mouse: THREE.Vector2): SnapResult {
+  const mesh = hit.object as THREE.Mesh;
+  const face: SnapResult = { point: hit.point.clone(), kind: 'face', object: mesh };
+  const edges = getEdges(mesh.geometry);
+  if (!edges) return face;
+
+  const positions = edges.attributes.position;
+  const start = new THREE.Vector3();
+  const end = new THREE.Vector3();
+  const onEdge = new THREE.Vector3();
+  const candidates: Array<{ point: THREE.Vector3; kind: SnapCategory }> = [];
+  let edge: { point: THREE.Vector3; line: THREE.Line3; pixels: number } | null = null;
+
+  for (let i = 0; i < positions.count; i += 2) {
+    start.fromBufferAttribute(positions, i).applyMatrix4(mesh.matrixWorld);
+    end.fromBufferAttribute(positions, i + 1).applyMatrix4(mesh.matrixWorld);
+    candidates.push(
+      { point: start.clone(), kind: 'vertex' },
+      { point: end.clone(), kind: 'vertex' },
+      { point: start.clone().lerp(end, 0.5), kind: 'midpoint' }
+    );
+
+    const line = new THREE.Line3(start.clone(), end.clone());
+    line.closestPointToPoint(hit.point, true, onEdge);
+    const pixels = toScreen(onEdge, camera, rect).distanceTo(mouse);
+    if (pixels < EDGE_SNAP_PIXELS && (!edge || pixels < edge.pixels)) {
+      edge = { point: onEdge.clone(), line, pixels };
+    }
+  }
+
+  const center = hit.faceIndex !== undefined && hit.faceIndex !== null ? getFaceCenter(mesh.geometry, hit.faceIndex) : null;
+  if (center) candidates.push({ point: center.clone().applyMatrix4(mesh.matrixWorld), kind: 'center' });
+
+  // Remember the edge for inferences even when snapping to edges is off
+  if (edge) lastEdge = edge.line;
+
+  let nearest: { point: THREE.Vector3; kind: SnapCategory; pixels: number } | null = null;
+  for (const candidate of candidates) {
+    if (!enabledCategories[candidate.kind]) continue;
+    const pixels = toScreen(candidate.point, camera, rect).distanceTo(mouse);
+    if (pixels < POINT_SNAP_PIXELS && (!nearest || pixels < nearest.pixels)) {
+      nearest = { ...candidate, pixels };
+    }
+  }
+
+  if (nearest) return { point: nearest.point, kind: nearest.kind, object: mesh };
+  if (edge && enabledCategories.edge) return { point: edge.point, kind: 'edge', object: mesh };
+  return face;
+}
+
+/**
+ * Snaps to the lines near the mouse, such as open polylines, arcs and
+ * measurements: to the ends and midpoint of the segment hovered within a few
+ * pixels, then to the nearest point on it. Arcs snap to their two ends and the
+ * middle of the arc rather than to the pieces they are drawn with.
+ */
+function snapToLines(raycaster: THREE.Raycaster, objects: THREE.Object3D[], camera: THREE.Camera, rect: DOMRect, mouse: THREE.Vector2): SnapResult | null {
+  const lines: THREE.Line[] = [];
+  objects.forEach(object => object.traverse(child => {
+    if (child instanceof THREE.Line && isVisible(child)) lines.push(child);
+  }));
+
+  let best: { point: THREE.Vector3; kind: SnapCategory; object: THREE.Line; pixels: number } | null = null;
+  for (const line of lines) {
+    const geometry = line.geometry as THREE.BufferGeometry;
+    const positions = geometry.attributes.position;
+    if (!positions || positions.count < 2) continue;
+
+    // The threshold is in world units, so work it out from the pixels at the line
+    if (!geometry.boundingSphere) geometry.computeBoundingSphere();
+    const middle = geometry.boundingSphere!.center.clone().applyMatrix4(line.matrixWorld);
+    raycaster.params.Line.threshold = pixelSize(middle, camera, rect) * POINT_SNAP_PIXELS;
+    const hit = raycaster.intersectObject(line, false)[0];
+    if (!hit || hit.index === undefined) continue;
+
+    const candidates: Array<{ point: THREE.Vector3; kind: SnapCategory }> = [];
+    const arc = line.userData.isArc ? line.userData.arc as Arc : null;
+    if (arc) {
+      const ends = [arc.startAngle, arc.endAngle, (arc.startAngle + arc.endAngle) / 2].map(angle => pointOnArc(arc, angle).applyMatrix4(line.matrixWorld));
+      candidates.push({ point: ends[0], kind: 'vertex' }, { point: ends[1], kind: 'vertex' }, { point: ends[2], kind: 'midpoint' });
+    } else {
+      // The last segment of a loop runs back to the first point
+      const count = geometry.index ? geometry.index.count : positions.count;
+      const vertex = (i: number) => geometry.index ? geometry.index.getX(i % count) : i % count;
+      const start = new THREE.Vector3().fromBufferAttribute(positions, vertex(hit.index)).applyMatrix4(line.matrixWorld);
+      const end = new THREE.Vector3().fromBufferAttribute(positions, vertex(hit.index + 1)).applyMatrix4(line.matrixWorld);
+      candidates.push({ point: start, kind: 'vertex' }, { point: end, kind: 'vertex' }, { point: start.clone().lerp(end, 0.5), kind: 'midpoint' });
+
+      const edgePixels = toScreen(hit.point, camera, rect).distanceTo(mouse);
+      if (edgePixels < EDGE_SNAP_PIXELS) lastEdge = new THREE.Line3(start, end);
+    }
+    candidates.push({ point: hit.point.clone(), kind: 'edge' });
+
+    for (const candidate of candidates) {
+      if (!enabledCategories[candidate.kind]) continue;
+      const pixels = toScreen(candidate.point, camera, rect).distanceTo(mouse);
+      if (pixels >= (candidate.kind === 'edge' ? EDGE_SNAP_PIXELS : POINT_SNAP_PIXELS)) continue;
+      if (!best || snapRank(candidate.kind) > snapRank(best.kind) || (snapRank(candidate.kind) === snapRank(best.kind) && pixels < best.pixels)) {
+        best = { ...candidate, object: line, pixels };
+      }
+    }
+  }
+
+  return best ? { point: best.point, kind: best.kind, object: best.object } : null;
+}
+
+/**
+ * Pulls a free point onto the line from `options.from` that runs parallel or
+ * perpendicular to the last edge hovered or one of the reference edges, when
+ * that line passes within a few pixels of the mouse.
+ */
+function inferDirection(free: SnapResult, options: SnapOptions, camera: THREE.Camera, rect: DOMRect, mouse: THREE.Vector2): SnapResult | null {
+  const from = options.from;
+  if (!from) return null;
+
+  const offset = free.point.clone().sub(from);
+  if (offset.lengthSq() < 1e-12) return null;
+
+  const references = [...(options.references ?? []), ...(lastEdge ? [lastEdge] : [])];
+  let best: { point: THREE.Vector3; kind: SnapCategory; pixels: number } | null = null;
+  for (const reference of references) {
+    const along = reference.delta(new THREE.Vector3());
+    if (along.lengthSq() < 1e-12) continue;
+    along.normalize();
+
+    const directions: [SnapCategory, THREE.Vector3][] = [];
+    if (enabledCategories.parallel) directions.push(['parallel', along]);
+    // Of all the directions square to the edge, the one nearest the mouse
+    const across = offset.clone().addScaledVector(along, -offset.dot(along));
+    if (enabledCategories.perpendicular && across.lengthSq() > 1e-12) directions.push(['perpendicular', across.normalize()]);
+
+    for (const [kind, direction] of directions) {
+      const point = from.clone().addScaledVector(direction, offset.dot(direction));
+      const pixels = toScreen(point, camera, rect).distanceTo(mouse);
+      if (pixels < INFERENCE_SNAP_PIXELS && (!best || pixels < best.pixels)) {
+        best = { point, kind, pixels };
+      }
+    }
+  }
+
+  return best ? { point: best.point, kind: best.kind, object: free.object, from: from.clone() } : null;
+}
+
+/** Snaps a point on the ground to the nearest grid crossing within a few pixels. */
+function snapToGrid(point: THREE.Vector3, camera: THREE.Camera, rect: DOMRect, mouse: THREE.Vector2): SnapResult | null {
+  if (!enabledCategories.grid || Math.abs(point.y) > 1e-6) return null;
+
+  const crossing = new THREE.Vector3(
+    Math.round(point.x / GRID_SIZE) * GRID_SIZE,
+    0,
+    Math.round(point.z / GRID_SIZE) * GRID_SIZE
+  );
+  if (toScreen(crossing, camera, rect).distanceTo(mouse) >= GRID_SNAP_PIXELS) return null;
+  return { point: crossing, kind: 'grid', object: null };
+}
+
+/**
+ * The point under the mouse, snapped by every kind of snap that is switched
+ * on: to the corners, edge midpoints, face centers and edges of the mesh it is
+ * over or of the lines near it, or off the meshes to the grid. A point that
+ * snaps to nothing is pulled onto a parallel or perpendicular direction from
+ * `options.from` when one is close. Off the meshes the point falls on
+ * `options.plane` or the ground. The edge inferences run along is forgotten
+ * whenever there is no `options.from`, so it never carries over between shapes.
+ */
+export function snapPoint(event: MouseEvent, camera: THREE.Camera, domElement: HTMLElement, objects: THREE.Object3D[], options: SnapOptions = {}): SnapResult | null {
+  const ray = getPointerRay(event, camera, domElement);
+  const raycaster = new THREE.Raycaster(ray.origin, ray.direction);
+  raycaster.camera = camera;
+  const rect = domElement.getBoundingClientRect();
+  const mouse = new THREE.Vector2(event.clientX - rect.left, event.clientY - rect.top);
+  if (!options.from) lastEdge = null;
+
+  const hit = raycaster.intersectObjects(objects, true).find(intersection =>
+    intersection.object instanceof THREE.Mesh && isVisible(intersection.object)
+  );
+  const onLine = snapToLines(raycaster, objects, camera, rect, mouse);
+  if (hit) {
+    const snap = snapToMesh(hit, camera, rect, mouse);
+    if (onLine && (snapRank(onLine.kind) > snapRank(snap.kind) || (snapRank(onLine.kind) === snapRank(snap.kind) &&
+      toScreen(onLine.point, camera, rect).distanceTo(mouse) < toScreen(snap.point, camera, rect).distanceTo(mouse)))) {
+      return onLine;
+    }
+    return snap.kind === 'face' ? inferDirection(snap, options, camera, rect, mouse) ?? snap : snap;
+  }
+  if (onLine) return onLine;
+
+  const point = ray.intersectPlane(options.plane ?? GROUND_PLANE, new THREE.Vector3());
+  if (!point) return null;
+
+  const free: SnapResult = { point, kind: 'ground', object: null };
+  return inferDirection(free, options, camera, rect, mouse) ?? snapToGrid(point, camera, rect, mouse) ?? free;
+}
+
+/**
+ * Shows where the mouse snapped: a dot in the snap's colour with a tooltip
+ * naming it, and the inference line of a parallel or perpendicular snap. It
+ * keeps the same size on screen however far away it is.
+ */
+export class SnapMarker {
+  private scene: THREE.Scene;
+  private group = new THREE.Group();
+  private dot: THREE.Points<THREE.BufferGeometry, THREE.PointsMaterial>;
+  private line: THREE.Line<THREE.BufferGeometry, THREE.LineDashedMaterial>;
+  private tooltips = new Map<SnapKind, THREE.Sprite>();
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+    this.group.name = 'SnapMarker';
+    this.group.userData.isSnapMarker = true;
+
+    this.dot = new THREE.Points(
+      new THREE.BufferGeometry().setFromPoints([new THREE.Vector3()]),
+      new THREE.PointsMaterial({ size: 10, sizeAttenuation: false, depthTest: false })
+    );
+    this.dot.renderOrder = 3;
+    this.line = new THREE.Line(
+      new THREE.BufferGeometry(),
+      new THREE.LineDashedMaterial({ dashSize: 0.1, gapSize: 0.05, depthTest: false })
+    );
+    this.line.renderOrder = 3;
+    this.group.add(this.dot, this.line);
+  }
+
+  private getTooltip(kind: SnapKind): THREE.Sprite {
+    let tooltip = this.tooltips.get(kind);
+    if (!tooltip) {
+      tooltip = createTextSprite(SNAP_LABELS[kind], { color: `#${SNAP_COLORS[kind].toString(16).padStart(6, '0')}`, size: 0.025 });
+      // Beside the dot rather than over it
+      tooltip.center.set(-0.1, 1.2);
+      this.tooltips.set(kind, tooltip);
+      this.group.add(tooltip);
+    }
+    return tooltip;
+  }
+
+  public show(snap: SnapResult) {
+    this.dot.position.copy(snap.point);
+    this.dot.material.color.setHex(SNAP_COLORS[snap.kind]);
+
+    this.tooltips.forEach(tooltip => { tooltip.visible = false; });
+    const tooltip = this.getTooltip(snap.kind);
+    tooltip.position.copy(snap.point);
+    tooltip.visible = true;
+
+    this.line.visible = snap.from !== undefined;
+    if (snap.from) {
+      this.line.geometry.dispose();
+      this.line.geometry = new THREE.BufferGeometry().setFromPoints([snap.from, snap.point]);
+      this.line.computeLineDistances();
+      this.line.material.color.setHex(SNAP_COLORS[snap.kind]);
+    }
+
+    if (!this.group.parent) this.scene.add(this.group);
+  }
+
+  public hide() {
+    this.scene.remove(this.group);
+  }
+
+  public dispose() {
+    this.hide();
+    this.dot.geometry.dispose();
+    this.dot.material.dispose();
+    this.line.geometry.dispose();
+    this.line.material.dispose();
+    this.tooltips.forEach((tooltip) => {
+      this.group.remove(tooltip);
+      tooltip.material.map?.dispose();
+      tooltip.material.dispose();
+    });
+    this.tooltips.clear();
+  }
+}